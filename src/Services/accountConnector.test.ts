@@ -0,0 +1,74 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const invoke = vi.hoisted(() => vi.fn());
+
+vi.mock('../lib/supabase', () => ({
+  supabase: { functions: { invoke } }
+}));
+
+vi.mock('./userDataStream', () => ({
+  userDataStream: {
+    supports: (exchange: string) => exchange === 'binance',
+    start: vi.fn(async () => undefined)
+  }
+}));
+
+import { accountConnector } from './accountConnector';
+import type { AccountConnectionRequest } from './accountConnector';
+import { credentialVault } from './credentialVault';
+import { exchangeService } from './exchangeService';
+import { userDataStream } from './userDataStream';
+
+const request: AccountConnectionRequest = {
+  exchange: 'binance',
+  apiKey: 'key-1',
+  apiSecret: 'secret-1',
+  permissions: ['read', 'trade']
+};
+
+describe('accountConnector', () => {
+  beforeAll(async () => {
+    await credentialVault.unlock('correct horse battery staple');
+  });
+
+  beforeEach(() => {
+    invoke.mockReset();
+    vi.mocked(userDataStream.start).mockClear();
+    credentialVault.listKeys().forEach(key => credentialVault.removeKey(key.id));
+    exchangeService.removeAccount('binance');
+  });
+
+  it('stores nothing when the exchange refuses the key', async () => {
+    invoke.mockResolvedValue({ data: { success: false, error: 'Invalid API key' }, error: null });
+
+    await expect(accountConnector.connect(request)).rejects.toThrow('Invalid API key');
+    expect(credentialVault.listKeys()).toEqual([]);
+    expect(exchangeService.isExchangeConnected('binance')).toBe(false);
+    expect(userDataStream.start).not.toHaveBeenCalled();
+  });
+
+  it('connects the account with a signer from the vault', async () => {
+    invoke.mockResolvedValue({ data: { success: true, latency: 12, pairs: 300 }, error: null });
+
+    const connection = await accountConnector.connect(request);
+
+    expect(connection).toMatchObject({ accountId: 'binance', latency: 12, pairs: 300 });
+    expect(invoke).toHaveBeenCalledWith('connect-exchange', { body: { exchange: 'binance', apiKey: 'key-1' } });
+    const signer = exchangeService.getSigner('binance', 'trade');
+    expect(signer.keyId).toBe(connection.keyId);
+    expect(await signer.sign('payload')).toMatch(/^[0-9a-f]{64}$/);
+    expect(userDataStream.start).toHaveBeenCalledWith('binance');
+  });
+
+  it('replaces the stored key when an account reconnects', async () => {
+    invoke.mockResolvedValue({ data: { success: true, latency: 12, pairs: 300 }, error: null });
+
+    const first = await accountConnector.connect(request);
+    const second = await accountConnector.connect({ ...request, apiKey: 'key-2', apiSecret: 'secret-2', permissions: ['read'] });
+
+    expect(second.keyId).toBe(first.keyId);
+    expect(credentialVault.listKeys()).toEqual([
+      expect.objectContaining({ id: first.keyId, apiKey: 'key-2', label: 'binance', permissions: ['read'] })
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+// src/services/accountConnector.ts
+
+import { supabase } from '../lib/supabase';
+import { krakenApi } from '../lib/krakenApi';
+import { credentialVault } from './credentialVault';
+import type { KeyPermission } from './credentialVault';
+import { exchangeService } from './exchangeService';
+import { userDataStream } from './userDataStream';
+import { AuthenticationError, ExchangeError } from './exchangeErrors';
+
+interface AccountConnectionRequest {
+  exchange: string;
+  accountId?: string; // Defaults to the exchange name
+  apiKey: string;
+  apiSecret: string;
+  passphrase?: string;
+  secretEncoding?: 'utf8' | 'base64';
+  permissions: KeyPermission[];
+}
+
+interface AccountConnection {
+  accountId: string;
+  keyId: string;
+  latency: number;
+  pairs: number;
+}
+
+/**
+ * Connects an exchange account from the settings screens: checks the API key
+ * with the exchange, then stores the secret in the credential vault and hands
+ * the vault's signer to exchangeService. Nothing is stored for a key the
+ * exchange refused, and reconnecting an account replaces its stored key.
+ * Venues with a private stream also get their order and fill updates pushed.
+ */
+class AccountConnector {
+  async connect(request: AccountConnectionRequest): Promise<AccountConnection> {
+    const accountId = request.accountId || request.exchange;
+    if (!credentialVault.isUnlocked()) {
+      throw new AuthenticationError('Unlock the credential vault before connecting an account', request.exchange);
+    }
+
+    const { data, error } = await supabase.functions.invoke('connect-exchange', {
+      body: { exchange: request.exchange, apiKey: request.apiKey }
+    });
+    if (error || !data?.success) {
+      throw new ExchangeError(data?.error || error?.message || `Could not connect to ${request.exchange}`, request.exchange);
+    }
+
+    // The key is labelled with its account, so reconnecting replaces it
+    const keyId = await credentialVault.saveKey({
+      exchange: request.exchange,
+      label: accountId,
+      apiKey: request.apiKey,
+      apiSecret: request.apiSecret,
+      passphrase: request.passphrase,
+      secretEncoding: request.secretEncoding,
+      permissions: request.permissions
+    });
+    const signer = credentialVault.getSigner(keyId);
+
+    const added = await exchangeService.addAccount({
+      id: accountId,
+      exchange: request.exchange,
+      credentials: { signer },
+      sandbox: false
+    });
+    if (!added) {
+      throw new ExchangeError(`Failed to initialize ${accountId}`, request.exchange);
+    }
+    if (request.exchange === 'kraken') {
+      krakenApi.setSigner(signer);
+    }
+    if (userDataStream.supports(request.exchange)) {
+      // The account works without it; reconciliation covers whatever the stream would have pushed
+      userDataStream.start(accountId).catch(error => {
+        console.error(`Could not start the user stream for ${accountId}:`, error);
+      });
+    }
+
+    return { accountId, keyId, latency: data.latency, pairs: data.pairs };
+  }
+}
+
+// Singleton instance
+export const accountConnector = new AccountConnector();
+export { AccountConnector };
+export type { AccountConnectionRequest, AccountConnection };
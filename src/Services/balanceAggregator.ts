@@ -0,0 +1,265 @@
+// src/services/balanceAggregator.ts
+
+import { exchangeService } from './exchangeService';
+import type { ExchangeService, Balance, Market } from './exchangeService';
+import { Clock, systemClock } from '../utils/clock';
+
+interface AggregationOptions {
+  quote?: string; // Currency everything is valued in
+  maxPriceAgeMs?: number; // Tickers older than this are used but reported as stale
+}
+
+interface ValuedBalance extends Balance {
+  price?: number; // Per unit in the quote currency, undefined when no conversion route exists
+  value?: number;
+  route?: string[]; // Symbols used for the conversion, more than one when triangulated
+  stale: boolean;
+}
+
+interface VenueBalances {
+  accountId: string;
+  exchange: string;
+  label?: string;
+  balances: ValuedBalance[];
+  totalValue: number;
+  error?: string; // Set when the account's balance could not be fetched
+}
+
+interface CurrencyTotal {
+  currency: string;
+  total: number;
+  value?: number;
+  venues: { accountId: string; total: number }[];
+}
+
+interface PriceQuote {
+  symbol: string;
+  accountId: string;
+  price: number;
+  timestamp: number;
+  stale: boolean;
+}
+
+interface AggregatedBalances {
+  quote: string;
+  timestamp: number;
+  totalValue: number; // Excludes unpriced currencies
+  currencies: CurrencyTotal[];
+  venues: VenueBalances[];
+  stalePrices: PriceQuote[];
+  unpriced: string[];
+}
+
+interface ConversionHop {
+  symbol: string;
+  inverse: boolean; // Holding the market's quote currency, so divide by its price
+}
+
+interface Conversion {
+  rate: number;
+  route: string[];
+  stale: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<AggregationOptions> = {
+  quote: 'USD',
+  maxPriceAgeMs: 60000
+};
+
+/**
+ * Values balances across every connected account in a single quote currency.
+ * Currencies without a direct market are converted through intermediate
+ * currencies using whatever markets the connected venues list.
+ */
+class BalanceAggregator {
+  constructor(private exchanges: ExchangeService = exchangeService, private clock: Clock = systemClock) {}
+
+  async getAggregatedBalances(options: AggregationOptions = {}): Promise<AggregatedBalances> {
+    const { quote, maxPriceAgeMs } = { ...DEFAULT_OPTIONS, ...options };
+    const accounts = this.exchanges.getAvailableExchanges();
+
+    const marketsByAccount = new Map<string, Market[]>();
+    await Promise.all(accounts.map(async account => {
+      try {
+        marketsByAccount.set(account.id, await this.exchanges.loadMarkets(account.id));
+      } catch {
+        marketsByAccount.set(account.id, []);
+      }
+    }));
+
+    // One ticker request per symbol for the whole aggregation
+    const quotes = new Map<string, Promise<PriceQuote | null>>();
+    const getQuote = (symbol: string, preferredAccount: string) => {
+      if (!quotes.has(symbol)) {
+        quotes.set(symbol, this.fetchQuote(symbol, preferredAccount, marketsByAccount, maxPriceAgeMs));
+      }
+      return quotes.get(symbol)!;
+    };
+
+    const venues = await Promise.all(accounts.map(async (account): Promise<VenueBalances> => {
+      const venue: VenueBalances = {
+        accountId: account.id,
+        exchange: account.exchange,
+        label: account.label,
+        balances: [],
+        totalValue: 0
+      };
+
+      let balances: Balance[];
+      try {
+        balances = await this.exchanges.getBalance(account.id);
+      } catch (error) {
+        venue.error = error instanceof Error ? error.message : String(error);
+        return venue;
+      }
+
+      for (const balance of balances) {
+        const conversion = await this.convert(balance.currency, quote, account.id, marketsByAccount, getQuote);
+        const valued: ValuedBalance = {
+          ...balance,
+          price: conversion?.rate,
+          value: conversion ? balance.total * conversion.rate : undefined,
+          route: conversion?.route,
+          stale: conversion?.stale ?? false
+        };
+        venue.balances.push(valued);
+        venue.totalValue += valued.value || 0;
+      }
+
+      return venue;
+    }));
+
+    const currencies = new Map<string, CurrencyTotal>();
+    venues.forEach(venue => venue.balances.forEach(balance => {
+      const entry = currencies.get(balance.currency) || { currency: balance.currency, total: 0, venues: [] };
+      entry.total += balance.total;
+      if (balance.value !== undefined) {
+        entry.value = (entry.value || 0) + balance.value;
+      }
+      entry.venues.push({ accountId: venue.accountId, total: balance.total });
+      currencies.set(balance.currency, entry);
+    }));
+
+    const resolvedQuotes = (await Promise.all(quotes.values())).filter((q): q is PriceQuote => q !== null);
+    const currencyTotals = Array.from(currencies.values()).sort((a, b) => (b.value || 0) - (a.value || 0));
+
+    return {
+      quote,
+      timestamp: this.clock.now(),
+      totalValue: venues.reduce((sum, venue) => sum + venue.totalValue, 0),
+      currencies: currencyTotals,
+      venues,
+      stalePrices: resolvedQuotes.filter(q => q.stale),
+      unpriced: currencyTotals.filter(c => c.value === undefined).map(c => c.currency)
+    };
+  }
+
+  /**
+   * Rate for one unit of currency in the quote, walking the shortest chain of listed markets
+   */
+  private async convert(
+    currency: string,
+    quote: string,
+    accountId: string,
+    marketsByAccount: Map<string, Market[]>,
+    getQuote: (symbol: string, preferredAccount: string) => Promise<PriceQuote | null>
+  ): Promise<Conversion | null> {
+    if (currency === quote) {
+      return { rate: 1, route: [], stale: false };
+    }
+
+    const route = this.findRoute(currency, quote, marketsByAccount);
+    if (!route) return null;
+
+    let rate = 1;
+    let stale = false;
+    for (const hop of route) {
+      const priceQuote = await getQuote(hop.symbol, accountId);
+      if (!priceQuote || priceQuote.price <= 0) return null;
+
+      rate = hop.inverse ? rate / priceQuote.price : rate * priceQuote.price;
+      stale = stale || priceQuote.stale;
+    }
+
+    return { rate, route: route.map(hop => hop.symbol), stale };
+  }
+
+  private findRoute(from: string, to: string, marketsByAccount: Map<string, Market[]>): ConversionHop[] | null {
+    const edges = new Map<string, ConversionHop[]>();
+    const addEdge = (currency: string, hop: ConversionHop) => {
+      if (!edges.has(currency)) edges.set(currency, []);
+      edges.get(currency)!.push(hop);
+    };
+
+    marketsByAccount.forEach(markets => markets.filter(market => market.active).forEach(market => {
+      addEdge(market.base, { symbol: market.symbol, inverse: false });
+      addEdge(market.quote, { symbol: market.symbol, inverse: true });
+    }));
+
+    // Breadth first so the fewest conversions, and so the least compounded spread, wins
+    const visited = new Set([from]);
+    const queue: { currency: string; path: ConversionHop[] }[] = [{ currency: from, path: [] }];
+
+    while (queue.length > 0) {
+      const { currency, path } = queue.shift()!;
+
+      for (const hop of edges.get(currency) || []) {
+        const [base, marketQuote] = hop.symbol.split('/');
+        const next = hop.inverse ? base : marketQuote;
+        if (visited.has(next)) continue;
+
+        const nextPath = [...path, hop];
+        if (next === to) return nextPath;
+
+        visited.add(next);
+        queue.push({ currency: next, path: nextPath });
+      }
+    }
+
+    return null;
+  }
+
+  private async fetchQuote(
+    symbol: string,
+    preferredAccount: string,
+    marketsByAccount: Map<string, Market[]>,
+    maxPriceAgeMs: number
+  ): Promise<PriceQuote | null> {
+    // Price on the account holding the asset when it lists the market, otherwise any account that does
+    const candidates = Array.from(marketsByAccount.entries())
+      .filter(([, markets]) => markets.some(market => market.symbol === symbol))
+      .map(([accountId]) => accountId)
+      .sort((a, b) => Number(b === preferredAccount) - Number(a === preferredAccount));
+
+    for (const accountId of candidates) {
+      try {
+        const ticker = await this.exchanges.getTicker(accountId, symbol);
+        const price = ticker.bid > 0 && ticker.ask > 0 ? (ticker.bid + ticker.ask) / 2 : ticker.last;
+
+        return {
+          symbol,
+          accountId,
+          price,
+          timestamp: ticker.timestamp,
+          stale: this.clock.now() - ticker.timestamp > maxPriceAgeMs
+        };
+      } catch (error) {
+        console.error(`Error pricing ${symbol} on ${accountId}:`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+// Singleton instance
+export const balanceAggregator = new BalanceAggregator();
+export { BalanceAggregator };
+export type {
+  AggregationOptions,
+  ValuedBalance,
+  VenueBalances,
+  CurrencyTotal,
+  PriceQuote,
+  AggregatedBalances
+};
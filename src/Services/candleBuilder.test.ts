@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./websocketService', () => ({
+  websocketService: {
+    subscribeToTrades: vi.fn(),
+    unsubscribeFromTrades: vi.fn(),
+    subscribeToTradePrints: vi.fn(() => () => undefined),
+    subscribe: vi.fn(() => () => undefined)
+  }
+}));
+
+import { CandleBuilder } from './candleBuilder';
+import type { CandleEvent, CandleHistorySource } from './candleBuilder';
+import type { MarketData } from './strategyEngine';
+import { FakeClock } from '../test/fakeClock';
+
+const MINUTE_MS = 60000;
+const T0 = Date.parse('2024-01-01T00:00:00Z');
+
+const bar = (timestamp: number, open: number, high: number, low: number, close: number, volume: number): Omit<MarketData, 'symbol'> =>
+  ({ timestamp, open, high, low, close, volume });
+
+describe('CandleBuilder', () => {
+  let clock: FakeClock;
+  let events: CandleEvent[];
+  let tradeId: number;
+
+  const trade = (timestamp: number, price: number, size: number = 1) => ({
+    exchange: 'binance',
+    symbol: 'BTC/USD',
+    tradeId: String(tradeId++),
+    price,
+    size,
+    side: 'buy' as const,
+    timestamp
+  });
+  const ticker = (timestamp: number, price: number) => ({ symbol: 'BTC/USD', price, volume: 25000, change: 1, timestamp });
+  const closed = () => events.filter(event => event.type === 'bar_closed').map(event => event.candle);
+
+  // A builder tracking binance BTC/USD 1m bars, backfilled with history
+  const start = async (history: Omit<MarketData, 'symbol'>[]) => {
+    const builder = new CandleBuilder(clock, async () => history);
+    builder.subscribe(event => events.push(event));
+    await builder.track({ exchange: 'binance', symbol: 'BTC/USD', timeframe: '1m' });
+    return builder;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock(T0 + 30000);
+    events = [];
+    tradeId = 1;
+  });
+
+  it('buffers prints during backfill and keeps only those after the backfilled forming bar', async () => {
+    let resolveHistory: (candles: Omit<MarketData, 'symbol'>[]) => void = () => undefined;
+    const loadHistory: CandleHistorySource = () => new Promise(resolve => { resolveHistory = resolve; });
+    const builder = new CandleBuilder(clock, loadHistory);
+    builder.subscribe(event => events.push(event));
+
+    const tracking = builder.track({ exchange: 'binance', symbol: 'BTC/USD', timeframe: '1m', history: 2 });
+    // Already counted in the venue's forming bar
+    builder.ingestTrade(trade(T0 + 20000, 150, 10));
+    clock.advance(10000);
+    builder.ingestTrade(trade(T0 + 41000, 102, 2));
+    expect(events).toEqual([]);
+
+    resolveHistory([
+      bar(T0 - 3 * MINUTE_MS, 97, 98, 96, 97, 1),
+      bar(T0 - 2 * MINUTE_MS, 97, 99, 97, 98, 1),
+      bar(T0 - MINUTE_MS, 98, 100, 98, 100, 1),
+      bar(T0, 100, 101, 99, 100.5, 3)
+    ]);
+    await tracking;
+
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true)).toEqual([
+      { symbol: 'BTC/USD', ...bar(T0 - 2 * MINUTE_MS, 97, 99, 97, 98, 1) },
+      { symbol: 'BTC/USD', ...bar(T0 - MINUTE_MS, 98, 100, 98, 100, 1) },
+      { symbol: 'BTC/USD', ...bar(T0, 100, 102, 99, 102, 5) }
+    ]);
+    expect(events.map(event => event.type)).toEqual(['bar_updated']);
+  });
+
+  it('closes a bar only after the grace period, so late prints still land in it', async () => {
+    const builder = await start([bar(T0 - MINUTE_MS, 99, 100, 99, 100, 1)]);
+
+    builder.ingestTrade(trade(T0 + 31000, 101));
+    clock.advance(MINUTE_MS - 30000 + 1999);
+    builder.ingestTrade(trade(T0 + 59500, 103));
+    expect(closed()).toEqual([]);
+
+    clock.advance(1);
+    expect(closed()).toEqual([{ symbol: 'BTC/USD', ...bar(T0, 101, 103, 101, 103, 2) }]);
+
+    // Prints for a closed bar arriving after it closed are dropped
+    builder.ingestTrade(trade(T0 + 59900, 90));
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true).slice(-2)).toEqual([
+      { symbol: 'BTC/USD', ...bar(T0, 101, 103, 101, 103, 2) },
+      { symbol: 'BTC/USD', ...bar(T0 + MINUTE_MS, 103, 103, 103, 103, 0) }
+    ]);
+  });
+
+  it('closes quiet bars flat at the previous close on the clock', async () => {
+    const builder = await start([bar(T0 - MINUTE_MS, 99, 100, 99, 100, 1)]);
+    builder.ingestTrade(trade(T0 + 31000, 101));
+    events = [];
+
+    clock.advance(3 * MINUTE_MS);
+    expect(closed()).toEqual([
+      { symbol: 'BTC/USD', ...bar(T0, 101, 101, 101, 101, 1) },
+      { symbol: 'BTC/USD', ...bar(T0 + MINUTE_MS, 101, 101, 101, 101, 0) },
+      { symbol: 'BTC/USD', ...bar(T0 + 2 * MINUTE_MS, 101, 101, 101, 101, 0) }
+    ]);
+  });
+
+  it('flat-fills buckets skipped between two prints', async () => {
+    const builder = await start([bar(T0 - MINUTE_MS, 99, 100, 99, 100, 1)]);
+
+    builder.ingestTrade(trade(T0 + 31000, 101));
+    builder.ingestTrade(trade(T0 + 3 * MINUTE_MS + 5000, 103, 2));
+
+    expect(closed()).toEqual([
+      { symbol: 'BTC/USD', ...bar(T0, 101, 101, 101, 101, 1) },
+      { symbol: 'BTC/USD', ...bar(T0 + MINUTE_MS, 101, 101, 101, 101, 0) },
+      { symbol: 'BTC/USD', ...bar(T0 + 2 * MINUTE_MS, 101, 101, 101, 101, 0) }
+    ]);
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true).pop()).toEqual({ symbol: 'BTC/USD', ...bar(T0 + 3 * MINUTE_MS, 103, 103, 103, 103, 2) });
+  });
+
+  it('moves bars on ticker prices only while trades are stale', async () => {
+    const builder = await start([bar(T0 - MINUTE_MS, 99, 100, 99, 100, 1)]);
+
+    builder.ingestTicker('binance', ticker(T0 + 30000, 104));
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true).pop()).toMatchObject({ open: 104, close: 104, volume: 0 });
+
+    builder.ingestTrade(trade(T0 + 31000, 101, 0.5));
+    clock.advance(14999);
+    builder.ingestTicker('binance', ticker(T0 + 45999, 110));
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true).pop()).toMatchObject({ high: 104, close: 101, volume: 0.5 });
+
+    clock.advance(1);
+    builder.ingestTicker('binance', ticker(T0 + 46000, 110));
+    expect(builder.getCandles('binance', 'BTC/USD', '1m', true).pop()).toMatchObject({ high: 110, close: 110, volume: 0.5 });
+  });
+
+  it('does not start the close timer before the first print', async () => {
+    await start([bar(T0 - MINUTE_MS, 99, 100, 99, 100, 1)]);
+    expect(clock.pendingTimers()).toBe(0);
+    expect(events).toEqual([]);
+  });
+});
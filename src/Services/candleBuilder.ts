@@ -0,0 +1,337 @@
+// src/services/candleBuilder.ts
+
+import { exchangeService } from './exchangeService';
+import { websocketService } from './websocketService';
+import type { MarketData as TickerData, TradePrint } from './websocketService';
+import type { MarketData } from './strategyEngine';
+import { addTimeframes, floorToTimeframe, parseTimeframe } from '../utils/timeframes';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+interface CandleSeriesOptions {
+  exchange: string; // Venue whose streams build the bars
+  symbol: string;
+  timeframe: string;
+  accountId?: string; // Account to backfill through, defaults to the account named after the exchange
+  history?: number; // Closed bars backfilled and kept
+}
+
+interface CandleEvent {
+  type: 'bar_updated' | 'bar_closed';
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  candle: MarketData;
+}
+
+interface CandleSeries {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  history: number;
+  closed: MarketData[];
+  forming: MarketData | null;
+  formingHasData: boolean; // False while the forming bar is a flat carry-over from the last close
+  closeTimer: TimerHandle | null;
+  ready: boolean; // Backfill finished
+  buffer: { timestamp: number; price: number; size: number }[]; // Live updates received during backfill
+  backfilledAt: number; // Trades before this are already counted in the backfilled forming bar
+  refs: number;
+}
+
+/**
+ * Bars for backfill, oldest first; the forming bar may be included
+ */
+type CandleHistorySource = (accountId: string, symbol: string, timeframe: string, limit: number) => Promise<Omit<MarketData, 'symbol'>[]>;
+
+interface StreamFeed {
+  refs: number;
+  stop: () => void;
+}
+
+const DEFAULT_HISTORY = 500;
+// Bars close this long after their end so prints delayed in transit still land in them
+const CLOSE_GRACE_MS = 2000;
+// Ticker updates only move bars when no trade has arrived for this long
+const TRADE_STALE_MS = 15000;
+
+/**
+ * Builds OHLCV bars per symbol and timeframe from the public trade stream,
+ * falling back to ticker prices while a venue sends no trades. Series are
+ * backfilled from exchangeService on start, and every change is published as
+ * a "bar updated" event, with "bar closed" once a bar is final. Bars with no
+ * activity close flat at the previous close.
+ */
+class CandleBuilder {
+  private series: Map<string, CandleSeries> = new Map();
+  private feeds: Map<string, StreamFeed> = new Map();
+  private lastTradeAt: Map<string, number> = new Map();
+  private subscribers: Set<(event: CandleEvent) => void> = new Set();
+
+  constructor(
+    private clock: Clock = systemClock,
+    private loadHistory: CandleHistorySource = (accountId, symbol, timeframe, limit) => exchangeService.getOHLCV(accountId, symbol, timeframe, limit)
+  ) {}
+
+  /**
+   * Start building a series. Returns a function that stops it once every caller tracking it has stopped.
+   */
+  async track(options: CandleSeriesOptions): Promise<() => void> {
+    const { exchange, symbol, timeframe } = options;
+    parseTimeframe(timeframe);
+
+    const key = `${exchange}:${symbol}:${timeframe}`;
+    const existing = this.series.get(key);
+    if (existing) {
+      existing.refs++;
+      return this.releaser(key);
+    }
+
+    const series: CandleSeries = {
+      exchange,
+      symbol,
+      timeframe,
+      history: options.history || DEFAULT_HISTORY,
+      closed: [],
+      forming: null,
+      formingHasData: false,
+      closeTimer: null,
+      ready: false,
+      buffer: [],
+      backfilledAt: 0,
+      refs: 1
+    };
+    this.series.set(key, series);
+    this.retainFeed(exchange, symbol);
+
+    await this.backfill(series, options.accountId || exchange);
+    return this.releaser(key);
+  }
+
+  /**
+   * Closed bars oldest first, optionally followed by the forming bar
+   */
+  getCandles(exchange: string, symbol: string, timeframe: string, includeForming: boolean = false): MarketData[] {
+    const series = this.series.get(`${exchange}:${symbol}:${timeframe}`);
+    if (!series) return [];
+    return includeForming && series.forming ? [...series.closed, { ...series.forming }] : [...series.closed];
+  }
+
+  subscribe(callback: (event: CandleEvent) => void): () => void {
+    this.subscribers.add(callback);
+    return () => this.subscribers.delete(callback);
+  }
+
+  /**
+   * Feed a trade print, e.g. from a recording; live prints arrive through the tracked stream
+   */
+  ingestTrade(print: TradePrint) {
+    this.lastTradeAt.set(`${print.exchange}:${print.symbol}`, this.clock.now());
+    this.seriesFor(print.exchange, print.symbol).forEach(series => {
+      this.apply(series, print.timestamp, print.price, print.size);
+    });
+  }
+
+  /**
+   * Feed a ticker update. Ignored while the symbol's trade stream is live, since
+   * tickers carry only the last price and a rolling 24h volume.
+   */
+  ingestTicker(exchange: string, ticker: TickerData) {
+    const lastTrade = this.lastTradeAt.get(`${exchange}:${ticker.symbol}`);
+    if (lastTrade !== undefined && this.clock.now() - lastTrade < TRADE_STALE_MS) return;
+
+    this.seriesFor(exchange, ticker.symbol).forEach(series => {
+      this.apply(series, ticker.timestamp, ticker.price, 0);
+    });
+  }
+
+  private seriesFor(exchange: string, symbol: string): CandleSeries[] {
+    return Array.from(this.series.values()).filter(series => series.exchange === exchange && series.symbol === symbol);
+  }
+
+  private async backfill(series: CandleSeries, accountId: string) {
+    try {
+      const candles = await this.loadHistory(accountId, series.symbol, series.timeframe, series.history + 1);
+      const current = floorToTimeframe(this.clock.now(), series.timeframe);
+
+      series.closed = candles
+        .filter(candle => candle.timestamp < current)
+        .slice(-series.history)
+        .map(candle => ({ ...candle, symbol: series.symbol }));
+
+      const forming = candles.find(candle => candle.timestamp === current);
+      if (forming) {
+        series.forming = { ...forming, symbol: series.symbol };
+        series.formingHasData = true;
+        this.scheduleClose(series);
+      }
+      // The venue's forming bar already counts trades up to about now
+      series.backfilledAt = this.clock.now();
+    } catch (error) {
+      console.error(`Error backfilling ${series.symbol} ${series.timeframe} candles from ${accountId}:`, error);
+    }
+
+    series.ready = true;
+    const buffered = series.buffer.filter(update => update.timestamp >= series.backfilledAt);
+    series.buffer = [];
+    buffered.forEach(update => this.apply(series, update.timestamp, update.price, update.size));
+  }
+
+  private apply(series: CandleSeries, timestamp: number, price: number, size: number) {
+    if (!series.ready) {
+      series.buffer.push({ timestamp, price, size });
+      return;
+    }
+
+    const bucket = floorToTimeframe(timestamp, series.timeframe);
+    const lastClosed = series.closed[series.closed.length - 1];
+    // Closed bars are final
+    if ((series.forming && bucket < series.forming.timestamp) || (lastClosed && bucket <= lastClosed.timestamp)) return;
+
+    if (!series.forming || bucket > series.forming.timestamp) {
+      this.roll(series, bucket);
+    }
+
+    const bar = series.forming!;
+    if (!series.formingHasData) {
+      bar.open = bar.high = bar.low = price;
+      series.formingHasData = true;
+    }
+    bar.high = Math.max(bar.high, price);
+    bar.low = Math.min(bar.low, price);
+    bar.close = price;
+    bar.volume += size;
+
+    this.emit('bar_updated', series, bar);
+  }
+
+  /**
+   * Close the forming bar and flat-fill any quiet buckets, leaving a forming bar at bucket
+   */
+  private roll(series: CandleSeries, bucket: number) {
+    if (series.closeTimer) {
+      this.clock.clearTimeout(series.closeTimer);
+      series.closeTimer = null;
+    }
+
+    if (series.forming && series.forming.timestamp < bucket) {
+      // A placeholder that never saw a price has nothing to close
+      if (series.formingHasData || series.closed.length > 0) {
+        this.close(series, series.forming);
+      }
+      series.forming = null;
+    }
+
+    const last = series.closed[series.closed.length - 1];
+    if (last) {
+      for (let timestamp = addTimeframes(last.timestamp, series.timeframe, 1); timestamp < bucket; timestamp = addTimeframes(timestamp, series.timeframe, 1)) {
+        this.close(series, this.flatBar(series, timestamp, last.close));
+      }
+    }
+
+    if (!series.forming) {
+      const previous = series.closed[series.closed.length - 1];
+      series.forming = previous
+        ? this.flatBar(series, bucket, previous.close)
+        : { symbol: series.symbol, timestamp: bucket, open: 0, high: 0, low: 0, close: 0, volume: 0 };
+      series.formingHasData = false;
+    }
+    this.scheduleClose(series);
+  }
+
+  private scheduleClose(series: CandleSeries) {
+    if (!series.forming) return;
+    if (series.closeTimer) {
+      this.clock.clearTimeout(series.closeTimer);
+    }
+
+    const end = addTimeframes(series.forming.timestamp, series.timeframe, 1);
+    series.closeTimer = this.clock.setTimeout(() => {
+      series.closeTimer = null;
+      // Nothing to carry forward before the first price
+      if (!series.formingHasData && series.closed.length === 0) return;
+      this.roll(series, floorToTimeframe(this.clock.now() - CLOSE_GRACE_MS, series.timeframe));
+    }, Math.max(0, end + CLOSE_GRACE_MS - this.clock.now()));
+  }
+
+  private close(series: CandleSeries, bar: MarketData) {
+    series.closed.push(bar);
+    if (series.closed.length > series.history) {
+      series.closed.splice(0, series.closed.length - series.history);
+    }
+    this.emit('bar_closed', series, bar);
+  }
+
+  private flatBar(series: CandleSeries, timestamp: number, price: number): MarketData {
+    return { symbol: series.symbol, timestamp, open: price, high: price, low: price, close: price, volume: 0 };
+  }
+
+  private emit(type: CandleEvent['type'], series: CandleSeries, bar: MarketData) {
+    const event: CandleEvent = { type, exchange: series.exchange, symbol: series.symbol, timeframe: series.timeframe, candle: { ...bar } };
+    this.subscribers.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in candle subscriber callback:', error);
+      }
+    });
+  }
+
+  private releaser(key: string): () => void {
+    let released = false;
+    return () => {
+      const series = this.series.get(key);
+      if (released || !series) return;
+      released = true;
+
+      series.refs--;
+      if (series.refs > 0) return;
+
+      if (series.closeTimer) {
+        this.clock.clearTimeout(series.closeTimer);
+      }
+      this.series.delete(key);
+      this.releaseFeed(series.exchange, series.symbol);
+    };
+  }
+
+  private retainFeed(exchange: string, symbol: string) {
+    const key = `${exchange}:${symbol}`;
+    const feed = this.feeds.get(key);
+    if (feed) {
+      feed.refs++;
+      return;
+    }
+
+    websocketService.subscribeToTrades(exchange, [symbol]);
+    const stopTrades = websocketService.subscribeToTradePrints(exchange, symbol, print => this.ingestTrade(print));
+    const onTicker = (ticker: TickerData) => this.ingestTicker(exchange, ticker);
+    const stopTicker = websocketService.subscribe(exchange, symbol, onTicker);
+
+    this.feeds.set(key, {
+      refs: 1,
+      stop: () => {
+        stopTrades();
+        stopTicker();
+        websocketService.unsubscribeFromTrades(exchange, [symbol]);
+      }
+    });
+  }
+
+  private releaseFeed(exchange: string, symbol: string) {
+    const key = `${exchange}:${symbol}`;
+    const feed = this.feeds.get(key);
+    if (!feed) return;
+
+    feed.refs--;
+    if (feed.refs === 0) {
+      feed.stop();
+      this.feeds.delete(key);
+      this.lastTradeAt.delete(key);
+    }
+  }
+}
+
+// Singleton instance
+export const candleBuilder = new CandleBuilder();
+export { CandleBuilder };
+export type { CandleSeriesOptions, CandleEvent, CandleHistorySource };
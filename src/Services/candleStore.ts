@@ -0,0 +1,170 @@
+// src/services/candleStore.ts
+
+import type { OHLCV } from './exchangeService';
+
+// Half-open [from, to) span of bucket timestamps
+interface TimeRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Persistent cache of closed candles, keyed by venue, symbol and timeframe.
+ * Coverage records which spans have been downloaded, so spans where the venue
+ * had no candles are not requested again.
+ */
+interface CandleStore {
+  getCandles(key: string, from: number, to: number): Promise<OHLCV[]>;
+  putCandles(key: string, candles: OHLCV[]): Promise<void>;
+  getCoverage(key: string): Promise<TimeRange[]>;
+  addCoverage(key: string, range: TimeRange): Promise<void>;
+}
+
+/**
+ * Merge a range into a sorted, non-overlapping list
+ */
+function mergeRanges(ranges: TimeRange[], range: TimeRange): TimeRange[] {
+  const sorted = [...ranges, range].sort((a, b) => a.from - b.from);
+  const merged: TimeRange[] = [];
+
+  sorted.forEach(current => {
+    const last = merged[merged.length - 1];
+    if (last && current.from <= last.to) {
+      last.to = Math.max(last.to, current.to);
+    } else {
+      merged.push({ ...current });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Parts of [from, to) not covered by the given ranges
+ */
+function subtractRanges(from: number, to: number, covered: TimeRange[]): TimeRange[] {
+  const missing: TimeRange[] = [];
+  let cursor = from;
+
+  [...covered].sort((a, b) => a.from - b.from).forEach(range => {
+    if (range.to <= cursor || range.from >= to) return;
+    if (range.from > cursor) {
+      missing.push({ from: cursor, to: Math.min(range.from, to) });
+    }
+    cursor = Math.max(cursor, range.to);
+  });
+
+  if (cursor < to) {
+    missing.push({ from: cursor, to });
+  }
+  return missing;
+}
+
+function mergeCandles(existing: OHLCV[], incoming: OHLCV[]): OHLCV[] {
+  const byTimestamp = new Map(existing.map(candle => [candle.timestamp, candle]));
+  incoming.forEach(candle => byTimestamp.set(candle.timestamp, candle));
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+class MemoryCandleStore implements CandleStore {
+  private candles: Map<string, OHLCV[]> = new Map();
+  private coverage: Map<string, TimeRange[]> = new Map();
+
+  async getCandles(key: string, from: number, to: number): Promise<OHLCV[]> {
+    return (this.candles.get(key) || []).filter(candle => candle.timestamp >= from && candle.timestamp < to);
+  }
+
+  async putCandles(key: string, candles: OHLCV[]): Promise<void> {
+    this.candles.set(key, mergeCandles(this.candles.get(key) || [], candles));
+  }
+
+  async getCoverage(key: string): Promise<TimeRange[]> {
+    return this.coverage.get(key) || [];
+  }
+
+  async addCoverage(key: string, range: TimeRange): Promise<void> {
+    this.coverage.set(key, mergeRanges(this.coverage.get(key) || [], range));
+  }
+}
+
+const DB_NAME = 'candle_store';
+const CANDLE_STORE = 'candles';
+const COVERAGE_STORE = 'coverage';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser store. Each candle is its own record under [key, timestamp] so
+ * range reads use the primary key index.
+ */
+class IndexedDBCandleStore implements CandleStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getCandles(key: string, from: number, to: number): Promise<OHLCV[]> {
+    if (to <= from) return [];
+    const db = await this.open();
+    const range = IDBKeyRange.bound([key, from], [key, to], false, true);
+    const records = await requestToPromise(db.transaction(CANDLE_STORE).objectStore(CANDLE_STORE).getAll(range));
+    return records.map(({ key: _key, ...candle }) => candle as OHLCV);
+  }
+
+  async putCandles(key: string, candles: OHLCV[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CANDLE_STORE, 'readwrite');
+    const store = transaction.objectStore(CANDLE_STORE);
+    candles.forEach(candle => store.put({ ...candle, key }));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getCoverage(key: string): Promise<TimeRange[]> {
+    const db = await this.open();
+    const record = await requestToPromise(db.transaction(COVERAGE_STORE).objectStore(COVERAGE_STORE).get(key));
+    return record?.ranges || [];
+  }
+
+  async addCoverage(key: string, range: TimeRange): Promise<void> {
+    const ranges = mergeRanges(await this.getCoverage(key), range);
+    const db = await this.open();
+    await requestToPromise(db.transaction(COVERAGE_STORE, 'readwrite').objectStore(COVERAGE_STORE).put({ key, ranges }));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(CANDLE_STORE, { keyPath: ['key', 'timestamp'] });
+          request.result.createObjectStore(COVERAGE_STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * IndexedDB in the browser, memory anywhere else. Node scripts that want
+ * candles kept between runs pass a FileCandleStore from './fileCandleStore'
+ * to ExchangeService instead; it is not imported here so the app bundle
+ * never pulls in Node modules.
+ */
+function createCandleStore(): CandleStore {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBCandleStore();
+  }
+  return new MemoryCandleStore();
+}
+
+export { MemoryCandleStore, IndexedDBCandleStore, createCandleStore, mergeCandles, mergeRanges, subtractRanges };
+export type { CandleStore, TimeRange };
@@ -0,0 +1,400 @@
+// src/services/credentialVault.ts
+
+import { AuthenticationError } from './exchangeErrors';
+
+type KeyPermission = 'read' | 'trade' | 'withdraw';
+type SignatureHash = 'SHA-256' | 'SHA-384' | 'SHA-512';
+type SignatureEncoding = 'hex' | 'base64';
+
+interface SignOptions {
+  hash?: SignatureHash;
+  encoding?: SignatureEncoding;
+}
+
+/**
+ * What adapters receive instead of the raw secret. The HMAC key lives inside
+ * WebCrypto as a non-extractable CryptoKey and stops working once the vault locks.
+ */
+interface RequestSigner {
+  readonly keyId: string;
+  readonly apiKey: string;
+  readonly permissions: KeyPermission[];
+  sign(payload: string | Uint8Array, options?: SignOptions): Promise<string>;
+  getPassphrase(): Promise<string | undefined>; // Venues such as Coinbase send the passphrase verbatim with each request
+}
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface StoredKey {
+  id: string;
+  exchange: string;
+  label?: string;
+  apiKey: string; // Public identifier, kept in clear so keys can be listed while locked
+  secret: EncryptedValue;
+  passphrase?: EncryptedValue;
+  secretEncoding: 'utf8' | 'base64'; // Kraken and Coinbase issue base64 secrets that must be decoded before use
+  permissions: KeyPermission[];
+  createdAt: number;
+  rotatedAt?: number;
+}
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: EncryptedValue; // Known plaintext, proves the passphrase before any key is touched
+  keys: StoredKey[];
+}
+
+interface NewKey {
+  exchange: string;
+  label?: string;
+  apiKey: string;
+  apiSecret: string;
+  passphrase?: string;
+  secretEncoding?: 'utf8' | 'base64';
+  permissions: KeyPermission[];
+}
+
+type StoredKeyInfo = Omit<StoredKey, 'secret' | 'passphrase'>;
+
+interface VaultStorage {
+  load(): string | null;
+  save(data: string): void;
+}
+
+const STORAGE_KEY = 'credential_vault';
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_PLAINTEXT = 'credential-vault-check';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function createDefaultStorage(): VaultStorage {
+  if (typeof localStorage !== 'undefined') {
+    return {
+      load: () => localStorage.getItem(STORAGE_KEY),
+      save: data => localStorage.setItem(STORAGE_KEY, data)
+    };
+  }
+
+  let memory: string | null = null;
+  return {
+    load: () => memory,
+    save: data => { memory = data; }
+  };
+}
+
+/**
+ * Stores exchange API secrets encrypted with a key derived from the user's
+ * passphrase (PBKDF2 → AES-GCM). Secrets are only decrypted while unlocked,
+ * and only into signing keys, never handed out as strings.
+ */
+class CredentialVault {
+  private vault: VaultFile | null = null;
+  private encryptionKey: CryptoKey | null = null;
+  private signingKeys: Map<string, CryptoKey> = new Map(); // `${keyId}:${hash}` → HMAC key
+  private listeners: Set<(unlocked: boolean) => void> = new Set();
+
+  constructor(private storage: VaultStorage = createDefaultStorage()) {}
+
+  isInitialized(): boolean {
+    return this.read() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.encryptionKey !== null;
+  }
+
+  /**
+   * Unlock for this session, creating the vault on first use
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const existing = this.read();
+
+    if (!existing) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      this.vault = {
+        version: 1,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        check: await this.encrypt(key, CHECK_PLAINTEXT),
+        keys: []
+      };
+      this.encryptionKey = key;
+      this.persist();
+    } else {
+      const key = await this.deriveKey(passphrase, fromBase64(existing.salt), existing.iterations);
+      try {
+        await this.decrypt(key, existing.check);
+      } catch {
+        throw new AuthenticationError('Incorrect vault passphrase');
+      }
+      this.vault = existing;
+      this.encryptionKey = key;
+    }
+
+    this.notify();
+  }
+
+  lock() {
+    this.encryptionKey = null;
+    this.signingKeys.clear();
+    this.notify();
+  }
+
+  /**
+   * Re-encrypt every stored secret under a new passphrase and fresh salt
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.unlock(currentPassphrase);
+    const vault = this.requireUnlocked();
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const newKey = await this.deriveKey(newPassphrase, salt, PBKDF2_ITERATIONS);
+
+    const keys: StoredKey[] = [];
+    for (const stored of vault.keys) {
+      keys.push({
+        ...stored,
+        secret: await this.encrypt(newKey, await this.decrypt(this.encryptionKey!, stored.secret)),
+        passphrase: stored.passphrase
+          ? await this.encrypt(newKey, await this.decrypt(this.encryptionKey!, stored.passphrase))
+          : undefined
+      });
+    }
+
+    this.vault = {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await this.encrypt(newKey, CHECK_PLAINTEXT),
+      keys
+    };
+    this.encryptionKey = newKey;
+    this.persist();
+  }
+
+  async addKey(key: NewKey): Promise<string> {
+    const vault = this.requireUnlocked();
+    const id = `key_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    vault.keys.push({
+      id,
+      exchange: key.exchange,
+      label: key.label,
+      apiKey: key.apiKey,
+      secret: await this.encrypt(this.encryptionKey!, key.apiSecret),
+      passphrase: key.passphrase ? await this.encrypt(this.encryptionKey!, key.passphrase) : undefined,
+      secretEncoding: key.secretEncoding || 'utf8',
+      permissions: key.permissions,
+      createdAt: Date.now()
+    });
+
+    this.persist();
+    return id;
+  }
+
+  /**
+   * Store the key for an account, replacing the one already stored under the
+   * same exchange and label rather than adding a duplicate
+   */
+  async saveKey(key: NewKey): Promise<string> {
+    const existing = this.requireUnlocked().keys.find(stored => stored.exchange === key.exchange && stored.label === key.label);
+    if (!existing) {
+      return this.addKey(key);
+    }
+
+    existing.secretEncoding = key.secretEncoding || 'utf8';
+    await this.rotateKey(existing.id, { apiKey: key.apiKey, apiSecret: key.apiSecret, passphrase: key.passphrase });
+    this.updatePermissions(existing.id, key.permissions);
+    return existing.id;
+  }
+
+  /**
+   * Replace a key's API key and secret in place, keeping its id so connected
+   * accounts switch to the new key without reconnecting
+   */
+  async rotateKey(keyId: string, replacement: { apiKey: string; apiSecret: string; passphrase?: string }): Promise<void> {
+    this.requireUnlocked();
+    const stored = this.requireKey(keyId);
+
+    stored.apiKey = replacement.apiKey;
+    stored.secret = await this.encrypt(this.encryptionKey!, replacement.apiSecret);
+    stored.passphrase = replacement.passphrase ? await this.encrypt(this.encryptionKey!, replacement.passphrase) : undefined;
+    stored.rotatedAt = Date.now();
+    this.dropSigningKeys(keyId);
+
+    this.persist();
+  }
+
+  updatePermissions(keyId: string, permissions: KeyPermission[]) {
+    this.requireUnlocked();
+    this.requireKey(keyId).permissions = permissions;
+    this.persist();
+  }
+
+  removeKey(keyId: string): boolean {
+    const vault = this.requireUnlocked();
+    const before = vault.keys.length;
+    vault.keys = vault.keys.filter(key => key.id !== keyId);
+    this.dropSigningKeys(keyId);
+    this.persist();
+    return vault.keys.length < before;
+  }
+
+  /**
+   * Stored keys without their secrets. Works while locked.
+   */
+  listKeys(exchange?: string): StoredKeyInfo[] {
+    const keys = this.read()?.keys || [];
+    return keys
+      .filter(key => !exchange || key.exchange === exchange)
+      .map(({ secret, passphrase, ...info }) => info);
+  }
+
+  /**
+   * A signer for the key, refusing keys that lack the required permission
+   */
+  getSigner(keyId: string, requiredPermission?: KeyPermission): RequestSigner {
+    this.requireUnlocked();
+    const stored = this.requireKey(keyId);
+
+    if (requiredPermission && !stored.permissions.includes(requiredPermission)) {
+      throw new AuthenticationError(`Key ${stored.label || keyId} lacks ${requiredPermission} permission`, stored.exchange);
+    }
+
+    // Read through to the stored key so a rotation takes effect on signers already handed out
+    const current = () => this.requireKey(keyId);
+    return {
+      keyId,
+      get apiKey() { return current().apiKey; },
+      get permissions() { return [...current().permissions]; },
+      sign: (payload, options = {}) => this.sign(keyId, payload, options),
+      getPassphrase: async () => {
+        const { passphrase } = current();
+        return passphrase ? this.decrypt(this.requireEncryptionKey(), passphrase) : undefined;
+      }
+    };
+  }
+
+  onLockChange(listener: (unlocked: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async sign(keyId: string, payload: string | Uint8Array, options: SignOptions): Promise<string> {
+    const hash = options.hash || 'SHA-256';
+    const cacheKey = `${keyId}:${hash}`;
+
+    let signingKey = this.signingKeys.get(cacheKey);
+    if (!signingKey) {
+      const stored = this.requireKey(keyId);
+      const secret = await this.decrypt(this.requireEncryptionKey(), stored.secret);
+      const secretBytes = stored.secretEncoding === 'base64' ? fromBase64(secret) : encoder.encode(secret);
+      signingKey = await crypto.subtle.importKey('raw', secretBytes, { name: 'HMAC', hash }, false, ['sign']);
+      this.signingKeys.set(cacheKey, signingKey);
+    }
+
+    const data = typeof payload === 'string' ? encoder.encode(payload) : new Uint8Array(payload);
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', signingKey, data));
+    return options.encoding === 'base64' ? toBase64(signature) : toHex(signature);
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+    return decoder.decode(data);
+  }
+
+  private read(): VaultFile | null {
+    if (this.vault) return this.vault;
+    const raw = this.storage.load();
+    return raw ? JSON.parse(raw) as VaultFile : null;
+  }
+
+  private persist() {
+    if (this.vault) {
+      this.storage.save(JSON.stringify(this.vault));
+    }
+  }
+
+  private requireUnlocked(): VaultFile {
+    if (!this.vault || !this.encryptionKey) {
+      throw new AuthenticationError('Credential vault is locked');
+    }
+    return this.vault;
+  }
+
+  private requireEncryptionKey(): CryptoKey {
+    if (!this.encryptionKey) {
+      throw new AuthenticationError('Credential vault is locked');
+    }
+    return this.encryptionKey;
+  }
+
+  private requireKey(keyId: string): StoredKey {
+    const stored = this.requireUnlocked().keys.find(key => key.id === keyId);
+    if (!stored) {
+      throw new Error(`Key ${keyId} not found in vault`);
+    }
+    return stored;
+  }
+
+  private dropSigningKeys(keyId: string) {
+    Array.from(this.signingKeys.keys())
+      .filter(cacheKey => cacheKey.startsWith(`${keyId}:`))
+      .forEach(cacheKey => this.signingKeys.delete(cacheKey));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.isUnlocked()));
+  }
+}
+
+// Singleton instance
+export const credentialVault = new CredentialVault();
+export { CredentialVault };
+export type {
+  KeyPermission,
+  SignatureHash,
+  SignOptions,
+  RequestSigner,
+  NewKey,
+  StoredKeyInfo,
+  VaultStorage
+};
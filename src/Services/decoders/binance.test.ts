@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { binanceDecoder } from './binance';
+import { WebSocketService } from '../websocketService';
+import type { FeedGap } from '../websocketService';
+import { FakeWebSocket } from '../../test/fakeWebSocket';
+import { decodeAll, loadFrames } from '../../test/frameFixtures';
+
+const frames = loadFrames('binance');
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('binanceDecoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWebSocket.instances = [];
+  });
+
+  it('decodes 24h tickers', () => {
+    expect(decodeAll(binanceDecoder, frames.ticker)).toEqual([{
+      type: 'ticker',
+      ticker: { symbol: 'BTC/USD', price: 67000.1, volume: 12345.6, change: 1.25, timestamp: 1718000000000 }
+    }]);
+  });
+
+  it('decodes trades with the taker side', () => {
+    expect(decodeAll(binanceDecoder, frames.trades)).toEqual([
+      { type: 'trades', prints: [{ exchange: 'binance', symbol: 'BTC/USD', tradeId: '3591250001', price: 67000.1, size: 0.015, side: 'sell', timestamp: 1718000000099 }] },
+      { type: 'trades', prints: [{ exchange: 'binance', symbol: 'BTC/USD', tradeId: '3591250002', price: 67000.2, size: 0.2, side: 'buy', timestamp: 1718000000198 }] }
+    ]);
+  });
+
+  it('loads the depth snapshot over REST with its lastUpdateId', async () => {
+    const fetch = vi.fn(async () => ({ ok: true, json: async () => JSON.parse(frames.depthSnapshot[0]) }));
+    vi.stubGlobal('fetch', fetch);
+
+    const snapshot = await binanceDecoder.depth.fetchSnapshot!('BTCUSDT');
+
+    expect(fetch).toHaveBeenCalledWith('https://api.binance.com/api/v3/depth?symbol=BTCUSDT&limit=1000');
+    expect(snapshot).toMatchObject({
+      symbol: 'BTC/USD',
+      kind: 'snapshot',
+      bids: [['67000.00', '1.50000000'], ['66999.50', '0.40000000']],
+      asks: [['67000.10', '0.30000000'], ['67001.00', '2.00000000']],
+      sequence: 160
+    });
+  });
+
+  it('decodes depth diffs with their update id range', () => {
+    const [first] = decodeAll(binanceDecoder, frames.depthDiff);
+    expect(first).toEqual({
+      type: 'depth',
+      update: {
+        symbol: 'BTC/USD',
+        kind: 'delta',
+        bids: [['67000.00', '1.20000000']],
+        asks: [['67000.10', '0.00000000']],
+        timestamp: 1718000000300,
+        firstSequence: 157,
+        sequence: 161
+      }
+    });
+  });
+
+  it('treats request acknowledgements and ping replies as control frames', () => {
+    expect(decodeAll(binanceDecoder, frames.control)).toEqual([{ type: 'control' }, { type: 'control' }]);
+  });
+
+  it('decodes nothing from malformed frames', () => {
+    expect(decodeAll(binanceDecoder, frames.malformed)).toEqual([]);
+  });
+
+  it('resyncs from a new snapshot when a diff skips past lastUpdateId', async () => {
+    const fetch = vi.fn(async () => ({ ok: true, json: async () => JSON.parse(frames.depthSnapshot[0]) }));
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+
+    const service = new WebSocketService();
+    const gaps: FeedGap[] = [];
+    service.subscribeToFeedGaps(gap => gaps.push(gap));
+    service.subscribeToDepth('binance', ['BTC/USD']);
+    const connecting = service.connect('binance');
+    const ws = FakeWebSocket.latest();
+    ws.open();
+    await connecting;
+
+    // The first diff straddles the snapshot's lastUpdateId (160) and is buffered until it loads
+    frames.depthDiff.forEach(frame => ws.onmessage?.({ data: frame }));
+    await flush();
+
+    expect(service.getOrderBook('binance', 'BTC/USD')).toMatchObject({
+      bids: [{ price: 67000, size: 1.2 }, { price: 66999.5, size: 0.4 }],
+      asks: [{ price: 67000.5, size: 0.75 }, { price: 67001, size: 2 }],
+      sequence: 163
+    });
+    expect(gaps).toEqual([]);
+
+    ws.onmessage?.({ data: frames.depthGap[0] });
+    await flush();
+
+    expect(gaps).toEqual([expect.objectContaining({ exchange: 'binance', symbol: 'BTC/USD', reason: 'sequence' })]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    service.disconnect('binance');
+  });
+});
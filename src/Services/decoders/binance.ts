@@ -0,0 +1,158 @@
+// src/services/decoders/binance.ts
+import { symbolRegistry } from '../symbolRegistry';
+import type { RawLevel } from '../orderBook';
+import { parseFrame } from './types';
+import type { DecodedMessage, DepthUpdate, StreamChannel, VenueDecoder } from './types';
+
+// {"e":"24hrTicker","E":1718000000000,"s":"BTCUSDT","P":"1.25","c":"67000.10","v":"12345.6",...}
+interface BinanceTicker {
+  e: '24hrTicker';
+  E: number;
+  s: string;
+  P: string; // Percent change
+  c: string; // Last price
+  v: string; // Base volume
+}
+
+// {"e":"depthUpdate","E":1718000000000,"s":"BTCUSDT","U":157,"u":160,"b":[["67000.00","0.5"]],"a":[]}
+interface BinanceDepthUpdate {
+  e: 'depthUpdate';
+  E: number;
+  s: string;
+  U: number; // First update id in the event
+  u: number; // Last update id in the event
+  b: RawLevel[];
+  a: RawLevel[];
+}
+
+// {"e":"trade","E":1718000000000,"s":"BTCUSDT","t":12345,"p":"67000.10","q":"0.01","T":1718000000000,"m":true}
+interface BinanceTrade {
+  e: 'trade';
+  s: string;
+  t: number;
+  p: string;
+  q: string;
+  T: number;
+  m: boolean; // Buyer was the maker, so the seller took liquidity
+}
+
+const STREAM_SUFFIX: Record<StreamChannel, string> = {
+  ticker: '@ticker',
+  depth: '@depth@100ms',
+  trades: '@trade'
+};
+
+// Request ids only need to tell acknowledgements apart in logs
+const REQUEST_IDS: Record<StreamChannel, number> = { ticker: 1, depth: 2, trades: 3 };
+const PING_ID = 99;
+
+const STREAM_URL = 'wss://stream.binance.com:9443/ws/';
+const REST_URL = 'https://api.binance.com';
+const SNAPSHOT_LIMIT = 1000;
+
+const toCanonical = (native: string) => symbolRegistry.toCanonical('binance', native);
+
+/**
+ * Binance spot streams. Depth streams carry only diffs, so books start from a
+ * REST snapshot and diffs are checked against its lastUpdateId. The endpoints
+ * can be pointed elsewhere, e.g. at a local mock exchange.
+ */
+export const createBinanceDecoder = (streamUrl: string = STREAM_URL, restUrl: string = REST_URL): VenueDecoder => ({
+  url: streamUrl,
+
+  subscriptionFrames(channel, nativeSymbols, subscribe) {
+    return [JSON.stringify({
+      method: subscribe ? 'SUBSCRIBE' : 'UNSUBSCRIBE',
+      params: nativeSymbols.map(symbol => `${symbol.toLowerCase()}${STREAM_SUFFIX[channel]}`),
+      id: REQUEST_IDS[channel]
+    })];
+  },
+
+  pingFrame() {
+    // Browsers cannot send protocol pings; any request gets a reply
+    return JSON.stringify({ method: 'LIST_SUBSCRIPTIONS', id: PING_ID });
+  },
+
+  decode(frame) {
+    const data = parseFrame(frame) as ({ e?: string; id?: number; result?: unknown } | null);
+    if (!data || typeof data !== 'object') return [];
+
+    if (data.id !== undefined && 'result' in data) {
+      return [{ type: 'control' }];
+    }
+
+    const messages: DecodedMessage[] = [];
+    switch (data.e) {
+      case '24hrTicker': {
+        const ticker = data as BinanceTicker;
+        messages.push({
+          type: 'ticker',
+          ticker: {
+            symbol: toCanonical(ticker.s),
+            price: parseFloat(ticker.c),
+            volume: parseFloat(ticker.v),
+            change: parseFloat(ticker.P),
+            timestamp: ticker.E
+          }
+        });
+        break;
+      }
+
+      case 'depthUpdate': {
+        const update = data as BinanceDepthUpdate;
+        messages.push({
+          type: 'depth',
+          update: {
+            symbol: toCanonical(update.s),
+            kind: 'delta',
+            bids: update.b,
+            asks: update.a,
+            timestamp: update.E,
+            firstSequence: update.U,
+            sequence: update.u
+          }
+        });
+        break;
+      }
+
+      case 'trade': {
+        const trade = data as BinanceTrade;
+        messages.push({
+          type: 'trades',
+          prints: [{
+            exchange: 'binance',
+            symbol: toCanonical(trade.s),
+            tradeId: String(trade.t),
+            price: parseFloat(trade.p),
+            size: parseFloat(trade.q),
+            side: trade.m ? 'sell' : 'buy',
+            timestamp: trade.T
+          }]
+        });
+        break;
+      }
+    }
+    return messages;
+  },
+
+  depth: {
+    async fetchSnapshot(nativeSymbol): Promise<DepthUpdate> {
+      const response = await fetch(`${restUrl}/api/v3/depth?symbol=${nativeSymbol}&limit=${SNAPSHOT_LIMIT}`);
+      if (!response.ok) {
+        throw new Error(`Depth snapshot request failed: ${response.status}`);
+      }
+      const snapshot: { lastUpdateId: number; bids: RawLevel[]; asks: RawLevel[] } = await response.json();
+
+      return {
+        symbol: toCanonical(nativeSymbol),
+        kind: 'snapshot',
+        bids: snapshot.bids,
+        asks: snapshot.asks,
+        timestamp: Date.now(),
+        sequence: snapshot.lastUpdateId
+      };
+    }
+  }
+});
+
+export const binanceDecoder = createBinanceDecoder();
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { bybitDecoder } from './bybit';
+import { decodeAll, loadFrames } from '../../test/frameFixtures';
+
+const frames = loadFrames('bybit');
+
+describe('bybitDecoder', () => {
+  it('decodes tickers with the 24h change as a percentage', () => {
+    expect(decodeAll(bybitDecoder, frames.ticker)).toEqual([{
+      type: 'ticker',
+      ticker: { symbol: 'BTC/USD', price: 67000.1, volume: 1234.5, change: expect.closeTo(1.52, 6), timestamp: 1718000000000 }
+    }]);
+  });
+
+  it('decodes public trades with the taker side', () => {
+    expect(decodeAll(bybitDecoder, frames.trades)).toEqual([{
+      type: 'trades',
+      prints: [{ exchange: 'bybit', symbol: 'BTC/USD', tradeId: '2290000000007764263', price: 67000.1, size: 0.01, side: 'sell', timestamp: 1718000000099 }]
+    }]);
+  });
+
+  it('decodes book snapshots', () => {
+    expect(decodeAll(bybitDecoder, frames.depthSnapshot)).toEqual([{
+      type: 'depth',
+      update: {
+        symbol: 'BTC/USD',
+        kind: 'snapshot',
+        bids: [['67000.1', '1.2'], ['66999', '0.8']],
+        asks: [['67000.2', '0.5'], ['67001', '1']],
+        timestamp: 1718000000000,
+        sequence: 1234
+      }
+    }]);
+  });
+
+  it('decodes book deltas with their update id', () => {
+    expect(decodeAll(bybitDecoder, frames.depthDiff)).toEqual([{
+      type: 'depth',
+      update: {
+        symbol: 'BTC/USD',
+        kind: 'delta',
+        bids: [['67000.1', '1.5']],
+        asks: [['67000.2', '0']],
+        timestamp: 1718000000200,
+        sequence: 1235
+      }
+    }]);
+  });
+
+  it('treats a delta with update id 1 as a fresh snapshot after a restart', () => {
+    const [message] = decodeAll(bybitDecoder, frames.depthRestart);
+    expect(message).toMatchObject({ type: 'depth', update: { kind: 'snapshot', sequence: 1 } });
+  });
+
+  it('treats pongs and subscription acknowledgements as control frames', () => {
+    expect(decodeAll(bybitDecoder, frames.control)).toEqual([{ type: 'control' }, { type: 'control' }]);
+  });
+
+  it('decodes nothing from malformed frames', () => {
+    expect(decodeAll(bybitDecoder, frames.malformed)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+// src/services/decoders/bybit.ts
+import { symbolRegistry } from '../symbolRegistry';
+import type { RawLevel } from '../orderBook';
+import { parseFrame } from './types';
+import type { DecodedMessage, StreamChannel, VenueDecoder } from './types';
+
+/*
+ * Bybit v5 spot frames name their stream in topic:
+ *   {"topic":"tickers.BTCUSDT","ts":1718000000000,"type":"snapshot","data":{"symbol":"BTCUSDT","lastPrice":"67000.1","price24hPcnt":"0.0152","volume24h":"1234.5",...}}
+ *   {"topic":"orderbook.50.BTCUSDT","ts":1718000000000,"type":"delta","data":{"s":"BTCUSDT","b":[["67000","0.5"]],"a":[],"u":1235,"seq":7961638724}}
+ *   {"topic":"publicTrade.BTCUSDT","ts":1718000000000,"type":"snapshot","data":[{"T":1718000000000,"s":"BTCUSDT","S":"Buy","v":"0.01","p":"67000.1","i":"2290000000007764263"}]}
+ * Acknowledgements and pongs carry an op field instead.
+ */
+
+interface BybitFrame {
+  topic?: string;
+  type?: 'snapshot' | 'delta';
+  ts?: number;
+  op?: string;
+  data?: unknown;
+}
+
+interface BybitTicker {
+  symbol: string;
+  lastPrice: string;
+  price24hPcnt: string; // Fraction, not percent
+  volume24h: string;
+}
+
+interface BybitBook {
+  s: string;
+  b: RawLevel[];
+  a: RawLevel[];
+  u: number; // Update id; 1 means the service restarted and this is a fresh snapshot
+}
+
+interface BybitTrade {
+  T: number;
+  s: string;
+  S: 'Buy' | 'Sell'; // Taker side
+  v: string;
+  p: string;
+  i: string;
+}
+
+const BOOK_DEPTH = 50;
+
+const TOPICS: Record<StreamChannel, string> = {
+  ticker: 'tickers',
+  depth: `orderbook.${BOOK_DEPTH}`,
+  trades: 'publicTrade'
+};
+
+const toCanonical = (native: string) => symbolRegistry.toCanonical('bybit', native);
+
+/**
+ * Bybit v5 spot feed. Books arrive as a snapshot then deltas, with a new
+ * snapshot whenever the venue restarts the stream.
+ */
+export const bybitDecoder: VenueDecoder = {
+  url: 'wss://stream.bybit.com/v5/public/spot',
+
+  subscriptionFrames(channel, nativeSymbols, subscribe) {
+    return [JSON.stringify({
+      op: subscribe ? 'subscribe' : 'unsubscribe',
+      args: nativeSymbols.map(symbol => `${TOPICS[channel]}.${symbol}`)
+    })];
+  },
+
+  pingFrame() {
+    return JSON.stringify({ op: 'ping' });
+  },
+
+  decode(frame, receivedAt) {
+    const data = parseFrame(frame) as BybitFrame | null;
+    if (!data || typeof data !== 'object') return [];
+    if (data.op) return [{ type: 'control' }];
+    if (!data.topic || !data.data) return [];
+
+    const stream = data.topic.split('.')[0];
+    const timestamp = data.ts || receivedAt;
+    const messages: DecodedMessage[] = [];
+
+    switch (stream) {
+      case 'tickers': {
+        const ticker = data.data as BybitTicker;
+        messages.push({
+          type: 'ticker',
+          ticker: {
+            symbol: toCanonical(ticker.symbol),
+            price: parseFloat(ticker.lastPrice),
+            volume: parseFloat(ticker.volume24h),
+            change: parseFloat(ticker.price24hPcnt) * 100,
+            timestamp
+          }
+        });
+        break;
+      }
+
+      case 'orderbook': {
+        const book = data.data as BybitBook;
+        messages.push({
+          type: 'depth',
+          update: {
+            symbol: toCanonical(book.s),
+            kind: data.type === 'snapshot' || book.u === 1 ? 'snapshot' : 'delta',
+            bids: book.b,
+            asks: book.a,
+            timestamp,
+            sequence: book.u
+          }
+        });
+        break;
+      }
+
+      case 'publicTrade':
+        messages.push({
+          type: 'trades',
+          prints: (data.data as BybitTrade[]).map(trade => ({
+            exchange: 'bybit',
+            symbol: toCanonical(trade.s),
+            tradeId: trade.i,
+            price: parseFloat(trade.p),
+            size: parseFloat(trade.v),
+            side: trade.S === 'Buy' ? 'buy' : 'sell',
+            timestamp: trade.T
+          }))
+        });
+        break;
+    }
+    return messages;
+  },
+
+  depth: {
+    maxLevels: BOOK_DEPTH
+  }
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { coinbaseDecoder } from './coinbase';
+import { decodeAll, loadFrames } from '../../test/frameFixtures';
+
+const frames = loadFrames('coinbase');
+const receivedAt = 1718000005000;
+
+describe('coinbaseDecoder', () => {
+  it('decodes tickers with the change since the 24h open', () => {
+    expect(decodeAll(coinbaseDecoder, frames.ticker, receivedAt)).toEqual([{
+      type: 'ticker',
+      ticker: {
+        symbol: 'BTC/USD',
+        price: 67000.1,
+        volume: 8000.5,
+        change: expect.closeTo(1.5153, 4),
+        timestamp: Date.parse('2024-06-10T06:13:20.123456Z')
+      }
+    }]);
+  });
+
+  it('decodes matches with the aggressor opposite the maker side', () => {
+    expect(decodeAll(coinbaseDecoder, frames.trades, receivedAt)).toEqual([{
+      type: 'trades',
+      prints: [{
+        exchange: 'coinbase',
+        symbol: 'BTC/USD',
+        tradeId: '650000002',
+        price: 67000.1,
+        size: 0.01,
+        side: 'buy',
+        timestamp: Date.parse('2024-06-10T06:13:21.000000Z')
+      }]
+    }]);
+  });
+
+  it('decodes level2 snapshots, timed on arrival', () => {
+    expect(decodeAll(coinbaseDecoder, frames.depthSnapshot, receivedAt)).toEqual([{
+      type: 'depth',
+      update: {
+        symbol: 'BTC/USD',
+        kind: 'snapshot',
+        bids: [['67000.00', '0.50000000'], ['66999.00', '1.00000000']],
+        asks: [['67000.10', '0.10000000'], ['67001.00', '2.00000000']],
+        timestamp: receivedAt
+      }
+    }]);
+  });
+
+  it('splits level2 changes into bids and asks', () => {
+    expect(decodeAll(coinbaseDecoder, frames.depthDiff, receivedAt)).toEqual([{
+      type: 'depth',
+      update: {
+        symbol: 'BTC/USD',
+        kind: 'delta',
+        bids: [['67000.00', '0.75000000']],
+        asks: [['67000.10', '0.00000000']],
+        timestamp: Date.parse('2024-06-10T06:13:22.000000Z')
+      }
+    }]);
+  });
+
+  it('treats heartbeats and subscription acknowledgements as control frames', () => {
+    expect(decodeAll(coinbaseDecoder, frames.control)).toEqual([{ type: 'control' }, { type: 'control' }]);
+  });
+
+  it('decodes nothing from malformed frames', () => {
+    expect(decodeAll(coinbaseDecoder, frames.malformed)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+// src/services/decoders/coinbase.ts
+import { symbolRegistry } from '../symbolRegistry';
+import type { RawLevel } from '../orderBook';
+import { parseFrame, percentChange } from './types';
+import type { DecodedMessage, StreamChannel, VenueDecoder } from './types';
+
+// {"type":"ticker","product_id":"BTC-USD","price":"67000.10","open_24h":"66000.00","volume_24h":"8000.5","time":"2024-06-10T06:13:20.123456Z",...}
+interface CoinbaseTicker {
+  type: 'ticker';
+  product_id: string;
+  price: string;
+  open_24h: string;
+  volume_24h: string;
+  time?: string;
+}
+
+// {"type":"l2update","product_id":"BTC-USD","changes":[["buy","67000.00","0.5"]],"time":"2024-06-10T06:13:20.123456Z"}
+interface CoinbaseLevel2Message {
+  type: 'snapshot' | 'l2update';
+  product_id: string;
+  bids?: RawLevel[];
+  asks?: RawLevel[];
+  changes?: [string, string, string][]; // [side, price, size]
+  time?: string;
+}
+
+// {"type":"match","trade_id":123,"product_id":"BTC-USD","side":"sell","size":"0.01","price":"67000.10","time":"2024-06-10T06:13:20.123456Z"}
+interface CoinbaseMatch {
+  type: 'match' | 'last_match';
+  trade_id: number;
+  product_id: string;
+  side: 'buy' | 'sell'; // Maker side
+  size: string;
+  price: string;
+  time: string;
+}
+
+const CHANNELS: Record<StreamChannel, string> = {
+  ticker: 'ticker',
+  depth: 'level2_batch',
+  trades: 'matches'
+};
+
+const CONTROL_TYPES = ['heartbeat', 'subscriptions', 'error'];
+
+const toCanonical = (native: string) => symbolRegistry.toCanonical('coinbase', native);
+const parseTime = (time: string | undefined, fallback: number) => time ? Date.parse(time) : fallback;
+
+/**
+ * Coinbase Exchange feed. Books arrive as a snapshot then level2 updates
+ * without sequence numbers, so a crossed book is the only sign of a gap.
+ */
+export const coinbaseDecoder: VenueDecoder = {
+  url: 'wss://ws-feed.exchange.coinbase.com',
+
+  subscriptionFrames(channel, nativeSymbols, subscribe) {
+    return [JSON.stringify({
+      type: subscribe ? 'subscribe' : 'unsubscribe',
+      channels: [CHANNELS[channel]],
+      product_ids: nativeSymbols
+    })];
+  },
+
+  keepaliveFrames(nativeSymbols) {
+    // There is no ping; the heartbeat channel sends a message every second, and one product is enough
+    return nativeSymbols.length > 0
+      ? [JSON.stringify({ type: 'subscribe', channels: ['heartbeat'], product_ids: nativeSymbols.slice(0, 1) })]
+      : [];
+  },
+
+  decode(frame, receivedAt) {
+    const data = parseFrame(frame) as { type?: string } | null;
+    if (!data || typeof data.type !== 'string') return [];
+    if (CONTROL_TYPES.includes(data.type)) return [{ type: 'control' }];
+
+    const messages: DecodedMessage[] = [];
+    switch (data.type) {
+      case 'ticker': {
+        const ticker = data as CoinbaseTicker;
+        const price = parseFloat(ticker.price);
+        messages.push({
+          type: 'ticker',
+          ticker: {
+            symbol: toCanonical(ticker.product_id),
+            price,
+            volume: parseFloat(ticker.volume_24h),
+            change: percentChange(price, parseFloat(ticker.open_24h)),
+            timestamp: parseTime(ticker.time, receivedAt)
+          }
+        });
+        break;
+      }
+
+      case 'snapshot':
+      case 'l2update': {
+        const book = data as CoinbaseLevel2Message;
+        const changes = book.changes || [];
+        messages.push({
+          type: 'depth',
+          update: {
+            symbol: toCanonical(book.product_id),
+            kind: book.type === 'snapshot' ? 'snapshot' : 'delta',
+            bids: book.bids || changes.filter(([side]) => side === 'buy').map(([, price, size]) => [price, size]),
+            asks: book.asks || changes.filter(([side]) => side === 'sell').map(([, price, size]) => [price, size]),
+            timestamp: parseTime(book.time, receivedAt)
+          }
+        });
+        break;
+      }
+
+      case 'match':
+      case 'last_match': {
+        const match = data as CoinbaseMatch;
+        messages.push({
+          type: 'trades',
+          prints: [{
+            exchange: 'coinbase',
+            symbol: toCanonical(match.product_id),
+            tradeId: String(match.trade_id),
+            price: parseFloat(match.price),
+            size: parseFloat(match.size),
+            // Coinbase reports the maker's side; the aggressor took the other side
+            side: match.side === 'buy' ? 'sell' : 'buy',
+            timestamp: Date.parse(match.time)
+          }]
+        });
+        break;
+      }
+    }
+    return messages;
+  },
+
+  depth: {}
+};
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { krakenDecoder } from './kraken';
+import type { DepthUpdate } from './types';
+import { LocalOrderBook, krakenChecksum } from '../orderBook';
+import { WebSocketService } from '../websocketService';
+import type { FeedGap } from '../websocketService';
+import { FakeWebSocket } from '../../test/fakeWebSocket';
+import { decodeAll, loadFrames } from '../../test/frameFixtures';
+
+const frames = loadFrames('kraken');
+const receivedAt = 1718000005000;
+
+const depthUpdates = (key: string): DepthUpdate[] => decodeAll(krakenDecoder, frames[key], receivedAt)
+  .flatMap(message => message.type === 'depth' ? [message.update] : []);
+
+describe('krakenDecoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWebSocket.instances = [];
+  });
+
+  it('decodes tickers, timed on arrival and with the change over 24 hours', () => {
+    const [message] = decodeAll(krakenDecoder, frames.ticker, receivedAt);
+    expect(message).toEqual({
+      type: 'ticker',
+      ticker: { symbol: 'BTC/USD', price: 67000.1, volume: 2400.1, change: expect.closeTo(1.5153, 4), timestamp: receivedAt }
+    });
+  });
+
+  it('decodes trades', () => {
+    expect(decodeAll(krakenDecoder, frames.trades, receivedAt)).toEqual([{
+      type: 'trades',
+      prints: [
+        { exchange: 'kraken', symbol: 'BTC/USD', tradeId: '1718000000.123456-0', price: 67000.1, size: 0.01, side: 'sell', timestamp: 1718000000123 },
+        { exchange: 'kraken', symbol: 'BTC/USD', tradeId: '1718000000.223456-1', price: 67000.2, size: 0.25, side: 'buy', timestamp: 1718000000223 }
+      ]
+    }]);
+  });
+
+  it('decodes book snapshots', () => {
+    const [snapshot] = depthUpdates('depthSnapshot');
+    expect(snapshot).toMatchObject({ symbol: 'BTC/USD', kind: 'snapshot', timestamp: 1718000000223 });
+    expect(snapshot.asks).toHaveLength(3);
+    expect(snapshot.bids).toHaveLength(3);
+  });
+
+  it('merges split ask and bid payloads into one diff with the checksum', () => {
+    const [diff] = depthUpdates('depthDiff');
+    expect(diff).toMatchObject({
+      symbol: 'BTC/USD',
+      kind: 'delta',
+      asks: [['67001.00000', '0.00000000', '1718000001.000000'], ['67004.00000', '0.80000000', '1718000001.000000', 'r']],
+      bids: [['67000.00000', '0.90000000', '1718000001.100000']],
+      timestamp: 1718000001100,
+      checksum: 4125173493
+    });
+  });
+
+  it('matches the venue checksum once the diff is applied', () => {
+    const [snapshot] = depthUpdates('depthSnapshot');
+    const [diff] = depthUpdates('depthDiff');
+    const book = new LocalOrderBook('kraken', 'BTC/USD');
+
+    book.reset(snapshot.bids, snapshot.asks, snapshot.timestamp);
+    diff.asks.forEach(([price, size]) => book.update('ask', price, size));
+    diff.bids.forEach(([price, size]) => book.update('bid', price, size));
+
+    expect(krakenChecksum(book)).toBe(diff.checksum);
+  });
+
+  it('treats heartbeats, pongs and status events as control frames', () => {
+    expect(decodeAll(krakenDecoder, frames.control)).toEqual(frames.control.map(() => ({ type: 'control' })));
+  });
+
+  it('decodes nothing from malformed frames', () => {
+    expect(decodeAll(krakenDecoder, frames.malformed)).toEqual([]);
+  });
+
+  it('resubscribes for a fresh snapshot when a diff fails its checksum', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+
+    const service = new WebSocketService();
+    const gaps: FeedGap[] = [];
+    service.subscribeToFeedGaps(gap => gaps.push(gap));
+    service.subscribeToDepth('kraken', ['BTC/USD']);
+    service.connect('kraken');
+    const ws = FakeWebSocket.latest();
+    ws.open();
+
+    [...frames.depthSnapshot, ...frames.depthDiff].forEach(frame => ws.onmessage?.({ data: frame }));
+    expect(gaps).toEqual([]);
+    expect(service.getOrderBook('kraken', 'BTC/USD')?.asks[0]).toEqual({ price: 67002, size: 1.25 });
+
+    ws.sent = [];
+    ws.onmessage?.({ data: frames.depthBadChecksum[0] });
+
+    expect(gaps).toEqual([expect.objectContaining({ exchange: 'kraken', symbol: 'BTC/USD', reason: 'checksum' })]);
+    expect(ws.sent.map(frame => JSON.parse(frame).event)).toEqual(['unsubscribe', 'subscribe']);
+    service.disconnect('kraken');
+  });
+});
@@ -0,0 +1,146 @@
+// src/services/decoders/kraken.ts
+import { symbolRegistry } from '../symbolRegistry';
+import { krakenChecksum } from '../orderBook';
+import type { RawLevel } from '../orderBook';
+import { parseFrame, percentChange } from './types';
+import type { DecodedMessage, StreamChannel, VenueDecoder } from './types';
+
+/*
+ * Kraken v1 data frames are arrays ending in channel name and pair:
+ *   [340, {"c":["67000.1","0.01"],"v":["120.5","2400.1"],"o":["66500.0","66000.0"],...}, "ticker", "XBT/USD"]
+ *   [336, {"as":[["67001.0","0.5","1718000000.123456"]],"bs":[...]}, "book-25", "XBT/USD"]
+ *   [336, {"a":[["67001.0","0.0","1718000001.000000"]]}, {"b":[...],"c":"974942666"}, "book-25", "XBT/USD"]
+ *   [337, [["67000.1","0.01","1718000000.123456","s","m",""]], "trade", "XBT/USD"]
+ * Everything else is an object with an event field.
+ */
+
+interface KrakenTicker {
+  c: [string, string]; // Last trade [price, lot volume]
+  v: [string, string]; // Volume [today, last 24 hours]
+  o: [string, string]; // Open [today, last 24 hours]
+}
+
+interface KrakenBookPayload {
+  as?: RawLevel[]; // Snapshot
+  bs?: RawLevel[];
+  a?: RawLevel[]; // Updates
+  b?: RawLevel[];
+  c?: string; // Checksum after the update
+}
+
+// [price, volume, time in seconds, 'b' | 's', 'm' | 'l', misc]
+type KrakenTrade = [string, string, string, string, string, string];
+
+const BOOK_DEPTH = 25;
+
+const SUBSCRIPTIONS: Record<StreamChannel, object> = {
+  ticker: { name: 'ticker' },
+  depth: { name: 'book', depth: BOOK_DEPTH },
+  trades: { name: 'trade' }
+};
+
+/**
+ * Latest level time, in whole ms like trades. Levels are [price, volume, time in seconds].
+ */
+function levelTime(levels: RawLevel[], fallback: number): number {
+  const times = levels.map(level => Math.round(parseFloat(String(level[2])) * 1000)).filter(time => !isNaN(time));
+  return times.length > 0 ? Math.max(...times) : fallback;
+}
+
+/**
+ * Kraken v1 public feed. Books arrive as a snapshot followed by updates,
+ * each carrying a CRC-32 checksum of the top ten levels.
+ */
+export const krakenDecoder: VenueDecoder = {
+  url: 'wss://ws.kraken.com/',
+
+  subscriptionFrames(channel, nativeSymbols, subscribe) {
+    return [JSON.stringify({
+      event: subscribe ? 'subscribe' : 'unsubscribe',
+      pair: nativeSymbols,
+      subscription: SUBSCRIPTIONS[channel]
+    })];
+  },
+
+  pingFrame() {
+    return JSON.stringify({ event: 'ping' });
+  },
+
+  decode(frame, receivedAt) {
+    const data = parseFrame(frame);
+    if (!Array.isArray(data)) {
+      // heartbeat, pong, systemStatus, subscriptionStatus
+      return data && typeof data === 'object' && 'event' in data ? [{ type: 'control' }] : [];
+    }
+
+    const channel = data[data.length - 2];
+    const pair = data[data.length - 1];
+    if (typeof channel !== 'string' || typeof pair !== 'string') return [];
+    const symbol = symbolRegistry.toCanonical('kraken', pair);
+    const messages: DecodedMessage[] = [];
+
+    if (channel === 'ticker') {
+      const ticker = data[1] as KrakenTicker;
+      const price = parseFloat(ticker.c[0]);
+      messages.push({
+        type: 'ticker',
+        ticker: {
+          symbol,
+          price,
+          volume: parseFloat(ticker.v[1]),
+          change: percentChange(price, parseFloat(ticker.o[1])),
+          // v1 tickers carry no timestamp; arrival is the closest there is
+          timestamp: receivedAt
+        }
+      });
+    } else if (channel.startsWith('book')) {
+      const payloads = data.slice(1, -2) as KrakenBookPayload[];
+      const snapshot = payloads.find(payload => payload.as || payload.bs);
+
+      if (snapshot) {
+        const levels = [...(snapshot.bs || []), ...(snapshot.as || [])];
+        messages.push({
+          type: 'depth',
+          update: { symbol, kind: 'snapshot', bids: snapshot.bs || [], asks: snapshot.as || [], timestamp: levelTime(levels, receivedAt) }
+        });
+      } else {
+        // Asks and bids may arrive as separate payloads; the checksum is on the last
+        const asks = payloads.flatMap(payload => payload.a || []);
+        const bids = payloads.flatMap(payload => payload.b || []);
+        const checksum = payloads.map(payload => payload.c).filter(c => c !== undefined).pop();
+        messages.push({
+          type: 'depth',
+          update: {
+            symbol,
+            kind: 'delta',
+            bids,
+            asks,
+            timestamp: levelTime([...asks, ...bids], receivedAt),
+            checksum: checksum !== undefined ? Number(checksum) : undefined
+          }
+        });
+      }
+    } else if (channel === 'trade') {
+      const trades = data[1] as KrakenTrade[];
+      messages.push({
+        type: 'trades',
+        prints: trades.map(([price, volume, time, side], index) => ({
+          exchange: 'kraken',
+          symbol,
+          // v1 trades carry no id; time plus position within the message is unique
+          tradeId: `${time}-${index}`,
+          price: parseFloat(price),
+          size: parseFloat(volume),
+          side: side === 's' ? 'sell' : 'buy',
+          timestamp: Math.round(parseFloat(time) * 1000)
+        }))
+      });
+    }
+    return messages;
+  },
+
+  depth: {
+    maxLevels: BOOK_DEPTH,
+    checksum: krakenChecksum
+  }
+};
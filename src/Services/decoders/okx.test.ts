@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { okxDecoder } from './okx';
+import type { DepthUpdate } from './types';
+import { LocalOrderBook } from '../orderBook';
+import { decodeAll, loadFrames } from '../../test/frameFixtures';
+
+const frames = loadFrames('okx');
+
+const depthUpdates = (key: string): DepthUpdate[] => decodeAll(okxDecoder, frames[key])
+  .flatMap(message => message.type === 'depth' ? [message.update] : []);
+
+describe('okxDecoder', () => {
+  it('decodes tickers with the change since the 24h open', () => {
+    expect(decodeAll(okxDecoder, frames.ticker)).toEqual([{
+      type: 'ticker',
+      ticker: { symbol: 'BTC/USD', price: 67000.1, volume: 1234.5, change: expect.closeTo(1.5153, 4), timestamp: 1718000000000 }
+    }]);
+  });
+
+  it('decodes trades with the taker side', () => {
+    expect(decodeAll(okxDecoder, frames.trades)).toEqual([{
+      type: 'trades',
+      prints: [{ exchange: 'okx', symbol: 'BTC/USD', tradeId: '130639474', price: 67000.1, size: 0.01, side: 'sell', timestamp: 1718000000100 }]
+    }]);
+  });
+
+  it('decodes book snapshots without a previous sequence', () => {
+    const [snapshot] = depthUpdates('depthSnapshot');
+    expect(snapshot).toMatchObject({ symbol: 'BTC/USD', kind: 'snapshot', firstSequence: undefined, sequence: 122, timestamp: 1718000000000 });
+  });
+
+  it('chains book updates to the sequence before them', () => {
+    const [diff] = depthUpdates('depthDiff');
+    expect(diff).toMatchObject({
+      symbol: 'BTC/USD',
+      kind: 'delta',
+      asks: [['67000.2', '0', '0', '0']],
+      bids: [['67000.1', '1.5', '0', '4']],
+      firstSequence: 123,
+      sequence: 123
+    });
+  });
+
+  it('matches the venue checksum after the snapshot and after the update', () => {
+    const [snapshot] = depthUpdates('depthSnapshot');
+    const [diff] = depthUpdates('depthDiff');
+    const book = new LocalOrderBook('okx', 'BTC/USD');
+
+    book.reset(snapshot.bids, snapshot.asks, snapshot.timestamp);
+    expect(okxDecoder.depth.checksum!(book)).toBe(snapshot.checksum);
+
+    diff.asks.forEach(([price, size]) => book.update('ask', price, size));
+    diff.bids.forEach(([price, size]) => book.update('bid', price, size));
+    expect(okxDecoder.depth.checksum!(book)).toBe(diff.checksum);
+  });
+
+  it('treats pongs and subscription events as control frames', () => {
+    expect(decodeAll(okxDecoder, frames.control)).toEqual([{ type: 'control' }, { type: 'control' }]);
+  });
+
+  it('decodes nothing from malformed frames', () => {
+    expect(decodeAll(okxDecoder, frames.malformed)).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+// src/services/decoders/okx.ts
+import { symbolRegistry } from '../symbolRegistry';
+import { crc32 } from '../orderBook';
+import type { LocalOrderBook, RawLevel } from '../orderBook';
+import { parseFrame, percentChange } from './types';
+import type { DecodedMessage, StreamChannel, VenueDecoder } from './types';
+
+/*
+ * OKX v5 public frames name their channel and instrument in arg:
+ *   {"arg":{"channel":"tickers","instId":"BTC-USDT"},"data":[{"last":"67000.1","open24h":"66000","vol24h":"1234.5","ts":"1718000000000",...}]}
+ *   {"arg":{"channel":"books","instId":"BTC-USDT"},"action":"update","data":[{"asks":[["67001","0.5","0","2"]],"bids":[],"ts":"1718000000000","checksum":-855196043,"prevSeqId":122,"seqId":123}]}
+ *   {"arg":{"channel":"trades","instId":"BTC-USDT"},"data":[{"tradeId":"130639474","px":"67000.1","sz":"0.01","side":"buy","ts":"1718000000000"}]}
+ * Acknowledgements and errors carry an event field; pings are answered with a bare "pong".
+ */
+
+interface OkxFrame {
+  arg?: { channel: string; instId: string };
+  action?: 'snapshot' | 'update';
+  event?: string;
+  data?: unknown[];
+}
+
+interface OkxTicker {
+  last: string;
+  open24h: string;
+  vol24h: string;
+  ts: string;
+}
+
+interface OkxBook {
+  asks: RawLevel[]; // [price, size, deprecated, order count]
+  bids: RawLevel[];
+  ts: string;
+  checksum?: number;
+  prevSeqId?: number; // -1 on snapshots
+  seqId?: number;
+}
+
+interface OkxTrade {
+  tradeId: string;
+  px: string;
+  sz: string;
+  side: 'buy' | 'sell'; // Taker side
+  ts: string;
+}
+
+const CHANNELS: Record<StreamChannel, string> = {
+  ticker: 'tickers',
+  depth: 'books',
+  trades: 'trades'
+};
+
+const BOOK_DEPTH = 400;
+const CHECKSUM_LEVELS = 25;
+
+/**
+ * OKX book checksum: signed CRC-32 over the top 25 levels, bid then ask at
+ * each depth, as price:size pairs joined with colons
+ */
+function okxChecksum(book: LocalOrderBook): number {
+  const bids = book.entries('bid', CHECKSUM_LEVELS);
+  const asks = book.entries('ask', CHECKSUM_LEVELS);
+  const parts: string[] = [];
+  for (let i = 0; i < CHECKSUM_LEVELS; i++) {
+    if (bids[i]) parts.push(`${bids[i].priceText}:${bids[i].sizeText}`);
+    if (asks[i]) parts.push(`${asks[i].priceText}:${asks[i].sizeText}`);
+  }
+  return crc32(parts.join(':')) | 0;
+}
+
+/**
+ * OKX v5 public feed. Book updates chain by sequence id, each naming the one
+ * before it, and carry a checksum of the resulting book.
+ */
+export const okxDecoder: VenueDecoder = {
+  url: 'wss://ws.okx.com:8443/ws/v5/public',
+
+  subscriptionFrames(channel, nativeSymbols, subscribe) {
+    return [JSON.stringify({
+      op: subscribe ? 'subscribe' : 'unsubscribe',
+      args: nativeSymbols.map(instId => ({ channel: CHANNELS[channel], instId }))
+    })];
+  },
+
+  pingFrame() {
+    return 'ping';
+  },
+
+  decode(frame, receivedAt) {
+    if (frame === 'pong') return [{ type: 'control' }];
+
+    const data = parseFrame(frame) as OkxFrame | null;
+    if (!data || typeof data !== 'object') return [];
+    if (data.event) return [{ type: 'control' }];
+    if (!data.arg || !Array.isArray(data.data)) return [];
+
+    const symbol = symbolRegistry.toCanonical('okx', data.arg.instId);
+    const messages: DecodedMessage[] = [];
+
+    switch (data.arg.channel) {
+      case 'tickers':
+        (data.data as OkxTicker[]).forEach(ticker => {
+          const price = parseFloat(ticker.last);
+          messages.push({
+            type: 'ticker',
+            ticker: {
+              symbol,
+              price,
+              volume: parseFloat(ticker.vol24h),
+              change: percentChange(price, parseFloat(ticker.open24h)),
+              timestamp: Number(ticker.ts) || receivedAt
+            }
+          });
+        });
+        break;
+
+      case 'books':
+        (data.data as OkxBook[]).forEach(book => {
+          const snapshot = data.action === 'snapshot';
+          messages.push({
+            type: 'depth',
+            update: {
+              symbol,
+              kind: snapshot ? 'snapshot' : 'delta',
+              bids: book.bids,
+              asks: book.asks,
+              timestamp: Number(book.ts) || receivedAt,
+              firstSequence: !snapshot && book.prevSeqId !== undefined ? book.prevSeqId + 1 : undefined,
+              sequence: book.seqId,
+              checksum: book.checksum
+            }
+          });
+        });
+        break;
+
+      case 'trades':
+        messages.push({
+          type: 'trades',
+          prints: (data.data as OkxTrade[]).map(trade => ({
+            exchange: 'okx',
+            symbol,
+            tradeId: trade.tradeId,
+            price: parseFloat(trade.px),
+            size: parseFloat(trade.sz),
+            side: trade.side,
+            timestamp: Number(trade.ts)
+          }))
+        });
+        break;
+    }
+    return messages;
+  },
+
+  depth: {
+    maxLevels: BOOK_DEPTH,
+    checksum: okxChecksum
+  }
+};
@@ -0,0 +1,86 @@
+// src/services/decoders/types.ts
+import type { LocalOrderBook, RawLevel } from '../orderBook';
+
+interface MarketData {
+  symbol: string;
+  price: number;
+  volume: number; // Rolling 24h base volume
+  change: number; // 24h change in percent
+  timestamp: number;
+}
+
+interface TradePrint {
+  exchange: string;
+  symbol: string;
+  tradeId: string;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell'; // Aggressor (taker) side
+  timestamp: number;
+}
+
+type StreamChannel = 'ticker' | 'depth' | 'trades';
+
+/**
+ * A book snapshot or diff. Diffs with sequence numbers are checked for gaps:
+ * a diff must cover the update after the last one applied.
+ */
+interface DepthUpdate {
+  symbol: string; // Canonical
+  kind: 'snapshot' | 'delta';
+  bids: RawLevel[];
+  asks: RawLevel[];
+  timestamp: number;
+  firstSequence?: number; // First update the diff contains
+  sequence?: number; // Last update the diff contains
+  checksum?: number; // Venue checksum of the book once the update is applied
+}
+
+type DecodedMessage =
+  | { type: 'ticker'; ticker: MarketData }
+  | { type: 'depth'; update: DepthUpdate }
+  | { type: 'trades'; prints: TradePrint[] }
+  | { type: 'control' }; // Pongs, heartbeats and subscription acknowledgements
+
+/**
+ * Everything venue specific about a public market data feed. Frames are
+ * exchanged as text; symbols in frames are the venue's native spelling, and
+ * decoded messages carry canonical symbols.
+ */
+interface VenueDecoder {
+  url: string;
+  subscriptionFrames(channel: StreamChannel, nativeSymbols: string[], subscribe: boolean): string[];
+  /** Sent every heartbeat interval, for venues that answer pings */
+  pingFrame?(): string;
+  /** Sent after every open, for venues that need a channel to keep quiet feeds alive */
+  keepaliveFrames?(nativeSymbols: string[]): string[];
+  /** Messages in the frame, empty when nothing in it is understood */
+  decode(frame: string, receivedAt: number): DecodedMessage[];
+  depth: {
+    /** Venues that stream only diffs serve the initial book over REST */
+    fetchSnapshot?(nativeSymbol: string): Promise<DepthUpdate>;
+    maxLevels?: number; // Levels the venue maintains; deeper ones are dropped before checksumming
+    checksum?(book: LocalOrderBook): number;
+  };
+}
+
+/**
+ * Parsed JSON, or null for frames that are not JSON (e.g. a bare "pong")
+ */
+function parseFrame(frame: string): unknown {
+  try {
+    return JSON.parse(frame);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Percent change from open to price, 0 without an open
+ */
+function percentChange(price: number, open: number): number {
+  return open > 0 ? ((price - open) / open) * 100 : 0;
+}
+
+export { parseFrame, percentChange };
+export type { MarketData, TradePrint, StreamChannel, DepthUpdate, DecodedMessage, VenueDecoder };
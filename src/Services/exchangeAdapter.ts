@@ -0,0 +1,75 @@
+// src/services/exchangeAdapter.ts
+
+import type {
+  ExchangeAccount,
+  Market,
+  Order,
+  OrderType,
+  TimeInForce,
+  Ticker,
+  OHLCV,
+  ExchangeTrade
+} from './exchangeService';
+import type { RateLimitConfig } from './rateLimiter';
+
+interface RawBalance {
+  free: Record<string, number>;
+  used: Record<string, number>;
+  total: Record<string, number>;
+}
+
+interface ExchangeCapabilities {
+  fetchOHLCV: boolean;
+  fetchOrders: boolean;
+  fetchOpenOrders: boolean;
+  fetchMyTrades: boolean;
+  cancelOrder: boolean;
+  orderTypes: OrderType[];
+  timeInForce: TimeInForce[];
+  postOnly: boolean;
+  reduceOnly: boolean;
+  clientOrderId: boolean;
+  sandbox: boolean;
+}
+
+// Extra order attributes, passed as the trailing ccxt-style params argument
+interface OrderParams {
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  clientOrderId?: string;
+}
+
+/**
+ * Contract every venue integration implements. Method names and argument
+ * order follow ccxt so a ccxt exchange instance can be wrapped with little glue.
+ */
+interface ExchangeAdapter {
+  readonly id: string;
+  readonly capabilities: ExchangeCapabilities;
+  readonly symbolVenue?: string; // Symbol registry venue for native symbols; omitted when the adapter uses canonical symbols
+  readonly rateLimit?: RateLimitConfig; // Venue request budget, a conservative default applies when omitted
+  readonly maxOHLCVLimit?: number; // Most candles one fetchOHLCV call returns
+
+  fetchMarkets(): Promise<Market[]>;
+  fetchBalance(): Promise<RawBalance>;
+  fetchTicker(symbol: string): Promise<Ticker>;
+  fetchOHLCV(symbol: string, timeframe: string, limit: number, since?: number): Promise<OHLCV[]>; // Oldest first; from since when given, else the latest
+  createOrder(symbol: string, type: string, side: string, amount: number, price?: number, params?: OrderParams): Promise<Order>;
+  fetchOrder(id: string, symbol?: string): Promise<Order>;
+  fetchOrders(symbol?: string): Promise<Order[]>;
+  fetchOpenOrders(symbol?: string): Promise<Order[]>;
+  cancelOrder(id: string, symbol?: string): Promise<{ id: string; status: Order['status'] }>;
+  fetchMyTrades(symbol?: string, since?: number): Promise<ExchangeTrade[]>;
+}
+
+type ExchangeAdapterFactory = (account: ExchangeAccount) => ExchangeAdapter;
+
+export type {
+  RawBalance,
+  ExchangeCapabilities,
+  OrderParams,
+  ExchangeAdapter,
+  ExchangeAdapterFactory
+};
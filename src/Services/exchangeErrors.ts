@@ -0,0 +1,89 @@
+// src/services/exchangeErrors.ts
+
+/**
+ * Base class for failures coming back from an exchange. retryable marks
+ * errors where repeating the same request may succeed.
+ */
+class ExchangeError extends Error {
+  readonly retryable: boolean = false;
+
+  constructor(message: string, readonly exchange?: string, readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+class InsufficientFunds extends ExchangeError {}
+
+class InvalidOrder extends ExchangeError {}
+
+class AuthenticationError extends ExchangeError {}
+
+class RateLimited extends ExchangeError {
+  readonly retryable = true;
+
+  constructor(message: string, exchange?: string, cause?: unknown, readonly retryAfterMs?: number) {
+    super(message, exchange, cause);
+  }
+}
+
+class NetworkError extends ExchangeError {
+  readonly retryable = true;
+}
+
+class ExchangeUnavailable extends ExchangeError {
+  readonly retryable = true;
+}
+
+interface ErrorLike {
+  message?: string;
+  name?: string;
+  code?: string;
+  status?: number;
+  retryAfter?: number; // Seconds, as sent in the Retry-After header
+}
+
+/**
+ * Map whatever an adapter threw onto the error taxonomy. Adapters should throw
+ * typed errors themselves; this is the fallback for raw HTTP and socket errors.
+ */
+function classifyError(error: unknown, exchange?: string): ExchangeError {
+  if (error instanceof ExchangeError) return error;
+
+  const details: ErrorLike = typeof error === 'object' && error !== null ? error as ErrorLike : { message: String(error) };
+  const message = details.message || 'Unknown exchange error';
+  const text = `${details.name || ''} ${details.code || ''} ${message}`.toLowerCase();
+  const status = details.status;
+
+  if (status === 429 || status === 418 || /rate limit|too many requests/.test(text)) {
+    return new RateLimited(message, exchange, error, details.retryAfter !== undefined ? details.retryAfter * 1000 : undefined);
+  }
+  if (status === 401 || status === 403 || /invalid (api )?key|signature|unauthori[sz]ed|permission denied/.test(text)) {
+    return new AuthenticationError(message, exchange, error);
+  }
+  if ((status !== undefined && status >= 500) || /maintenance|unavailable|bad gateway|overloaded/.test(text)) {
+    return new ExchangeUnavailable(message, exchange, error);
+  }
+  if (/insufficient (funds|balance)|not enough balance/.test(text)) {
+    return new InsufficientFunds(message, exchange, error);
+  }
+  if (/timeout|timed out|econnreset|econnrefused|enotfound|etimedout|network|fetch failed|socket hang up/.test(text)) {
+    return new NetworkError(message, exchange, error);
+  }
+  if ((status !== undefined && status >= 400) || /invalid|minimum|precision|not supported|duplicate|unknown order|not found/.test(text)) {
+    return new InvalidOrder(message, exchange, error);
+  }
+
+  return new ExchangeError(message, exchange, error);
+}
+
+export {
+  ExchangeError,
+  InsufficientFunds,
+  InvalidOrder,
+  AuthenticationError,
+  RateLimited,
+  NetworkError,
+  ExchangeUnavailable,
+  classifyError
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExchangeService } from './exchangeService';
+import type { ExchangeCredentials, ExchangeTrade } from './exchangeService';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+const history: ExchangeTrade[] = [1000, 2000, 3000, 4000, 5000].map((timestamp, index) => ({
+  id: `trade-${index}`,
+  symbol: 'BTC/USD',
+  side: 'buy',
+  amount: 1,
+  price: 100,
+  cost: 100,
+  timestamp
+}));
+
+// Pages of two, like a venue that answers an open-ended request with its latest trades
+class PagedTradesAdapter extends SimulatedExchangeAdapter {
+  async fetchMyTrades(_symbol?: string, since?: number): Promise<ExchangeTrade[]> {
+    return since === undefined
+      ? history.slice(-2)
+      : history.filter(trade => trade.timestamp >= since).slice(0, 2);
+  }
+}
+
+describe('ExchangeService.getMyTrades', () => {
+  it('pages through the whole history when no start time is given', async () => {
+    const service = new ExchangeService();
+    service.registerAdapter('paged', account => new PagedTradesAdapter(account.id, account.credentials));
+    await service.addAccount({ id: 'paged', exchange: 'paged', credentials, sandbox: true, adapter: 'paged' });
+
+    const trades = await service.getMyTrades('paged');
+    expect(trades.map(trade => trade.timestamp)).toEqual([1000, 2000, 3000, 4000, 5000]);
+  });
+});
+
+describe('ExchangeService.fetchOHLCVRange', () => {
+  it('serves a range it already downloaded from the candle store', async () => {
+    let adapter: SimulatedExchangeAdapter;
+    const service = new ExchangeService();
+    service.registerAdapter('simulated-test', account => {
+      adapter = new SimulatedExchangeAdapter(account.id, account.credentials, { basePrices: { 'BTC/USD': 100 } });
+      return adapter;
+    });
+    await service.addAccount({ id: 'sim', exchange: 'sim', credentials, sandbox: true, adapter: 'simulated-test' });
+    const fetchOHLCV = vi.spyOn(adapter!, 'fetchOHLCV');
+
+    // Before the simulation's default start, where the adapter synthesises history
+    const from = Date.UTC(2023, 11, 1);
+    const to = from + 24 * 3600000;
+    const first = await service.fetchOHLCVRange('sim', 'BTC/USD', '1h', from, to);
+    const calls = fetchOHLCV.mock.calls.length;
+    const second = await service.fetchOHLCVRange('sim', 'BTC/USD', '1h', from, to);
+
+    expect(first).toHaveLength(24);
+    expect(second).toEqual(first);
+    expect(calls).toBeGreaterThan(0);
+    expect(fetchOHLCV).toHaveBeenCalledTimes(calls);
+  });
+});
@@ -1,12 +1,43 @@
 // src/services/exchangeService.ts
 
+import type { ExchangeAdapter, ExchangeAdapterFactory, ExchangeCapabilities, RawBalance } from './exchangeAdapter';
+import { MockExchangeAdapter } from './mockExchangeAdapter';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+import type { SimulatedExchangeOptions } from './simulatedExchangeAdapter';
+import { symbolRegistry } from './symbolRegistry';
+import { RateLimiter } from './rateLimiter';
+import { AuthenticationError, ExchangeError, InvalidOrder, RateLimited, classifyError } from './exchangeErrors';
+import type { KeyPermission, RequestSigner } from './credentialVault';
+import type { RateLimitConfig, RateLimitStatus, RequestPriority } from './rateLimiter';
+import { createCandleStore, subtractRanges } from './candleStore';
+import type { CandleStore, TimeRange } from './candleStore';
+import { roundToStep } from '../utils/precision';
+import { addTimeframes, ceilToTimeframe, floorToTimeframe } from '../utils/timeframes';
+import { Clock, systemClock } from '../utils/clock';
+import { backoffDelay, retryWithBackoff, sleep } from '../utils/retry';
+
+// Secrets stay in the credential vault; adapters sign requests through the signer
 interface ExchangeCredentials {
-  apiKey: string;
-  secret: string;
-  passphrase?: string; // For some exchanges like Coinbase Pro
+  signer: RequestSigner;
   sandbox?: boolean;
 }
 
+interface ExchangeAccountConfig {
+  id: string; // Unique per connection, e.g. 'binance-main' or 'binance-sub1'
+  exchange: string; // Venue name, shared by every account on that venue
+  label?: string;
+  credentials: ExchangeCredentials;
+  sandbox: boolean;
+  adapter?: string; // Registered adapter name, defaults to 'mock'
+  adapterOptions?: Record<string, unknown>; // Passed to the adapter, e.g. a seed for 'simulated'
+}
+
+interface ExchangeAccount extends ExchangeAccountConfig {
+  adapter: string;
+}
+
+type ExchangeAccountInfo = Omit<ExchangeAccount, 'credentials'>;
+
 interface Balance {
   currency: string;
   available: number;
@@ -14,26 +45,38 @@ interface Balance {
   total: number;
 }
 
+type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'DAY';
+
 interface OrderRequest {
   symbol: string;
-  type: 'market' | 'limit' | 'stop';
+  type: OrderType;
   side: 'buy' | 'sell';
   amount: number;
   price?: number;
   stopPrice?: number;
-  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  timeInForce?: TimeInForce;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  clientOrderId?: string;
 }
 
 interface Order {
   id: string;
+  clientOrderId?: string;
   symbol: string;
   type: string;
   side: string;
   amount: number;
   price: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
   status: 'pending' | 'open' | 'closed' | 'canceled' | 'expired';
   filled: number;
   remaining: number;
+  average?: number;
   timestamp: number;
   fee?: {
     currency: string;
@@ -41,6 +84,21 @@ interface Order {
   };
 }
 
+interface ExchangeTrade {
+  id: string;
+  orderId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number;
+  cost: number;
+  fee?: {
+    currency: string;
+    cost: number;
+  };
+  timestamp: number;
+}
+
 interface Ticker {
   symbol: string;
   bid: number;
@@ -54,6 +112,27 @@ interface Ticker {
   timestamp: number;
 }
 
+interface Market {
+  symbol: string;
+  base: string;
+  quote: string;
+  active: boolean;
+  tickSize: number; // Price increment
+  lotSize: number; // Amount increment
+  minAmount: number;
+  maxAmount?: number;
+  minNotional: number; // Minimum amount * price, in quote currency
+  pricePrecision: number; // Decimal places
+  amountPrecision: number;
+}
+
+interface OrderNormalization {
+  order: OrderRequest;
+  market: Market;
+  errors: string[];
+  adjusted: boolean;
+}
+
 interface OHLCV {
   timestamp: number;
   open: number;
@@ -63,190 +142,587 @@ interface OHLCV {
   volume: number;
 }
 
+type AdapterEndpoint = Exclude<keyof ExchangeAdapter, 'id' | 'capabilities' | 'symbolVenue' | 'rateLimit' | 'maxOHLCVLimit'>;
+
+const DEFAULT_RATE_LIMIT: RateLimitConfig = { capacity: 20, refillPerSecond: 10 };
+
+// Request weight and scheduling lane per endpoint; cancels jump ahead of data polling
+const ENDPOINT_COSTS: Record<AdapterEndpoint, { cost: number; priority: RequestPriority }> = {
+  fetchMarkets: { cost: 10, priority: 'low' },
+  fetchBalance: { cost: 5, priority: 'normal' },
+  fetchTicker: { cost: 1, priority: 'low' },
+  fetchOHLCV: { cost: 2, priority: 'low' },
+  createOrder: { cost: 1, priority: 'normal' },
+  fetchOrder: { cost: 2, priority: 'normal' },
+  fetchOrders: { cost: 5, priority: 'normal' },
+  fetchOpenOrders: { cost: 3, priority: 'normal' },
+  cancelOrder: { cost: 1, priority: 'high' },
+  fetchMyTrades: { cost: 5, priority: 'normal' }
+};
+
+const RETRY_POLICY = { maxAttempts: 4, baseDelayMs: 250, maxDelayMs: 5000 };
+
+const DEFAULT_OHLCV_LIMIT = 500;
+
 class ExchangeService {
-  private exchanges: Map<string, any> = new Map();
-  private credentials: Map<string, ExchangeCredentials> = new Map();
+  private accounts: Map<string, ExchangeAccount> = new Map();
+  private adapters: Map<string, ExchangeAdapter> = new Map();
+  private adapterFactories: Map<string, ExchangeAdapterFactory> = new Map();
+  private markets: Map<string, Map<string, Market>> = new Map();
+  private rateLimiters: Map<string, RateLimiter> = new Map(); // Keyed by venue, accounts on one venue share its limits
+
+  constructor(private clock: Clock = systemClock, private candleStore: CandleStore = createCandleStore()) {
+    this.registerAdapter('mock', account => new MockExchangeAdapter(account.id, account.credentials));
+    this.registerAdapter('simulated', account => new SimulatedExchangeAdapter(account.id, account.credentials, account.adapterOptions as SimulatedExchangeOptions));
+  }
+
+  /**
+   * Register an adapter implementation that accounts can be connected with
+   */
+  registerAdapter(name: string, factory: ExchangeAdapterFactory) {
+    this.adapterFactories.set(name, factory);
+  }
+
+  getRegisteredAdapters(): string[] {
+    return Array.from(this.adapterFactories.keys());
+  }
 
-  async initializeExchange(name: string, credentials: ExchangeCredentials): Promise<boolean> {
+  /**
+   * Connect a single account named after its exchange. Shorthand for addAccount
+   * when only one account per venue is needed.
+   */
+  async initializeExchange(name: string, credentials: ExchangeCredentials, adapter: string = 'mock'): Promise<boolean> {
+    return this.addAccount({
+      id: name,
+      exchange: name,
+      credentials,
+      sandbox: credentials.sandbox ?? false,
+      adapter
+    });
+  }
+
+  /**
+   * Connect an account. Several accounts may share an exchange, e.g. a main
+   * account and a sub-account, each with its own credentials.
+   */
+  async addAccount(account: ExchangeAccountConfig): Promise<boolean> {
     try {
-      // In a real implementation, you would use ccxt here
-      // For now, we'll create a mock exchange interface
-      const exchange = this.createMockExchange(name, credentials);
-      this.exchanges.set(name, exchange);
-      this.credentials.set(name, credentials);
+      const adapterName = account.adapter || 'mock';
+      const factory = this.adapterFactories.get(adapterName);
+      if (!factory) {
+        throw new Error(`Adapter ${adapterName} not registered`);
+      }
+
+      const connected: ExchangeAccount = {
+        ...account,
+        credentials: { ...account.credentials, sandbox: account.sandbox },
+        adapter: adapterName
+      };
+      const adapter = factory(connected);
+      this.accounts.set(account.id, connected);
+      this.adapters.set(account.id, adapter);
+      this.markets.delete(account.id);
+
+      if (!this.rateLimiters.has(account.exchange)) {
+        this.rateLimiters.set(account.exchange, new RateLimiter(adapter.rateLimit || DEFAULT_RATE_LIMIT, this.clock));
+      }
       
-      console.log(`${name} exchange initialized`);
+      console.log(`${account.id} account on ${account.exchange} initialized with ${adapterName} adapter`);
       return true;
     } catch (error) {
-      console.error(`Failed to initialize ${name}:`, error);
+      console.error(`Failed to initialize ${account.id}:`, error);
       return false;
     }
   }
 
-  private createMockExchange(name: string, credentials: ExchangeCredentials) {
-    return {
-      name,
-      credentials,
-      id: name,
-      
-      // Mock methods that would be implemented with ccxt
-      fetchBalance: async () => this.mockFetchBalance(),
-      fetchTicker: async (symbol: string) => this.mockFetchTicker(symbol),
-      fetchOHLCV: async (symbol: string, timeframe: string, limit: number) => 
-        this.mockFetchOHLCV(symbol, timeframe, limit),
-      createOrder: async (symbol: string, type: string, side: string, amount: number, price?: number) =>
-        this.mockCreateOrder(symbol, type, side, amount, price),
-      fetchOrder: async (id: string) => this.mockFetchOrder(id),
-      fetchOrders: async (symbol?: string) => this.mockFetchOrders(symbol),
-      fetchOpenOrders: async (symbol?: string) => this.mockFetchOpenOrders(symbol),
-      cancelOrder: async (id: string) => this.mockCancelOrder(id),
-      fetchMyTrades: async (symbol?: string) => this.mockFetchTrades(symbol)
-    };
+  removeAccount(accountId: string): boolean {
+    const account = this.accounts.get(accountId);
+    if (!account) return false;
+
+    this.accounts.delete(accountId);
+    this.adapters.delete(accountId);
+    this.markets.delete(accountId);
+
+    const venueInUse = Array.from(this.accounts.values()).some(other => other.exchange === account.exchange);
+    if (!venueInUse) {
+      this.rateLimiters.get(account.exchange)?.clear(`${account.exchange} has no connected accounts`);
+      this.rateLimiters.delete(account.exchange);
+    }
+    return true;
+  }
+
+  getRateLimitStatus(exchange: string): RateLimitStatus {
+    const limiter = this.rateLimiters.get(exchange);
+    if (!limiter) {
+      throw new Error(`Exchange ${exchange} has no connected accounts`);
+    }
+    return limiter.getStatus();
   }
 
-  async getBalance(exchange: string): Promise<Balance[]> {
-    const ex = this.exchanges.get(exchange);
+  getCapabilities(accountId: string): ExchangeCapabilities {
+    return this.getExchange(accountId).capabilities;
+  }
+
+  private getExchange(accountId: string): ExchangeAdapter {
+    const ex = this.adapters.get(accountId);
     if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
+      throw new Error(`Account ${accountId} not initialized`);
+    }
+    return ex;
+  }
+
+  // Adapters that declare a symbol venue speak native symbols; everything above them uses canonical BASE/QUOTE
+  private toNativeSymbol(ex: ExchangeAdapter, symbol: string): string {
+    return ex.symbolVenue ? symbolRegistry.toNative(ex.symbolVenue, symbol) : symbol;
+  }
+
+  private toCanonicalSymbol(ex: ExchangeAdapter, symbol: string): string {
+    return ex.symbolVenue ? symbolRegistry.toCanonical(ex.symbolVenue, symbol) : symbol;
+  }
+
+  private toCanonicalOrder(ex: ExchangeAdapter, order: Order): Order {
+    return ex.symbolVenue ? { ...order, symbol: this.toCanonicalSymbol(ex, order.symbol) } : order;
+  }
+
+  /**
+   * Look up an order by the client ID it was submitted with, among open orders first
+   */
+  private async findOrderByClientId(accountId: string, symbol: string, clientOrderId: string): Promise<Order | undefined> {
+    const ex = this.getExchange(accountId);
+    const lookups: Array<'fetchOpenOrders' | 'fetchOrders'> = ['fetchOpenOrders', 'fetchOrders'];
+
+    for (const endpoint of lookups) {
+      if (!ex.capabilities[endpoint]) continue;
+
+      const orders = await this.request(accountId, endpoint, () => ex[endpoint](this.toNativeSymbol(ex, symbol)));
+      const match = orders.find(order => order.clientOrderId === clientOrderId);
+      if (match) {
+        return this.toCanonicalOrder(ex, match);
+      }
+    }
+
+    if (!ex.capabilities.fetchOpenOrders && !ex.capabilities.fetchOrders) {
+      throw new ExchangeError(`Cannot reconcile order ${clientOrderId}: ${accountId} cannot list orders`, accountId);
+    }
+    return undefined;
+  }
+
+  private generateClientOrderId(accountId: string): string {
+    return `${accountId}-${this.clock.now().toString(36)}-${Math.random().toString(36).substr(2, 8)}`;
+  }
+
+  private retryDelay(error: ExchangeError, attempt: number): number {
+    if (error instanceof RateLimited && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    return backoffDelay(attempt, RETRY_POLICY.baseDelayMs, RETRY_POLICY.maxDelayMs);
+  }
+
+  /**
+   * Rate-limited adapter call for idempotent endpoints: errors are classified
+   * and retryable ones are repeated with jittered exponential backoff
+   */
+  private request<T>(accountId: string, endpoint: AdapterEndpoint, task: () => Promise<T>): Promise<T> {
+    return retryWithBackoff(
+      () => this.schedule(accountId, endpoint, task).catch(error => {
+        throw classifyError(error, accountId);
+      }),
+      {
+        ...RETRY_POLICY,
+        clock: this.clock,
+        shouldRetry: error => error instanceof ExchangeError && error.retryable,
+        delayFor: error => error instanceof RateLimited ? error.retryAfterMs : undefined
+      }
+    );
+  }
+
+  private schedule<T>(accountId: string, endpoint: AdapterEndpoint, task: () => Promise<T>): Promise<T> {
+    const { cost, priority } = ENDPOINT_COSTS[endpoint];
+    const { exchange } = this.accounts.get(accountId)!;
+    return this.rateLimiters.get(exchange)!.schedule(task, cost, priority);
+  }
+
+  private requireCapability(ex: ExchangeAdapter, capability: Exclude<keyof ExchangeCapabilities, 'orderTypes' | 'timeInForce'>) {
+    if (!ex.capabilities[capability]) {
+      throw new Error(`Exchange ${ex.id} does not support ${capability}`);
+    }
+  }
+
+  private requirePermission(accountId: string, permission: KeyPermission) {
+    const account = this.accounts.get(accountId)!;
+    if (!account.credentials.signer.permissions.includes(permission)) {
+      throw new AuthenticationError(`Account ${accountId} key is not permitted to ${permission}`, account.exchange);
+    }
+  }
+
+  /**
+   * Load instrument metadata for an account, cached until reload is requested
+   */
+  async loadMarkets(accountId: string, reload: boolean = false): Promise<Market[]> {
+    const ex = this.getExchange(accountId);
+
+    if (!reload && this.markets.has(accountId)) {
+      return Array.from(this.markets.get(accountId)!.values());
     }
 
     try {
-      const balance = await ex.fetchBalance();
-      return this.formatBalance(balance);
+      const markets = (await this.request(accountId, 'fetchMarkets', () => ex.fetchMarkets())).map(market => {
+        const symbol = this.toCanonicalSymbol(ex, market.symbol);
+        const [base, quote] = symbol.split('/');
+        return { ...market, symbol, base: base || market.base, quote: quote || market.quote };
+      });
+      this.markets.set(accountId, new Map(markets.map(market => [market.symbol, market])));
+      return markets;
     } catch (error) {
-      console.error(`Error fetching balance from ${exchange}:`, error);
+      console.error(`Error loading markets from ${accountId}:`, error);
       throw error;
     }
   }
 
-  async getTicker(exchange: string, symbol: string): Promise<Ticker> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
+  async getMarket(accountId: string, symbol: string): Promise<Market> {
+    await this.loadMarkets(accountId);
+
+    const market = this.markets.get(accountId)!.get(symbol);
+    if (!market) {
+      throw new Error(`Market ${symbol} not found on ${accountId}`);
+    }
+    return market;
+  }
+
+  /**
+   * Round an order onto the exchange's tick and lot grid and check it against
+   * the market's minimums. Limit prices are rounded towards the passive side so
+   * rounding never makes an order more aggressive than requested.
+   */
+  async normalizeOrder(accountId: string, orderRequest: OrderRequest): Promise<OrderNormalization> {
+    const market = await this.getMarket(accountId, orderRequest.symbol);
+    const errors: string[] = [];
+    const order: OrderRequest = { ...orderRequest };
+
+    if (!market.active) {
+      errors.push(`Market ${market.symbol} is not active on ${accountId}`);
+    }
+
+    order.amount = roundToStep(orderRequest.amount, market.lotSize, 'floor');
+    if (orderRequest.price !== undefined) {
+      order.price = roundToStep(orderRequest.price, market.tickSize, orderRequest.side === 'buy' ? 'floor' : 'ceil');
+    }
+    if (orderRequest.stopPrice !== undefined) {
+      order.stopPrice = roundToStep(orderRequest.stopPrice, market.tickSize);
+    }
+
+    if (order.amount < market.minAmount) {
+      errors.push(`Amount ${order.amount} is below the minimum of ${market.minAmount} ${market.base} for ${market.symbol}`);
+    }
+    if (market.maxAmount !== undefined && order.amount > market.maxAmount) {
+      errors.push(`Amount ${order.amount} exceeds the maximum of ${market.maxAmount} ${market.base} for ${market.symbol}`);
+    }
+
+    const referencePrice = order.price || order.stopPrice || (await this.getTicker(accountId, order.symbol)).last;
+    const notional = order.amount * referencePrice;
+    if (notional < market.minNotional) {
+      errors.push(`Order value ${notional.toFixed(market.pricePrecision)} ${market.quote} is below the minimum of ${market.minNotional} ${market.quote} for ${market.symbol}`);
     }
 
+    return {
+      order,
+      market,
+      errors,
+      adjusted: order.amount !== orderRequest.amount || order.price !== orderRequest.price || order.stopPrice !== orderRequest.stopPrice
+    };
+  }
+
+  async getBalance(accountId: string): Promise<Balance[]> {
+    const ex = this.getExchange(accountId);
+
     try {
-      return await ex.fetchTicker(symbol);
+      const balance = await this.request(accountId, 'fetchBalance', () => ex.fetchBalance());
+      return this.formatBalance(balance);
     } catch (error) {
-      console.error(`Error fetching ticker for ${symbol} from ${exchange}:`, error);
+      console.error(`Error fetching balance from ${accountId}:`, error);
       throw error;
     }
   }
 
-  async getOHLCV(exchange: string, symbol: string, timeframe: string = '1h', limit: number = 100): Promise<OHLCV[]> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
+  async getTicker(accountId: string, symbol: string): Promise<Ticker> {
+    const ex = this.getExchange(accountId);
+
+    try {
+      const ticker = await this.request(accountId, 'fetchTicker', () => ex.fetchTicker(this.toNativeSymbol(ex, symbol)));
+      return { ...ticker, symbol };
+    } catch (error) {
+      console.error(`Error fetching ticker for ${symbol} from ${accountId}:`, error);
+      throw error;
     }
+  }
+
+  async getOHLCV(accountId: string, symbol: string, timeframe: string = '1h', limit: number = 100, since?: number): Promise<OHLCV[]> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'fetchOHLCV');
 
     try {
-      return await ex.fetchOHLCV(symbol, timeframe, limit);
+      return await this.request(accountId, 'fetchOHLCV', () => ex.fetchOHLCV(this.toNativeSymbol(ex, symbol), timeframe, limit, since));
     } catch (error) {
-      console.error(`Error fetching OHLCV for ${symbol} from ${exchange}:`, error);
+      console.error(`Error fetching OHLCV for ${symbol} from ${accountId}:`, error);
       throw error;
     }
   }
 
-  async placeOrder(exchange: string, orderRequest: OrderRequest): Promise<Order> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
+  /**
+   * Candles with timestamps in [from, to), served from the local candle store
+   * where possible. Only spans never downloaded are requested, paging through
+   * the adapter's per-call limit. Buckets without trades are filled flat from
+   * the previous close.
+   */
+  async fetchOHLCVRange(accountId: string, symbol: string, timeframe: string, from: number, to: number): Promise<OHLCV[]> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'fetchOHLCV');
+
+    const start = ceilToTimeframe(from, timeframe);
+    const end = ceilToTimeframe(to, timeframe);
+    // The forming candle is still changing, so only closed buckets are cached
+    const closedEnd = Math.min(end, floorToTimeframe(this.clock.now(), timeframe));
+    const key = `${this.accounts.get(accountId)!.exchange}:${symbol}:${timeframe}`;
+
+    try {
+      const missing = subtractRanges(start, closedEnd, await this.candleStore.getCoverage(key));
+      for (const range of missing) {
+        const candles = await this.downloadOHLCV(accountId, ex, symbol, timeframe, range);
+        await this.candleStore.putCandles(key, candles);
+        await this.candleStore.addCoverage(key, range);
+      }
+
+      const cached = await this.candleStore.getCandles(key, start, closedEnd);
+      const live = closedEnd < end
+        ? await this.downloadOHLCV(accountId, ex, symbol, timeframe, { from: Math.max(start, closedEnd), to: end })
+        : [];
+
+      return this.fillGaps([...cached, ...live], timeframe, end);
+    } catch (error) {
+      console.error(`Error fetching OHLCV range for ${symbol} from ${accountId}:`, error);
+      throw error;
     }
+  }
+
+  async placeOrder(accountId: string, request: OrderRequest): Promise<Order> {
+    const ex = this.getExchange(accountId);
+    this.requirePermission(accountId, 'trade');
 
     try {
       // Validate order before placing
-      this.validateOrder(orderRequest);
-
-      const order = await ex.createOrder(
-        orderRequest.symbol,
-        orderRequest.type,
-        orderRequest.side,
-        orderRequest.amount,
-        orderRequest.price
-      );
-
-      console.log(`Order placed on ${exchange}:`, order);
-      return order;
+      this.validateOrder(request);
+      this.validateOrderCapabilities(ex, request);
+
+      const { order: orderRequest, errors } = await this.normalizeOrder(accountId, request);
+      if (errors.length > 0) {
+        throw new InvalidOrder(errors.join('; '), accountId);
+      }
+
+      // A client order ID is what lets a failed submission be reconciled instead of resent
+      const clientOrderId = orderRequest.clientOrderId || (ex.capabilities.clientOrderId ? this.generateClientOrderId(accountId) : undefined);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const order = await this.schedule(accountId, 'createOrder', () => ex.createOrder(
+            this.toNativeSymbol(ex, orderRequest.symbol),
+            orderRequest.type,
+            orderRequest.side,
+            orderRequest.amount,
+            orderRequest.price,
+            {
+              stopPrice: orderRequest.stopPrice,
+              timeInForce: orderRequest.timeInForce,
+              postOnly: orderRequest.postOnly,
+              reduceOnly: orderRequest.reduceOnly,
+              clientOrderId
+            }
+          ));
+
+          console.log(`Order placed on ${accountId}:`, order);
+          return this.toCanonicalOrder(ex, order);
+        } catch (rawError) {
+          const error = classifyError(rawError, accountId);
+          if (!error.retryable || !clientOrderId || attempt + 1 >= RETRY_POLICY.maxAttempts) {
+            throw error;
+          }
+
+          // The request may have reached the exchange; only resubmit once we know it did not
+          const existing = await this.findOrderByClientId(accountId, orderRequest.symbol, clientOrderId);
+          if (existing) {
+            console.log(`Recovered order ${existing.id} on ${accountId} by client order ID ${clientOrderId}`);
+            return existing;
+          }
+
+          await sleep(this.retryDelay(error, attempt), this.clock);
+        }
+      }
     } catch (error) {
-      console.error(`Error placing order on ${exchange}:`, error);
+      console.error(`Error placing order on ${accountId}:`, error);
       throw error;
     }
   }
 
-  async cancelOrder(exchange: string, orderId: string): Promise<boolean> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
-    }
+  async cancelOrder(accountId: string, orderId: string): Promise<boolean> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'cancelOrder');
+    this.requirePermission(accountId, 'trade');
 
     try {
-      await ex.cancelOrder(orderId);
-      console.log(`Order ${orderId} canceled on ${exchange}`);
+      await this.request(accountId, 'cancelOrder', () => ex.cancelOrder(orderId));
+      console.log(`Order ${orderId} canceled on ${accountId}`);
       return true;
     } catch (error) {
-      console.error(`Error canceling order ${orderId} on ${exchange}:`, error);
+      console.error(`Error canceling order ${orderId} on ${accountId}:`, error);
       throw error;
     }
   }
 
-  async getOrder(exchange: string, orderId: string): Promise<Order> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
-    }
+  async getOrder(accountId: string, orderId: string, symbol?: string): Promise<Order> {
+    const ex = this.getExchange(accountId);
 
     try {
-      return await ex.fetchOrder(orderId);
+      return this.toCanonicalOrder(ex, await this.request(accountId, 'fetchOrder', () => ex.fetchOrder(orderId, symbol && this.toNativeSymbol(ex, symbol))));
     } catch (error) {
-      console.error(`Error fetching order ${orderId} from ${exchange}:`, error);
+      console.error(`Error fetching order ${orderId} from ${accountId}:`, error);
       throw error;
     }
   }
 
-  async getOrders(exchange: string, symbol?: string): Promise<Order[]> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
-    }
+  async getOrders(accountId: string, symbol?: string): Promise<Order[]> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'fetchOrders');
 
     try {
-      return await ex.fetchOrders(symbol);
+      const orders = await this.request(accountId, 'fetchOrders', () => ex.fetchOrders(symbol && this.toNativeSymbol(ex, symbol)));
+      return orders.map(order => this.toCanonicalOrder(ex, order));
     } catch (error) {
-      console.error(`Error fetching orders from ${exchange}:`, error);
+      console.error(`Error fetching orders from ${accountId}:`, error);
       throw error;
     }
   }
 
-  async getOpenOrders(exchange: string, symbol?: string): Promise<Order[]> {
-    const ex = this.exchanges.get(exchange);
-    if (!ex) {
-      throw new Error(`Exchange ${exchange} not initialized`);
+  /**
+   * Own fills since a timestamp, oldest first. Pages until the venue stops
+   * returning trades not already seen. Without a timestamp the whole history
+   * is fetched: venues answer an open-ended request with only their latest
+   * page, so paging starts from the epoch instead.
+   */
+  async getMyTrades(accountId: string, since?: number, symbol?: string): Promise<ExchangeTrade[]> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'fetchMyTrades');
+
+    try {
+      const trades = new Map<string, ExchangeTrade>();
+      let cursor = since ?? 0;
+
+      for (;;) {
+        const page = await this.request(accountId, 'fetchMyTrades', () => ex.fetchMyTrades(symbol && this.toNativeSymbol(ex, symbol), cursor));
+        const fresh = page.filter(trade => !trades.has(trade.id));
+        if (fresh.length === 0) break;
+
+        fresh.forEach(trade => trades.set(trade.id, ex.symbolVenue ? { ...trade, symbol: this.toCanonicalSymbol(ex, trade.symbol) } : trade));
+        // Trades sharing the last timestamp may straddle pages, so resume at it rather than after it
+        cursor = Math.max(...fresh.map(trade => trade.timestamp));
+      }
+
+      return Array.from(trades.values()).sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error(`Error fetching trades from ${accountId}:`, error);
+      throw error;
     }
+  }
+
+  async getOpenOrders(accountId: string, symbol?: string): Promise<Order[]> {
+    const ex = this.getExchange(accountId);
+    this.requireCapability(ex, 'fetchOpenOrders');
 
     try {
-      return await ex.fetchOpenOrders(symbol);
+      const orders = await this.request(accountId, 'fetchOpenOrders', () => ex.fetchOpenOrders(symbol && this.toNativeSymbol(ex, symbol)));
+      return orders.map(order => this.toCanonicalOrder(ex, order));
     } catch (error) {
-      console.error(`Error fetching open orders from ${exchange}:`, error);
+      console.error(`Error fetching open orders from ${accountId}:`, error);
       throw error;
     }
   }
 
   private validateOrder(orderRequest: OrderRequest) {
     if (!orderRequest.symbol) {
-      throw new Error('Symbol is required');
+      throw new InvalidOrder('Symbol is required');
     }
     if (!orderRequest.amount || orderRequest.amount <= 0) {
-      throw new Error('Amount must be greater than 0');
+      throw new InvalidOrder('Amount must be greater than 0');
+    }
+    if ((orderRequest.type === 'limit' || orderRequest.type === 'stop_limit') && (!orderRequest.price || orderRequest.price <= 0)) {
+      throw new InvalidOrder('Price is required for limit orders');
     }
-    if (orderRequest.type === 'limit' && (!orderRequest.price || orderRequest.price <= 0)) {
-      throw new Error('Price is required for limit orders');
+    if ((orderRequest.type === 'stop' || orderRequest.type === 'stop_limit') && (!orderRequest.stopPrice || orderRequest.stopPrice <= 0)) {
+      throw new InvalidOrder('Stop price is required for stop orders');
     }
-    if (orderRequest.type === 'stop' && (!orderRequest.stopPrice || orderRequest.stopPrice <= 0)) {
-      throw new Error('Stop price is required for stop orders');
+    if (orderRequest.postOnly && orderRequest.type !== 'limit') {
+      throw new InvalidOrder('Post-only is only valid for limit orders');
+    }
+    if (orderRequest.postOnly && (orderRequest.timeInForce === 'IOC' || orderRequest.timeInForce === 'FOK')) {
+      throw new InvalidOrder(`Post-only orders cannot use ${orderRequest.timeInForce} time in force`);
     }
   }
 
-  private formatBalance(balance: any): Balance[] {
+  private validateOrderCapabilities(ex: ExchangeAdapter, orderRequest: OrderRequest) {
+    const capabilities = ex.capabilities;
+
+    if (!capabilities.orderTypes.includes(orderRequest.type)) {
+      throw new InvalidOrder(`${ex.id} does not support ${orderRequest.type} orders`);
+    }
+    if (orderRequest.timeInForce && !capabilities.timeInForce.includes(orderRequest.timeInForce)) {
+      throw new InvalidOrder(`${ex.id} does not support ${orderRequest.timeInForce} time in force`);
+    }
+    if (orderRequest.postOnly && !capabilities.postOnly) {
+      throw new InvalidOrder(`${ex.id} does not support post-only orders`);
+    }
+    if (orderRequest.reduceOnly && !capabilities.reduceOnly) {
+      throw new InvalidOrder(`${ex.id} does not support reduce-only orders`);
+    }
+    if (orderRequest.clientOrderId && !capabilities.clientOrderId) {
+      throw new InvalidOrder(`${ex.id} does not support client order IDs`);
+    }
+  }
+
+  private async downloadOHLCV(accountId: string, ex: ExchangeAdapter, symbol: string, timeframe: string, range: TimeRange): Promise<OHLCV[]> {
+    const limit = ex.maxOHLCVLimit || DEFAULT_OHLCV_LIMIT;
+    const candles = new Map<number, OHLCV>();
+    let cursor = range.from;
+
+    while (cursor < range.to) {
+      const page = await this.getOHLCV(accountId, symbol, timeframe, limit, cursor);
+      const inRange = page.filter(candle => candle.timestamp >= cursor && candle.timestamp < range.to);
+      // Pages overlap on some venues; the later copy of a candle wins
+      inRange.forEach(candle => candles.set(candle.timestamp, candle));
+
+      if (inRange.length === 0) break; // Nothing more after cursor, e.g. the market was delisted
+      cursor = addTimeframes(inRange[inRange.length - 1].timestamp, timeframe, 1);
+    }
+
+    return Array.from(candles.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private fillGaps(candles: OHLCV[], timeframe: string, end: number): OHLCV[] {
+    const filled: OHLCV[] = [];
+
+    candles.forEach(candle => {
+      const previous = filled[filled.length - 1];
+      for (
+        let timestamp = previous ? addTimeframes(previous.timestamp, timeframe, 1) : candle.timestamp;
+        previous && timestamp < candle.timestamp;
+        timestamp = addTimeframes(timestamp, timeframe, 1)
+      ) {
+        filled.push({ timestamp, open: previous.close, high: previous.close, low: previous.close, close: previous.close, volume: 0 });
+      }
+      filled.push(candle);
+    });
+
+    return filled.filter(candle => candle.timestamp < end);
+  }
+
+  private formatBalance(balance: RawBalance): Balance[] {
     // Convert exchange-specific balance format to standardized format
     const balances: Balance[] = [];
     
@@ -266,156 +742,58 @@ class ExchangeService {
     return balances;
   }
 
-  getAvailableExchanges(): string[] {
-    return Array.from(this.exchanges.keys());
-  }
-
-  isExchangeConnected(exchange: string): boolean {
-    return this.exchanges.has(exchange);
-  }
-
-  // Mock methods for development/testing
-  private async mockFetchBalance(): Promise<any> {
-    return {
-      free: { BTC: 0.5, ETH: 2.3, USD: 1000 },
-      used: { BTC: 0.1, ETH: 0.2, USD: 200 },
-      total: { BTC: 0.6, ETH: 2.5, USD: 1200 }
-    };
-  }
-
-  private async mockFetchTicker(symbol: string): Promise<Ticker> {
-    const basePrice = symbol === 'BTC/USD' ? 45000 : symbol === 'ETH/USD' ? 3000 : 1;
-    const change = (Math.random() - 0.5) * 0.1;
-    
-    return {
-      symbol,
-      bid: basePrice * (1 + change - 0.001),
-      ask: basePrice * (1 + change + 0.001),
-      last: basePrice * (1 + change),
-      volume: Math.random() * 10000,
-      high: basePrice * (1 + Math.abs(change) + 0.02),
-      low: basePrice * (1 + change - 0.02),
-      change: change * basePrice,
-      percentage: change * 100,
-      timestamp: Date.now()
-    };
-  }
-
-  private async mockFetchOHLCV(symbol: string, timeframe: string, limit: number): Promise<OHLCV[]> {
-    const data: OHLCV[] = [];
-    const now = Date.now();
-    const interval = this.getTimeframeMs(timeframe);
-    const basePrice = symbol === 'BTC/USD' ? 45000 : symbol === 'ETH/USD' ? 3000 : 1;
-    
-    for (let i = limit - 1; i >= 0; i--) {
-      const timestamp = now - (i * interval);
-      const open = basePrice * (1 + (Math.random() - 0.5) * 0.05);
-      const close = open * (1 + (Math.random() - 0.5) * 0.03);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.02);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.02);
-      const volume = Math.random() * 1000;
-      
-      data.push({ timestamp, open, high, low, close, volume });
-    }
-    
-    return data;
-  }
-
-  private async mockCreateOrder(symbol: string, type: string, side: string, amount: number, price?: number): Promise<Order> {
-    const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      id: orderId,
-      symbol,
-      type,
-      side,
-      amount,
-      price: price || 0,
-      status: 'open',
-      filled: 0,
-      remaining: amount,
-      timestamp: Date.now()
-    };
-  }
-
-  private async mockFetchOrder(id: string): Promise<Order> {
-    return {
+  /**
+   * Connected accounts, without their credentials
+   */
+  getAvailableExchanges(): ExchangeAccountInfo[] {
+    return Array.from(this.accounts.values()).map(({ id, exchange, label, sandbox, adapter }) => ({
       id,
-      symbol: 'BTC/USD',
-      type: 'limit',
-      side: 'buy',
-      amount: 0.1,
-      price: 45000,
-      status: 'open',
-      filled: 0,
-      remaining: 0.1,
-      timestamp: Date.now()
-    };
+      exchange,
+      label,
+      sandbox,
+      adapter
+    }));
   }
 
-  private async mockFetchOrders(symbol?: string): Promise<Order[]> {
-    return [
-      {
-        id: 'order_1',
-        symbol: 'BTC/USD',
-        type: 'limit',
-        side: 'buy',
-        amount: 0.1,
-        price: 45000,
-        status: 'closed',
-        filled: 0.1,
-        remaining: 0,
-        timestamp: Date.now() - 3600000
-      }
-    ];
-  }
-
-  private async mockFetchOpenOrders(symbol?: string): Promise<Order[]> {
-    return [
-      {
-        id: 'order_2',
-        symbol: 'ETH/USD',
-        type: 'limit',
-        side: 'sell',
-        amount: 1,
-        price: 3100,
-        status: 'open',
-        filled: 0,
-        remaining: 1,
-        timestamp: Date.now() - 1800000
-      }
-    ];
+  getAccount(accountId: string): ExchangeAccountInfo | undefined {
+    return this.getAvailableExchanges().find(account => account.id === accountId);
   }
 
-  private async mockCancelOrder(id: string): Promise<any> {
-    return { id, status: 'canceled' };
-  }
-
-  private async mockFetchTrades(symbol?: string): Promise<any[]> {
-    return [];
+  /**
+   * Signer for an account's key, for private streams that authenticate outside the adapter
+   */
+  getSigner(accountId: string, permission?: KeyPermission): RequestSigner {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not initialized`);
+    }
+    if (permission) {
+      this.requirePermission(accountId, permission);
+    }
+    return account.credentials.signer;
   }
 
-  private getTimeframeMs(timeframe: string): number {
-    const timeframes: Record<string, number> = {
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000
-    };
-    
-    return timeframes[timeframe] || timeframes['1h'];
+  isExchangeConnected(accountId: string): boolean {
+    return this.adapters.has(accountId);
   }
 }
 
 // Singleton instance
 export const exchangeService = new ExchangeService();
+export { ExchangeService };
 export type { 
   ExchangeCredentials, 
+  ExchangeAccountConfig,
+  ExchangeAccount,
+  ExchangeAccountInfo,
   Balance, 
+  Market,
+  OrderNormalization,
   OrderRequest, 
   Order, 
+  OrderType,
+  TimeInForce,
+  ExchangeTrade,
   Ticker, 
   OHLCV 
 };
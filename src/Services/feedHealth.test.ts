@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FeedHealthMonitor } from './feedHealth';
+import type { FeedHealth } from './feedHealth';
+import { FakeClock } from '../test/fakeClock';
+
+const T0 = Date.parse('2024-01-01T00:00:00Z');
+
+describe('FeedHealthMonitor', () => {
+  let clock: FakeClock;
+  let monitor: FeedHealthMonitor;
+
+  // A ticker stamped latencyMs before it arrives now
+  const ticker = (exchange: string, price: number, latencyMs: number = 100) => monitor.recordEvent({
+    receivedAt: clock.now(),
+    exchange,
+    message: { type: 'ticker', ticker: { symbol: 'BTC/USD', price, volume: 1000, change: 0, timestamp: clock.now() - latencyMs } }
+  });
+  const gap = (exchange: string) => monitor.recordGap({ exchange, symbol: 'BTC/USD', reason: 'sequence', timestamp: clock.now() });
+
+  beforeEach(() => {
+    clock = new FakeClock(T0);
+    monitor = new FeedHealthMonitor({}, clock);
+  });
+
+  it('does not track feeds that have sent nothing', () => {
+    expect(monitor.getHealth('binance', 'BTC/USD')).toBeNull();
+    expect(monitor.isHealthy('binance', 'BTC/USD')).toBe(true);
+  });
+
+  it('marks a silent feed stale and tells subscribers as the check timer notices', () => {
+    const transitions: FeedHealth[] = [];
+    monitor.subscribe(health => transitions.push(health));
+    ticker('binance', 100);
+
+    clock.advance(30000);
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: true, staleMs: 30000 });
+    expect(transitions).toEqual([]);
+
+    clock.advance(5000);
+    expect(transitions).toEqual([expect.objectContaining({ exchange: 'binance', healthy: false, issues: ['No data for 35s'] })]);
+
+    ticker('binance', 100);
+    expect(transitions.map(health => health.healthy)).toEqual([false, true]);
+  });
+
+  it('flags connections reported from the worker, recovering when they reopen', () => {
+    const transitions: FeedHealth[] = [];
+    monitor.subscribe(health => transitions.push(health));
+    ticker('binance', 100);
+
+    const status = { exchange: 'binance', attempts: 0, lastMessageAt: clock.now(), nextRetryAt: null };
+    monitor.recordConnectionState({ ...status, state: 'degraded' });
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: false, issues: ['Connection degraded'] });
+
+    monitor.recordConnectionState({ ...status, state: 'open' });
+    expect(transitions.map(health => health.healthy)).toEqual([false, true]);
+  });
+
+  it('flags latency above the limit as a moving average', () => {
+    ticker('binance', 100, 4000);
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: true, latencyMs: 4000 });
+
+    // One slow message moves the average a tenth of the way, past the 5s limit
+    ticker('binance', 100, 24000);
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: false, latencyMs: 6000, issues: ['Latency 6000ms'] });
+  });
+
+  it('counts book gaps within the window only', () => {
+    ticker('kraken', 100);
+    gap('kraken');
+    gap('kraken');
+    expect(monitor.getHealth('kraken', 'BTC/USD')).toMatchObject({ healthy: true, gaps: 2 });
+
+    clock.advance(60000);
+    ticker('kraken', 100);
+    gap('kraken');
+    expect(monitor.getHealth('kraken', 'BTC/USD')).toMatchObject({ healthy: false, gaps: 3, issues: ['3 book gaps in 5m'] });
+
+    // The first two age out of the five minute window
+    clock.advance(4 * 60000 + 1);
+    ticker('kraken', 100);
+    expect(monitor.getHealth('kraken', 'BTC/USD')).toMatchObject({ healthy: true, gaps: 1 });
+  });
+
+  it('measures deviation from the cross-venue median only once enough venues have fresh prices', () => {
+    ticker('binance', 100);
+    ticker('kraken', 103);
+    expect(monitor.getHealth('kraken', 'BTC/USD')).toMatchObject({ healthy: true, deviationPercent: null });
+
+    ticker('coinbase', 100.2);
+    const kraken = monitor.getHealth('kraken', 'BTC/USD')!;
+    expect(kraken.deviationPercent).toBeCloseTo(2.794, 3);
+    expect(kraken).toMatchObject({ healthy: false, issues: ['Price 2.79% from cross-venue median'] });
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: true });
+  });
+
+  it('leaves stale prices out of the median', () => {
+    ticker('okx', 90);
+    clock.advance(31000);
+    ticker('binance', 100);
+    ticker('kraken', 103);
+    ticker('coinbase', 100.2);
+
+    // Without okx the median is 100.2; okx itself is stale rather than off-price
+    expect(monitor.getHealth('binance', 'BTC/USD')?.deviationPercent).toBeCloseTo(0.1996, 4);
+    expect(monitor.getHealth('okx', 'BTC/USD')).toMatchObject({ deviationPercent: null, issues: ['No data for 31s'] });
+  });
+
+  it('honours a lower minVenues', () => {
+    monitor = new FeedHealthMonitor({ minVenues: 2, maxDeviationPercent: 0.5 }, clock);
+    ticker('binance', 100);
+    ticker('kraken', 102);
+
+    // The median of two is their midpoint, 1% from each
+    expect(monitor.getHealth('binance', 'BTC/USD')).toMatchObject({ healthy: false, deviationPercent: expect.closeTo(0.990, 3) });
+  });
+});
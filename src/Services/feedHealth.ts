@@ -0,0 +1,270 @@
+// src/services/feedHealth.ts
+
+import { websocketService } from './websocketService';
+import type { ConnectionState, ConnectionStatus, FeedGap, MarketEvent } from './websocketService';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+interface FeedHealthOptions {
+  staleAfterMs?: number; // Silence after which a feed is stale
+  maxLatencyMs?: number; // Average delay from exchange timestamp to arrival
+  maxGaps?: number; // Book resyncs tolerated within gapWindowMs
+  gapWindowMs?: number;
+  maxDeviationPercent?: number; // Distance from the cross-venue median price
+  minVenues?: number; // Fresh prices needed before the median means anything
+  checkIntervalMs?: number; // How often subscribers are re-evaluated for staleness
+}
+
+interface FeedHealth {
+  exchange: string;
+  symbol: string;
+  healthy: boolean;
+  issues: string[];
+  messageRate: number; // Messages per second over the last minute
+  latencyMs: number | null; // Moving average, null without exchange timestamps
+  gaps: number; // Book resyncs within the gap window
+  lastMessageAt: number | null;
+  staleMs: number | null;
+  price: number | null;
+  deviationPercent: number | null; // From the cross-venue median, null with too few venues
+}
+
+interface FeedStats {
+  exchange: string;
+  symbol: string;
+  arrivals: number[]; // Arrival times within RATE_WINDOW_MS
+  latencyMs: number | null;
+  gaps: number[];
+  lastMessageAt: number | null;
+  price: number | null;
+  priceAt: number | null;
+  healthy: boolean; // As last reported to subscribers
+}
+
+const DEFAULT_OPTIONS: Required<FeedHealthOptions> = {
+  staleAfterMs: 30000,
+  maxLatencyMs: 5000,
+  maxGaps: 3,
+  gapWindowMs: 5 * 60 * 1000,
+  maxDeviationPercent: 1,
+  minVenues: 3,
+  checkIntervalMs: 5000
+};
+
+const RATE_WINDOW_MS = 60000;
+const LATENCY_SMOOTHING = 0.1;
+
+/**
+ * Health of every exchange and symbol websocketService carries: message
+ * rate, latency, book gaps, staleness, and how far the last price sits from
+ * the median across venues. A feed with any issue is unhealthy; feeds that
+ * have never sent anything are not tracked, and not marked unhealthy.
+ */
+class FeedHealthMonitor {
+  private feeds: Map<string, FeedStats> = new Map();
+  private reportedConnections: Map<string, ConnectionState> = new Map(); // By exchange, from sockets outside websocketService
+  private subscribers: Set<(health: FeedHealth) => void> = new Set();
+  private checkTimer: TimerHandle | null = null;
+  private options: Required<FeedHealthOptions>;
+
+  constructor(options: FeedHealthOptions = {}, private clock: Clock = systemClock) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    websocketService.subscribeToMarketEvents(event => this.recordEvent(event));
+    websocketService.subscribeToFeedGaps(gap => this.recordGap(gap));
+  }
+
+  getHealth(exchange: string, symbol: string): FeedHealth | null {
+    const stats = this.feeds.get(`${exchange}:${symbol}`);
+    return stats ? this.evaluate(stats) : null;
+  }
+
+  getAllHealth(): FeedHealth[] {
+    return Array.from(this.feeds.values()).map(stats => this.evaluate(stats));
+  }
+
+  /**
+   * False only for a tracked feed with issues
+   */
+  isHealthy(exchange: string, symbol: string): boolean {
+    return this.getHealth(exchange, symbol)?.healthy ?? true;
+  }
+
+  /**
+   * Called when a feed turns unhealthy or recovers
+   */
+  subscribe(callback: (health: FeedHealth) => void): () => void {
+    this.subscribers.add(callback);
+    this.scheduleCheck();
+    return () => {
+      this.subscribers.delete(callback);
+      if (this.subscribers.size === 0 && this.checkTimer) {
+        this.clock.clearTimeout(this.checkTimer);
+        this.checkTimer = null;
+      }
+    };
+  }
+
+  /**
+   * Record a normalized message; live messages arrive through websocketService
+   */
+  recordEvent(event: MarketEvent) {
+    const now = this.clock.now();
+    const { message } = event;
+
+    switch (message.type) {
+      case 'ticker':
+        this.record(event.exchange, message.ticker.symbol, now, event.receivedAt - message.ticker.timestamp, message.ticker.price);
+        break;
+      case 'depth':
+        this.record(event.exchange, message.update.symbol, now, event.receivedAt - message.update.timestamp, null);
+        break;
+      case 'trades':
+        message.prints.forEach(print => this.record(event.exchange, print.symbol, now, event.receivedAt - print.timestamp, print.price));
+        break;
+    }
+  }
+
+  recordGap(gap: FeedGap) {
+    const stats = this.getStats(gap.exchange, gap.symbol);
+    stats.gaps.push(this.clock.now());
+    this.checkTransition(stats);
+  }
+
+  /**
+   * Record the state of a connection websocketService does not own, such as
+   * one in the market data worker. The exchange's feeds are unhealthy while
+   * either socket is degraded, or once every known socket is closed.
+   */
+  recordConnectionState(status: ConnectionStatus) {
+    this.reportedConnections.set(status.exchange, status.state);
+    this.feeds.forEach(stats => {
+      if (stats.exchange === status.exchange) {
+        this.checkTransition(stats);
+      }
+    });
+  }
+
+  private record(exchange: string, symbol: string, now: number, latency: number, price: number | null) {
+    const stats = this.getStats(exchange, symbol);
+    stats.arrivals.push(now);
+    stats.lastMessageAt = now;
+    if (!isNaN(latency)) {
+      stats.latencyMs = stats.latencyMs === null ? latency : stats.latencyMs + LATENCY_SMOOTHING * (latency - stats.latencyMs);
+    }
+    if (price !== null && price > 0) {
+      stats.price = price;
+      stats.priceAt = now;
+    }
+    this.checkTransition(stats);
+  }
+
+  private getStats(exchange: string, symbol: string): FeedStats {
+    const key = `${exchange}:${symbol}`;
+    let stats = this.feeds.get(key);
+    if (!stats) {
+      stats = { exchange, symbol, arrivals: [], latencyMs: null, gaps: [], lastMessageAt: null, price: null, priceAt: null, healthy: true };
+      this.feeds.set(key, stats);
+    }
+    return stats;
+  }
+
+  private evaluate(stats: FeedStats): FeedHealth {
+    const now = this.clock.now();
+    const { staleAfterMs, maxLatencyMs, maxGaps, gapWindowMs, maxDeviationPercent } = this.options;
+
+    stats.arrivals = stats.arrivals.filter(time => time > now - RATE_WINDOW_MS);
+    stats.gaps = stats.gaps.filter(time => time > now - gapWindowMs);
+
+    const issues: string[] = [];
+    const staleMs = stats.lastMessageAt !== null ? now - stats.lastMessageAt : null;
+    if (staleMs !== null && staleMs > staleAfterMs) {
+      issues.push(`No data for ${Math.round(staleMs / 1000)}s`);
+    }
+
+    const connections = [websocketService.getConnectionStates()[stats.exchange]?.state, this.reportedConnections.get(stats.exchange)]
+      .filter((state): state is ConnectionState => state !== undefined);
+    if (connections.includes('degraded')) {
+      issues.push('Connection degraded');
+    } else if (connections.length > 0 && connections.every(state => state === 'closed')) {
+      issues.push('Connection closed');
+    }
+
+    if (stats.latencyMs !== null && stats.latencyMs > maxLatencyMs) {
+      issues.push(`Latency ${Math.round(stats.latencyMs)}ms`);
+    }
+
+    if (stats.gaps.length >= maxGaps) {
+      issues.push(`${stats.gaps.length} book gaps in ${Math.round(gapWindowMs / 60000)}m`);
+    }
+
+    const deviationPercent = this.deviationFromMedian(stats, now);
+    if (deviationPercent !== null && deviationPercent > maxDeviationPercent) {
+      issues.push(`Price ${deviationPercent.toFixed(2)}% from cross-venue median`);
+    }
+
+    return {
+      exchange: stats.exchange,
+      symbol: stats.symbol,
+      healthy: issues.length === 0,
+      issues,
+      messageRate: stats.arrivals.length / (RATE_WINDOW_MS / 1000),
+      latencyMs: stats.latencyMs,
+      gaps: stats.gaps.length,
+      lastMessageAt: stats.lastMessageAt,
+      staleMs,
+      price: stats.price,
+      deviationPercent
+    };
+  }
+
+  /**
+   * Percent distance of the feed's price from the median of fresh prices for
+   * the same symbol on every venue, itself included
+   */
+  private deviationFromMedian(stats: FeedStats, now: number): number | null {
+    if (stats.price === null || stats.priceAt === null || now - stats.priceAt > this.options.staleAfterMs) return null;
+
+    const prices = Array.from(this.feeds.values())
+      .filter(feed => feed.symbol === stats.symbol && feed.price !== null && feed.priceAt !== null && now - feed.priceAt <= this.options.staleAfterMs)
+      .map(feed => feed.price!)
+      .sort((a, b) => a - b);
+    if (prices.length < this.options.minVenues) return null;
+
+    const middle = Math.floor(prices.length / 2);
+    const median = prices.length % 2 === 0 ? (prices[middle - 1] + prices[middle]) / 2 : prices[middle];
+    return Math.abs(stats.price - median) / median * 100;
+  }
+
+  private checkTransition(stats: FeedStats) {
+    if (this.subscribers.size === 0) return;
+
+    const health = this.evaluate(stats);
+    if (health.healthy === stats.healthy) return;
+    stats.healthy = health.healthy;
+
+    this.subscribers.forEach(callback => {
+      try {
+        callback(health);
+      } catch (error) {
+        console.error('Error in feed health subscriber callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Staleness only shows with time passing, so feeds are re-checked while anyone is listening
+   */
+  private scheduleCheck() {
+    if (this.checkTimer) return;
+    this.checkTimer = this.clock.setTimeout(() => {
+      this.checkTimer = null;
+      if (this.subscribers.size === 0) return;
+      this.feeds.forEach(stats => this.checkTransition(stats));
+      this.scheduleCheck();
+    }, this.options.checkIntervalMs);
+  }
+}
+
+// Singleton instance
+export const feedHealthMonitor = new FeedHealthMonitor();
+export { FeedHealthMonitor };
+export type { FeedHealthOptions, FeedHealth };
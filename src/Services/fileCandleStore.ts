@@ -0,0 +1,66 @@
+// src/services/fileCandleStore.ts
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import type { OHLCV } from './exchangeService';
+import { mergeCandles, mergeRanges } from './candleStore';
+import type { CandleStore, TimeRange } from './candleStore';
+
+interface CandleFile {
+  candles: OHLCV[];
+  coverage: TimeRange[];
+}
+
+/**
+ * Node store for scripts and backtests run outside the browser. One JSON file
+ * per series under the given directory. Node only: pass it to ExchangeService
+ * explicitly, the app never imports this module.
+ */
+class FileCandleStore implements CandleStore {
+  private cache: Map<string, CandleFile> = new Map();
+
+  constructor(private directory: string = '.candles') {}
+
+  async getCandles(key: string, from: number, to: number): Promise<OHLCV[]> {
+    const file = await this.read(key);
+    return file.candles.filter(candle => candle.timestamp >= from && candle.timestamp < to);
+  }
+
+  async putCandles(key: string, candles: OHLCV[]): Promise<void> {
+    const file = await this.read(key);
+    file.candles = mergeCandles(file.candles, candles);
+    await this.write(key, file);
+  }
+
+  async getCoverage(key: string): Promise<TimeRange[]> {
+    return (await this.read(key)).coverage;
+  }
+
+  async addCoverage(key: string, range: TimeRange): Promise<void> {
+    const file = await this.read(key);
+    file.coverage = mergeRanges(file.coverage, range);
+    await this.write(key, file);
+  }
+
+  private path(key: string): string {
+    return `${this.directory}/${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+  }
+
+  private async read(key: string): Promise<CandleFile> {
+    if (!this.cache.has(key)) {
+      let file: CandleFile = { candles: [], coverage: [] };
+      try {
+        file = JSON.parse(await readFile(this.path(key), 'utf8'));
+      } catch {
+        // No file yet for this series
+      }
+      this.cache.set(key, file);
+    }
+    return this.cache.get(key)!;
+  }
+
+  private async write(key: string, file: CandleFile): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.path(key), JSON.stringify(file));
+  }
+}
+
+export { FileCandleStore };
@@ -0,0 +1,316 @@
+// src/services/marketDataWorker.ts
+
+import { exchangeService } from './exchangeService';
+import { feedHealthMonitor } from './feedHealth';
+import type { ConnectionStatus, MarketData, MarketEvent } from './websocketService';
+import type { MarketData as Candle } from './strategyEngine';
+import type { IndicatorSpec, IndicatorValue, SeriesSnapshot, SeriesSpec, TickerUpdate, WorkerCommand, WorkerEvent } from './marketWorker/protocol';
+
+interface SeriesView {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  closed: Candle[];
+  forming: Candle | null;
+  indicators: Record<string, IndicatorValue>;
+  barClosed: boolean; // A bar closed since the previous update
+}
+
+interface TrackedSeries {
+  view: SeriesView;
+  callback: (series: SeriesView) => void;
+}
+
+interface PendingRequest {
+  resolve: (ok: boolean) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * UI-thread side of the market data worker. The worker runs its own exchange
+ * sockets, candle builder and indicators, so views fed from here do no
+ * parsing or maths on the main thread and get one batched update per flush
+ * interval. Order books and trade flow stay on websocketService; tickers and
+ * connection states arriving here are passed on to feedHealthMonitor, and
+ * the worker's market events can be recorded and replayed through here.
+ */
+class MarketDataWorkerClient {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private nextSeriesId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private connections: Record<string, ConnectionStatus> = {};
+  private stateSubscribers: Set<(status: ConnectionStatus) => void> = new Set();
+  private tickerSubscribers: Map<string, Set<(tickers: MarketData[]) => void>> = new Map(); // By exchange
+  private series: Map<number, TrackedSeries> = new Map();
+  private eventSubscribers: Set<(event: MarketEvent) => void> = new Set();
+  private replayExchanges: string[] | null = null; // Exchanges the worker is replaying, re-sent if it starts later
+  private pendingReplay: MarketEvent[] = [];
+
+  /**
+   * Open the exchange's socket in the worker, streaming tickers for symbols until disconnect()
+   */
+  connect(exchange: string, symbols: string[] = []): Promise<boolean> {
+    return this.request(requestId => ({ type: 'connect', requestId, exchange, symbols }));
+  }
+
+  disconnect(exchange: string) {
+    this.send({ type: 'disconnect', exchange });
+  }
+
+  disconnectAll() {
+    this.send({ type: 'disconnect_all' });
+  }
+
+  /**
+   * Longest the worker holds changes before posting them
+   */
+  setFlushInterval(ms: number) {
+    this.send({ type: 'configure', flushIntervalMs: ms });
+  }
+
+  getConnectionStates(): Record<string, ConnectionStatus> {
+    return { ...this.connections };
+  }
+
+  subscribeToConnectionState(callback: (status: ConnectionStatus) => void): () => void {
+    this.stateSubscribers.add(callback);
+    return () => this.stateSubscribers.delete(callback);
+  }
+
+  /**
+   * Called once per flush with the latest ticker of every symbol that changed on the exchange
+   */
+  subscribeToTickers(exchange: string, callback: (tickers: MarketData[]) => void): () => void {
+    if (!this.tickerSubscribers.has(exchange)) {
+      this.tickerSubscribers.set(exchange, new Set());
+    }
+    this.tickerSubscribers.get(exchange)!.add(callback);
+    this.getWorker();
+    return () => this.tickerSubscribers.get(exchange)?.delete(callback);
+  }
+
+  /**
+   * Called with every market event the worker dispatches, live or replayed.
+   * Events are only forwarded while someone is subscribed, and arrive with
+   * each flush rather than as they happen.
+   */
+  subscribeToMarketEvents(callback: (event: MarketEvent) => void): () => void {
+    this.eventSubscribers.add(callback);
+    if (this.eventSubscribers.size === 1) {
+      this.sendIfRunning({ type: 'forward_events', enabled: true });
+    }
+    return () => {
+      if (!this.eventSubscribers.delete(callback) || this.eventSubscribers.size > 0) return;
+      this.sendIfRunning({ type: 'forward_events', enabled: false });
+    };
+  }
+
+  /**
+   * Feed exchanges in the worker from a recording instead of their sockets,
+   * as websocketService.startReplay() does on this thread
+   */
+  startReplay(exchanges: string[]) {
+    this.replayExchanges = Array.from(new Set([...(this.replayExchanges ?? []), ...exchanges]));
+    this.sendIfRunning({ type: 'start_replay', exchanges });
+  }
+
+  /**
+   * Dispatch a recorded event in the worker. Events replayed together are
+   * posted as one batch.
+   */
+  replayEvent(event: MarketEvent) {
+    if (!this.replayExchanges?.includes(event.exchange)) {
+      throw new Error(`Exchange ${event.exchange} is not in replay`);
+    }
+    if (!this.worker) return;
+
+    this.pendingReplay.push(event);
+    if (this.pendingReplay.length === 1) {
+      queueMicrotask(() => this.flushReplay());
+    }
+  }
+
+  stopReplay() {
+    if (!this.replayExchanges) return;
+    this.flushReplay();
+    this.replayExchanges = null;
+    this.sendIfRunning({ type: 'stop_replay' });
+  }
+
+  /**
+   * Build bars and indicators for a series in the worker. Resolves once
+   * backfill has finished, with a function that stops the series.
+   */
+  async trackCandles(spec: SeriesSpec, callback: (series: SeriesView) => void): Promise<() => void> {
+    const id = this.nextSeriesId++;
+    const view: SeriesView = {
+      exchange: spec.exchange,
+      symbol: spec.symbol,
+      timeframe: spec.timeframe,
+      closed: [],
+      forming: null,
+      indicators: {},
+      barClosed: false
+    };
+    this.series.set(id, { view, callback });
+
+    try {
+      await this.request(requestId => ({ type: 'track', requestId, id, series: spec }));
+    } catch (error) {
+      this.series.delete(id);
+      throw error;
+    }
+
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+      this.series.delete(id);
+      this.send({ type: 'untrack', id });
+    };
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./marketWorker/marketData.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WorkerEvent>) => this.handleEvent(event.data);
+      this.worker.onerror = (error) => console.error('Market data worker error:', error);
+
+      // Recording and replay may have started before anything needed the worker
+      if (this.eventSubscribers.size > 0) {
+        this.sendIfRunning({ type: 'forward_events', enabled: true });
+      }
+      if (this.replayExchanges) {
+        this.sendIfRunning({ type: 'start_replay', exchanges: this.replayExchanges });
+      }
+    }
+    return this.worker;
+  }
+
+  private send(command: WorkerCommand) {
+    this.getWorker().postMessage(command);
+  }
+
+  /**
+   * For commands that only matter to a running worker, so recording or
+   * replaying does not start one
+   */
+  private sendIfRunning(command: WorkerCommand) {
+    this.worker?.postMessage(command);
+  }
+
+  private flushReplay() {
+    if (this.pendingReplay.length === 0) return;
+    const events = this.pendingReplay;
+    this.pendingReplay = [];
+    this.sendIfRunning({ type: 'replay_events', events });
+  }
+
+  private request(build: (requestId: number) => WorkerCommand): Promise<boolean> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.send(build(requestId));
+    });
+  }
+
+  private handleEvent(event: WorkerEvent) {
+    switch (event.type) {
+      case 'reply': {
+        const pending = this.pending.get(event.requestId);
+        if (!pending) return;
+        this.pending.delete(event.requestId);
+        if (event.error) {
+          pending.reject(new Error(event.error));
+        } else {
+          pending.resolve(event.ok);
+        }
+        break;
+      }
+      case 'history_request':
+        this.answerHistory(event.requestId, event.accountId, event.symbol, event.timeframe, event.limit);
+        break;
+      case 'snapshot':
+        this.applySnapshot(event.tickers, event.connections, event.series, event.events);
+        break;
+    }
+  }
+
+  /**
+   * Backfill goes through exchangeService here, where accounts are configured
+   */
+  private async answerHistory(requestId: number, accountId: string, symbol: string, timeframe: string, limit: number) {
+    try {
+      const candles = await exchangeService.getOHLCV(accountId, symbol, timeframe, limit);
+      this.send({ type: 'history', requestId, candles: candles.map(candle => ({ ...candle, symbol })) });
+    } catch (error) {
+      this.send({ type: 'history', requestId, error: error instanceof Error ? error.message : 'History request failed' });
+    }
+  }
+
+  private applySnapshot(tickers: TickerUpdate[], connections: ConnectionStatus[], series: SeriesSnapshot[], events: MarketEvent[]) {
+    connections.forEach(status => {
+      this.connections[status.exchange] = status;
+      feedHealthMonitor.recordConnectionState(status);
+      this.stateSubscribers.forEach(callback => {
+        try {
+          callback(status);
+        } catch (error) {
+          console.error('Error in connection state subscriber callback:', error);
+        }
+      });
+    });
+
+    const byExchange: Map<string, MarketData[]> = new Map();
+    tickers.forEach(({ exchange, receivedAt, ticker }) => {
+      feedHealthMonitor.recordEvent({ exchange, receivedAt, message: { type: 'ticker', ticker } });
+      if (!byExchange.has(exchange)) {
+        byExchange.set(exchange, []);
+      }
+      byExchange.get(exchange)!.push(ticker);
+    });
+    byExchange.forEach((updates, exchange) => {
+      this.tickerSubscribers.get(exchange)?.forEach(callback => {
+        try {
+          callback(updates);
+        } catch (error) {
+          console.error('Error in ticker subscriber callback:', error);
+        }
+      });
+    });
+
+    events.forEach(event => {
+      this.eventSubscribers.forEach(callback => {
+        try {
+          callback(event);
+        } catch (error) {
+          console.error('Error in market event subscriber callback:', error);
+        }
+      });
+    });
+
+    series.forEach(snapshot => {
+      const tracked = this.series.get(snapshot.id);
+      if (!tracked) return;
+
+      tracked.view = {
+        ...tracked.view,
+        closed: snapshot.closed ?? tracked.view.closed,
+        forming: snapshot.forming,
+        indicators: snapshot.indicators,
+        barClosed: snapshot.barClosed
+      };
+      try {
+        tracked.callback(tracked.view);
+      } catch (error) {
+        console.error('Error in candle series subscriber callback:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const marketDataWorker = new MarketDataWorkerClient();
+export { MarketDataWorkerClient };
+export type { SeriesView, SeriesSpec, IndicatorSpec };
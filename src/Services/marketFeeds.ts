@@ -0,0 +1,27 @@
+// src/services/marketFeeds.ts
+
+import { websocketService } from './websocketService';
+import type { MarketEvent } from './websocketService';
+import { marketDataWorker } from './marketDataWorker';
+
+/**
+ * A source of normalized market events that can be recorded and replayed
+ */
+interface MarketFeed {
+  subscribeToMarketEvents(callback: (event: MarketEvent) => void): () => void;
+  startReplay(exchanges: string[]): void;
+  replayEvent(event: MarketEvent): void;
+  stopReplay(): void;
+}
+
+/**
+ * Every websocketService instance the app runs, by the name recordings use:
+ * the UI thread's own, and the one inside the market data worker
+ */
+const marketFeeds: Record<string, MarketFeed> = {
+  main: websocketService,
+  worker: marketDataWorker
+};
+
+export { marketFeeds };
+export type { MarketFeed };
@@ -0,0 +1,185 @@
+// src/services/marketRecorder.ts
+
+import type { MarketEvent } from './websocketService';
+import { marketFeeds } from './marketFeeds';
+import type { MarketFeed } from './marketFeeds';
+
+/**
+ * Destination for recorded lines. Lines arrive in order, without newlines.
+ */
+interface RecordingSink {
+  write(line: string): void;
+  close(): Promise<void>;
+}
+
+interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: number;
+}
+
+// One event per line, keys shortened to keep long sessions small
+interface RecordedLine {
+  t: number; // receivedAt
+  x: string; // exchange
+  m: MarketEvent['message'];
+  f?: string; // Feed the event came from; replayed into every feed when absent
+}
+
+type RecordedEvent = MarketEvent & { feed?: string };
+
+const RECORDING_FORMAT = 'market-events';
+const RECORDING_VERSION = 1;
+
+function encodeEvent(event: MarketEvent, feed?: string): string {
+  const line: RecordedLine = { t: event.receivedAt, x: event.exchange, m: event.message };
+  if (feed !== undefined) {
+    line.f = feed;
+  }
+  return JSON.stringify(line);
+}
+
+/**
+ * Events from an NDJSON recording, in recorded order. The first line must be
+ * the header written by MarketRecorder.
+ */
+function parseRecording(text: string): RecordedEvent[] {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = JSON.parse(lines[0]) as Partial<RecordingHeader>;
+  if (header.format !== RECORDING_FORMAT) {
+    throw new Error('Not a market data recording');
+  }
+  if (header.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version}`);
+  }
+
+  return lines.slice(1).map((line, index) => {
+    try {
+      const { t, x, m, f } = JSON.parse(line) as RecordedLine;
+      return f === undefined ? { receivedAt: t, exchange: x, message: m } : { receivedAt: t, exchange: x, message: m, feed: f };
+    } catch {
+      throw new Error(`Malformed recording line ${index + 2}`);
+    }
+  });
+}
+
+/**
+ * Keeps the recording in memory, e.g. to offer it as a download
+ */
+class MemorySink implements RecordingSink {
+  private lines: string[] = [];
+
+  write(line: string) {
+    this.lines.push(line);
+  }
+
+  async close(): Promise<void> {}
+
+  toString(): string {
+    return this.lines.map(line => `${line}\n`).join('');
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toString()], { type: 'application/x-ndjson' });
+  }
+}
+
+/**
+ * Appends to a file, for scripts and tests run outside the browser. Lines are
+ * batched so a busy feed does not issue a write per message.
+ */
+class FileSink implements RecordingSink {
+  private pending: string[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+  private scheduled = false;
+
+  constructor(private path: string) {}
+
+  write(line: string) {
+    this.pending.push(line);
+    if (!this.scheduled) {
+      this.scheduled = true;
+      this.flushing = this.flushing.then(() => this.flush());
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flushing;
+  }
+
+  private async flush() {
+    this.scheduled = false;
+    const lines = this.pending;
+    this.pending = [];
+    if (lines.length === 0) return;
+
+    try {
+      const fs = await import('node:fs/promises');
+      await fs.appendFile(this.path, lines.map(line => `${line}\n`).join(''), 'utf8');
+    } catch (error) {
+      console.error(`Error writing recording to ${this.path}:`, error);
+    }
+  }
+}
+
+/**
+ * Records every normalized ticker, book and trade event the market feeds
+ * dispatch, with its receive time and feed, as NDJSON
+ */
+class MarketRecorder {
+  private sink: RecordingSink | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private count = 0;
+
+  constructor(private feeds: Record<string, MarketFeed> = marketFeeds) {}
+
+  /**
+   * Start writing events to sink, optionally only those from some exchanges
+   */
+  start(sink: RecordingSink, exchanges?: string[]) {
+    if (this.sink) {
+      throw new Error('Already recording');
+    }
+
+    const header: RecordingHeader = { format: RECORDING_FORMAT, version: RECORDING_VERSION, startedAt: Date.now() };
+    sink.write(JSON.stringify(header));
+    this.sink = sink;
+    this.count = 0;
+
+    const filter = exchanges ? new Set(exchanges) : null;
+    this.unsubscribers = Object.entries(this.feeds).map(([name, feed]) => feed.subscribeToMarketEvents(event => {
+      if (filter && !filter.has(event.exchange)) return;
+      sink.write(encodeEvent(event, name));
+      this.count++;
+    }));
+  }
+
+  /**
+   * Stop recording and wait for the sink to finish. Returns the number of events recorded.
+   */
+  async stop(): Promise<number> {
+    const sink = this.sink;
+    if (!sink) return 0;
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.sink = null;
+    await sink.close();
+    return this.count;
+  }
+
+  isRecording(): boolean {
+    return this.sink !== null;
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+}
+
+// Singleton instance
+export const marketRecorder = new MarketRecorder();
+export { MarketRecorder, MemorySink, FileSink, encodeEvent, parseRecording };
+export type { RecordingSink, RecordedEvent };
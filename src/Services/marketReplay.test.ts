@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./marketFeeds', () => ({ marketFeeds: {} }));
+
+import { MarketRecorder, MemorySink } from './marketRecorder';
+import { MarketReplay } from './marketReplay';
+import type { MarketFeed } from './marketFeeds';
+import type { MarketEvent } from './websocketService';
+import { FakeClock } from '../test/fakeClock';
+
+const T0 = Date.parse('2024-01-01T00:00:00Z');
+
+// A feed that records replay calls and lets the test emit live events
+class FakeFeed implements MarketFeed {
+  replayed: MarketEvent[] = [];
+  replaying: string[] | null = null;
+  private subscribers: Set<(event: MarketEvent) => void> = new Set();
+
+  subscribeToMarketEvents(callback: (event: MarketEvent) => void): () => void {
+    this.subscribers.add(callback);
+    return () => this.subscribers.delete(callback);
+  }
+
+  startReplay(exchanges: string[]) {
+    this.replaying = exchanges;
+  }
+
+  replayEvent(event: MarketEvent) {
+    this.replayed.push(event);
+  }
+
+  stopReplay() {
+    this.replaying = null;
+  }
+
+  emit(event: MarketEvent) {
+    this.subscribers.forEach(callback => callback(event));
+  }
+}
+
+const tick = (exchange: string, receivedAt: number, price: number): MarketEvent => ({
+  exchange,
+  receivedAt,
+  message: { type: 'ticker', ticker: { symbol: 'BTC/USD', price, volume: 1000, change: 0, timestamp: receivedAt } }
+});
+
+describe('MarketRecorder and MarketReplay', () => {
+  let main: FakeFeed;
+  let worker: FakeFeed;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    main = new FakeFeed();
+    worker = new FakeFeed();
+    clock = new FakeClock(T0);
+  });
+
+  it('records every feed and replays each event into the feed it came from', async () => {
+    const recorder = new MarketRecorder({ main, worker });
+    const sink = new MemorySink();
+    recorder.start(sink);
+    main.emit(tick('kraken', T0, 100));
+    worker.emit(tick('binance', T0 + 1000, 101));
+    expect(await recorder.stop()).toBe(2);
+
+    const replay = MarketReplay.fromRecording(sink.toString(), clock, { main, worker });
+    replay.play();
+    expect(main.replaying).toEqual(['kraken', 'binance']);
+    expect(worker.replaying).toEqual(['kraken', 'binance']);
+    expect(main.replayed).toEqual([tick('kraken', T0, 100)]);
+    expect(worker.replayed).toEqual([]);
+
+    clock.advance(1000);
+    expect(worker.replayed).toEqual([tick('binance', T0 + 1000, 101)]);
+    expect(replay.getProgress().state).toBe('finished');
+
+    replay.stop();
+    expect([main.replaying, worker.replaying]).toEqual([null, null]);
+  });
+
+  it('replays events without a feed into every feed', () => {
+    const recording = [
+      JSON.stringify({ format: 'market-events', version: 1, startedAt: T0 }),
+      JSON.stringify({ t: T0, x: 'kraken', m: tick('kraken', T0, 100).message })
+    ].join('\n');
+
+    MarketReplay.fromRecording(recording, clock, { main, worker }).step();
+    expect(main.replayed).toEqual([tick('kraken', T0, 100)]);
+    expect(worker.replayed).toEqual([tick('kraken', T0, 100)]);
+  });
+});
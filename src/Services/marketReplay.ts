@@ -0,0 +1,184 @@
+// src/services/marketReplay.ts
+
+import { parseRecording } from './marketRecorder';
+import type { RecordedEvent } from './marketRecorder';
+import { marketFeeds } from './marketFeeds';
+import type { MarketFeed } from './marketFeeds';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+interface ReplayProgress {
+  state: ReplayState;
+  position: number; // Events dispatched so far
+  length: number;
+  time: number | null; // Receive time of the last dispatched event
+  speed: number;
+}
+
+/**
+ * Plays a recording into the market feeds in place of their live sockets, so
+ * subscribers see the recorded stream. Each event goes back to the feed it was
+ * recorded from, or to every feed when the recording does not say. Plays in recorded time scaled by speed
+ * (1 for real time, Infinity for as fast as possible) or one event at a time.
+ */
+class MarketReplay {
+  private position = 0;
+  private state: ReplayState = 'idle';
+  private speed = 1;
+  private timer: TimerHandle | null = null;
+  private anchor: { wall: number; recorded: number } | null = null; // Maps recorded time to clock time while playing
+  private attached = false;
+  private subscribers: Set<(progress: ReplayProgress) => void> = new Set();
+
+  constructor(
+    private events: RecordedEvent[],
+    private clock: Clock = systemClock,
+    private feeds: Record<string, MarketFeed> = marketFeeds
+  ) {}
+
+  /**
+   * Replay for an NDJSON recording written by MarketRecorder
+   */
+  static fromRecording(text: string, clock: Clock = systemClock, feeds: Record<string, MarketFeed> = marketFeeds): MarketReplay {
+    return new MarketReplay(parseRecording(text), clock, feeds);
+  }
+
+  /**
+   * Start or resume playback at speed times recorded pace
+   */
+  play(speed: number = 1) {
+    if (!(speed > 0)) {
+      throw new Error('Replay speed must be positive');
+    }
+    if (this.position >= this.events.length) return;
+
+    this.clearTimer();
+    this.attach();
+    this.speed = speed;
+    this.anchor = { wall: this.clock.now(), recorded: this.events[this.position].receivedAt };
+    this.setState('playing');
+    this.advance();
+  }
+
+  pause() {
+    if (this.state !== 'playing') return;
+    this.clearTimer();
+    this.anchor = null;
+    this.setState('paused');
+  }
+
+  /**
+   * Dispatch the next count events now, pausing playback first
+   */
+  step(count: number = 1) {
+    this.pause();
+    this.attach();
+    for (let i = 0; i < count && this.position < this.events.length; i++) {
+      this.dispatchNext();
+    }
+    this.setState(this.position >= this.events.length ? 'finished' : 'paused');
+  }
+
+  /**
+   * End the replay and hand the exchanges back to their live sockets
+   */
+  stop() {
+    this.clearTimer();
+    this.anchor = null;
+    if (this.attached) {
+      Object.values(this.feeds).forEach(feed => feed.stopReplay());
+      this.attached = false;
+    }
+    this.position = 0;
+    this.setState('idle');
+  }
+
+  getProgress(): ReplayProgress {
+    return {
+      state: this.state,
+      position: this.position,
+      length: this.events.length,
+      time: this.position > 0 ? this.events[this.position - 1].receivedAt : null,
+      speed: this.speed
+    };
+  }
+
+  subscribe(callback: (progress: ReplayProgress) => void): () => void {
+    this.subscribers.add(callback);
+    return () => this.subscribers.delete(callback);
+  }
+
+  /**
+   * Every feed replays every recorded exchange, so no live socket mixes into the recorded stream
+   */
+  private attach() {
+    if (this.attached) return;
+    const exchanges = Array.from(new Set(this.events.map(event => event.exchange)));
+    Object.values(this.feeds).forEach(feed => feed.startReplay(exchanges));
+    this.attached = true;
+  }
+
+  /**
+   * Dispatch every event that is due, then wait for the next one
+   */
+  private advance() {
+    const anchor = this.anchor;
+    if (!anchor) return;
+
+    const dueAt = (event: RecordedEvent) => anchor.wall + (event.receivedAt - anchor.recorded) / this.speed;
+    while (this.position < this.events.length && dueAt(this.events[this.position]) <= this.clock.now()) {
+      this.dispatchNext();
+    }
+
+    if (this.position >= this.events.length) {
+      this.anchor = null;
+      this.setState('finished');
+      return;
+    }
+
+    this.notify();
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.advance();
+    }, Math.max(0, dueAt(this.events[this.position]) - this.clock.now()));
+  }
+
+  private dispatchNext() {
+    const { feed, ...event } = this.events[this.position++];
+    const targets = feed !== undefined && this.feeds[feed] ? [this.feeds[feed]] : Object.values(this.feeds);
+    targets.forEach(target => {
+      try {
+        target.replayEvent(event);
+      } catch (error) {
+        console.error('Error replaying market event:', error);
+      }
+    });
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setState(state: ReplayState) {
+    this.state = state;
+    this.notify();
+  }
+
+  private notify() {
+    const progress = this.getProgress();
+    this.subscribers.forEach(callback => {
+      try {
+        callback(progress);
+      } catch (error) {
+        console.error('Error in replay subscriber callback:', error);
+      }
+    });
+  }
+}
+
+export { MarketReplay };
+export type { ReplayState, ReplayProgress };
@@ -0,0 +1,221 @@
+// src/services/marketWorker/engine.ts
+import { websocketService } from '../websocketService';
+import type { MarketEvent } from '../websocketService';
+import { CandleBuilder } from '../candleBuilder';
+import type { CandleEvent } from '../candleBuilder';
+import type { MarketData as Candle } from '../strategyEngine';
+import { computeIndicators } from './indicators';
+import { DEFAULT_FLUSH_INTERVAL_MS } from './protocol';
+import type { SeriesSnapshot, SeriesSpec, TickerUpdate, WorkerCommand, WorkerEvent } from './protocol';
+import { Clock, TimerHandle, systemClock } from '../../utils/clock';
+
+interface TrackedSeries {
+  id: number;
+  spec: SeriesSpec;
+  release: (() => void) | null; // Null until backfill finishes
+  dirty: boolean; // Changed since the last snapshot
+  closedChanged: boolean; // A bar closed, or history arrived, since the last snapshot
+  barClosed: boolean;
+}
+
+interface PendingHistory {
+  resolve: (candles: Candle[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Everything the market data worker does, apart from the message port: runs
+ * the worker's own websocketService and candle builder, computes indicators
+ * for tracked series, and posts what changed as one snapshot per flush
+ * interval. Backfill is requested from the UI thread, where the exchange
+ * accounts live; recording and replay are driven from there too.
+ */
+class MarketDataEngine {
+  private series: Map<number, TrackedSeries> = new Map();
+  private tickers: Map<string, TickerUpdate> = new Map(); // Latest per exchange and symbol since the last snapshot
+  private connectionsChanged = false;
+  private forwardEvents = false;
+  private events: MarketEvent[] = []; // Every market event since the last snapshot, while forwarding
+  private flushTimer: TimerHandle | null = null;
+  private flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS;
+  private pendingHistory: Map<number, PendingHistory> = new Map();
+  private nextHistoryId = 1;
+  private candles: CandleBuilder;
+
+  constructor(private post: (event: WorkerEvent) => void, private clock: Clock = systemClock) {
+    this.candles = new CandleBuilder(clock, (accountId, symbol, timeframe, limit) => this.requestHistory(accountId, symbol, timeframe, limit));
+    this.candles.subscribe(event => this.handleCandle(event));
+
+    websocketService.subscribeToMarketEvents(event => {
+      const { exchange, receivedAt, message } = event;
+      if (this.forwardEvents) {
+        this.events.push(event);
+        this.scheduleFlush();
+      }
+      if (message.type !== 'ticker') return;
+      this.tickers.set(`${exchange}:${message.ticker.symbol}`, { exchange, receivedAt, ticker: message.ticker });
+      this.scheduleFlush();
+    });
+    websocketService.subscribeToConnectionState(() => {
+      this.connectionsChanged = true;
+      this.scheduleFlush();
+    });
+  }
+
+  handle(command: WorkerCommand) {
+    switch (command.type) {
+      case 'connect':
+        websocketService.connect(command.exchange, command.symbols).then(
+          ok => this.post({ type: 'reply', requestId: command.requestId, ok }),
+          error => this.post({ type: 'reply', requestId: command.requestId, ok: false, error: this.describe(error) })
+        );
+        break;
+      case 'disconnect':
+        websocketService.disconnect(command.exchange);
+        break;
+      case 'disconnect_all':
+        websocketService.disconnectAll();
+        break;
+      case 'track':
+        this.track(command.requestId, command.id, command.series);
+        break;
+      case 'untrack':
+        this.untrack(command.id);
+        break;
+      case 'history':
+        this.resolveHistory(command.requestId, command.candles, command.error);
+        break;
+      case 'configure':
+        this.flushIntervalMs = command.flushIntervalMs;
+        break;
+      case 'forward_events':
+        this.forwardEvents = command.enabled;
+        if (!command.enabled) {
+          this.events = [];
+        }
+        break;
+      case 'start_replay':
+        websocketService.startReplay(command.exchanges);
+        break;
+      case 'replay_events':
+        command.events.forEach(event => {
+          try {
+            websocketService.replayEvent(event);
+          } catch (error) {
+            console.error('Error replaying market event in worker:', error);
+          }
+        });
+        break;
+      case 'stop_replay':
+        websocketService.stopReplay();
+        break;
+    }
+  }
+
+  private async track(requestId: number, id: number, spec: SeriesSpec) {
+    const tracked: TrackedSeries = { id, spec, release: null, dirty: false, closedChanged: false, barClosed: false };
+    this.series.set(id, tracked);
+
+    try {
+      const release = await this.candles.track(spec);
+      // Untracked while the backfill was in flight
+      if (this.series.get(id) !== tracked) {
+        release();
+      } else {
+        tracked.release = release;
+        tracked.dirty = tracked.closedChanged = true;
+        this.scheduleFlush();
+      }
+      this.post({ type: 'reply', requestId, ok: true });
+    } catch (error) {
+      this.series.delete(id);
+      this.post({ type: 'reply', requestId, ok: false, error: this.describe(error) });
+    }
+  }
+
+  private untrack(id: number) {
+    const tracked = this.series.get(id);
+    if (!tracked) return;
+    this.series.delete(id);
+    tracked.release?.();
+  }
+
+  private handleCandle(event: CandleEvent) {
+    this.series.forEach(tracked => {
+      const { exchange, symbol, timeframe } = tracked.spec;
+      if (!tracked.release || exchange !== event.exchange || symbol !== event.symbol || timeframe !== event.timeframe) return;
+      tracked.dirty = true;
+      if (event.type === 'bar_closed') {
+        tracked.closedChanged = tracked.barClosed = true;
+      }
+      this.scheduleFlush();
+    });
+  }
+
+  private requestHistory(accountId: string, symbol: string, timeframe: string, limit: number): Promise<Candle[]> {
+    return new Promise((resolve, reject) => {
+      const requestId = this.nextHistoryId++;
+      this.pendingHistory.set(requestId, { resolve, reject });
+      this.post({ type: 'history_request', requestId, accountId, symbol, timeframe, limit });
+    });
+  }
+
+  private resolveHistory(requestId: number, candles?: Candle[], error?: string) {
+    const pending = this.pendingHistory.get(requestId);
+    if (!pending) return;
+    this.pendingHistory.delete(requestId);
+
+    if (candles) {
+      pending.resolve(candles);
+    } else {
+      pending.reject(new Error(error || 'History request failed'));
+    }
+  }
+
+  /**
+   * Changes are held until the interval elapses, so a busy feed costs the UI one message per interval
+   */
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = this.clock.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.flushIntervalMs);
+  }
+
+  private flush() {
+    const series: SeriesSnapshot[] = [];
+    this.series.forEach(tracked => {
+      if (!tracked.dirty) return;
+      const { exchange, symbol, timeframe, indicators } = tracked.spec;
+      const candles = this.candles.getCandles(exchange, symbol, timeframe, true);
+      const closed = this.candles.getCandles(exchange, symbol, timeframe);
+      const forming = candles.length > closed.length ? candles[candles.length - 1] : null;
+
+      series.push({
+        id: tracked.id,
+        closed: tracked.closedChanged ? closed : null,
+        barClosed: tracked.barClosed,
+        forming,
+        indicators: indicators ? computeIndicators(candles, indicators) : {}
+      });
+      tracked.dirty = tracked.closedChanged = tracked.barClosed = false;
+    });
+
+    const tickers = Array.from(this.tickers.values());
+    this.tickers.clear();
+    const connections = this.connectionsChanged ? Object.values(websocketService.getConnectionStates()) : [];
+    this.connectionsChanged = false;
+    const events = this.events;
+    this.events = [];
+
+    if (tickers.length === 0 && connections.length === 0 && series.length === 0 && events.length === 0) return;
+    this.post({ type: 'snapshot', tickers, connections, series, events });
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export { MarketDataEngine };
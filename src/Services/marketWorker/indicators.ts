@@ -0,0 +1,48 @@
+// src/services/marketWorker/indicators.ts
+import { TechnicalIndicators } from '../../utils/technicalIndicators';
+import type { MarketData as Candle } from '../strategyEngine';
+import type { IndicatorSpec, IndicatorValue } from './protocol';
+
+const last = <T>(values: T[]): T | null => values.length > 0 ? values[values.length - 1] : null;
+
+/**
+ * Latest value of each indicator over candles, null where there are too few bars
+ */
+export function computeIndicators(candles: Candle[], specs: IndicatorSpec[]): Record<string, IndicatorValue> {
+  const closes = candles.map(candle => candle.close);
+  const highs = candles.map(candle => candle.high);
+  const lows = candles.map(candle => candle.low);
+
+  const values: Record<string, IndicatorValue> = {};
+  specs.forEach(({ key, kind, period }) => {
+    try {
+      switch (kind) {
+        case 'sma':
+          values[key] = last(TechnicalIndicators.sma(closes, period ?? 20));
+          break;
+        case 'ema':
+          values[key] = last(TechnicalIndicators.ema(closes, period ?? 20));
+          break;
+        case 'rsi':
+          values[key] = last(TechnicalIndicators.rsi(closes, period));
+          break;
+        case 'macd':
+          values[key] = last(TechnicalIndicators.macd(closes));
+          break;
+        case 'bollingerBands':
+          values[key] = last(TechnicalIndicators.bollingerBands(closes, period));
+          break;
+        case 'atr':
+          values[key] = last(TechnicalIndicators.atr(highs, lows, closes, period));
+          break;
+        case 'stochastic':
+          values[key] = last(TechnicalIndicators.stochastic(highs, lows, closes, period));
+          break;
+      }
+    } catch (error) {
+      console.error(`Error computing indicator ${key}:`, error);
+      values[key] = null;
+    }
+  });
+  return values;
+}
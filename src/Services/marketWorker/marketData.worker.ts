@@ -0,0 +1,19 @@
+// src/services/marketWorker/marketData.worker.ts
+import { MarketDataEngine } from './engine';
+import type { WorkerCommand, WorkerEvent } from './protocol';
+
+// Typed view of the dedicated worker global; the app compiles against the DOM lib only
+const scope = self as unknown as {
+  postMessage(event: WorkerEvent): void;
+  onmessage: ((event: MessageEvent<WorkerCommand>) => void) | null;
+};
+
+const engine = new MarketDataEngine(event => scope.postMessage(event));
+
+scope.onmessage = event => {
+  try {
+    engine.handle(event.data);
+  } catch (error) {
+    console.error('Error handling market data worker command:', error);
+  }
+};
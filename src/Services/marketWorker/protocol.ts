@@ -0,0 +1,79 @@
+// src/services/marketWorker/protocol.ts
+import type { MarketData as TickerData } from '../decoders/types';
+import type { MarketData as Candle } from '../strategyEngine';
+import type { ConnectionStatus, MarketEvent } from '../websocketService';
+import type { BollingerBandsResult, MACDResult, StochasticResult } from '../../utils/technicalIndicators';
+
+/*
+ * Messages between the UI thread and the market data worker. The worker owns
+ * the exchange sockets, decoding, candle building and indicator maths; the UI
+ * sends commands and receives a batched snapshot at most every flush interval.
+ * Commands that carry a requestId are answered with a reply of the same id.
+ * For recording, the worker forwards every market event it dispatches; for
+ * replay, it takes recorded events in place of its sockets.
+ */
+
+type IndicatorKind = 'sma' | 'ema' | 'rsi' | 'macd' | 'bollingerBands' | 'atr' | 'stochastic';
+
+interface IndicatorSpec {
+  key: string; // Name the value is reported under, e.g. "rsi14"
+  kind: IndicatorKind;
+  period?: number; // Library default when omitted; MACD always uses 12/26/9
+}
+
+type IndicatorValue = number | MACDResult | BollingerBandsResult | StochasticResult | null;
+
+interface SeriesSpec {
+  exchange: string;
+  symbol: string;
+  timeframe: string;
+  accountId?: string; // Account backfill is fetched through, defaults to the exchange name
+  history?: number;
+  indicators?: IndicatorSpec[];
+}
+
+interface TickerUpdate {
+  exchange: string;
+  receivedAt: number;
+  ticker: TickerData;
+}
+
+interface SeriesSnapshot {
+  id: number;
+  closed: Candle[] | null; // Full closed history, only when it changed since the last snapshot
+  barClosed: boolean; // A bar closed since the last snapshot, as opposed to backfill arriving
+  forming: Candle | null;
+  indicators: Record<string, IndicatorValue>; // Latest value, over closed bars and the forming bar
+}
+
+type WorkerCommand =
+  | { type: 'connect'; requestId: number; exchange: string; symbols: string[] }
+  | { type: 'disconnect'; exchange: string }
+  | { type: 'disconnect_all' }
+  | { type: 'track'; requestId: number; id: number; series: SeriesSpec }
+  | { type: 'untrack'; id: number }
+  | { type: 'history'; requestId: number; candles?: Candle[]; error?: string }
+  | { type: 'configure'; flushIntervalMs: number }
+  | { type: 'forward_events'; enabled: boolean }
+  | { type: 'start_replay'; exchanges: string[] }
+  | { type: 'replay_events'; events: MarketEvent[] }
+  | { type: 'stop_replay' };
+
+type WorkerEvent =
+  | { type: 'reply'; requestId: number; ok: boolean; error?: string }
+  | { type: 'history_request'; requestId: number; accountId: string; symbol: string; timeframe: string; limit: number }
+  | { type: 'snapshot'; tickers: TickerUpdate[]; connections: ConnectionStatus[]; series: SeriesSnapshot[]; events: MarketEvent[] }; // Events only while forwarding
+
+const DEFAULT_FLUSH_INTERVAL_MS = 250;
+
+export { DEFAULT_FLUSH_INTERVAL_MS };
+export type {
+  IndicatorKind,
+  IndicatorSpec,
+  IndicatorValue,
+  SeriesSpec,
+  TickerUpdate,
+  SeriesSnapshot,
+  WorkerCommand,
+  WorkerEvent
+};
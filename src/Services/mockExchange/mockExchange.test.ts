@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { MockExchangeServer } from './server';
+import { disconnectAndRecover, malformedFrames, sequenceGap, steadyFeed } from './scenarios';
+import type { MockVenueName } from './venues';
+import { WebSocketService } from '../websocketService';
+import type { FeedGap, MarketData, TradePrint } from '../websocketService';
+
+const VENUES: MockVenueName[] = ['binance', 'kraken', 'coinbase'];
+const SYMBOL = 'BTC/USD';
+const WAIT = { timeout: 5000, interval: 10 };
+
+describe.each(VENUES)('WebSocketService against the mock %s stream', venue => {
+  let server: MockExchangeServer;
+  let service: WebSocketService;
+
+  beforeEach(async () => {
+    // Node has no global WebSocket; the service gets the same client ws serves
+    vi.stubGlobal('WebSocket', WebSocket);
+    server = new MockExchangeServer({ heartbeatIntervalMs: 100 });
+    await server.start();
+    service = new WebSocketService();
+    service.registerVenue(venue, server.decoderFor(venue), { baseReconnectDelay: 50, maxReconnectDelay: 200 });
+  });
+
+  afterEach(async () => {
+    service.disconnectAll();
+    await server.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('parses tickers, trades and the book from a steady feed', async () => {
+    const tickers: MarketData[] = [];
+    const prints: TradePrint[] = [];
+    service.subscribe(venue, SYMBOL, data => tickers.push(data));
+    service.subscribeToTradePrints(venue, SYMBOL, print => prints.push(print));
+    service.subscribeToTrades(venue, [SYMBOL]);
+    service.subscribeToDepth(venue, [SYMBOL]);
+    await service.connect(venue);
+
+    await server.run(steadyFeed(venue, SYMBOL));
+
+    await vi.waitFor(() => expect(tickers.map(ticker => ticker.price)).toEqual([100, 102]), WAIT);
+    await vi.waitFor(() => expect(prints.map(({ price, size, side }) => ({ price, size, side }))).toEqual([
+      { price: 100, size: 0.25, side: 'buy' },
+      { price: 102, size: 0.1, side: 'sell' }
+    ]), WAIT);
+    await vi.waitFor(() => expect(service.getOrderBook(venue, SYMBOL, 2)).toMatchObject({
+      bids: [{ price: 99, size: 2 }, { price: 98, size: 1 }],
+      asks: [{ price: 102, size: 1 }, { price: 103, size: 1.5 }]
+    }), WAIT);
+  });
+
+  it('reconnects and resubscribes after the venue drops the connection', async () => {
+    const tickers: MarketData[] = [];
+    service.subscribe(venue, SYMBOL, data => tickers.push(data));
+    await service.connect(venue);
+
+    await server.run(disconnectAndRecover(venue, SYMBOL, 300));
+
+    await vi.waitFor(() => expect(tickers.map(ticker => ticker.price)).toEqual([100, 101]), WAIT);
+    expect(server.getConnectionCount(venue)).toBeGreaterThanOrEqual(2);
+    expect(service.isConnected(venue)).toBe(true);
+  });
+
+  it('drops malformed frames and keeps parsing', async () => {
+    const tickers: MarketData[] = [];
+    service.subscribe(venue, SYMBOL, data => tickers.push(data));
+    await service.connect(venue);
+
+    await server.run(malformedFrames(venue, SYMBOL));
+
+    await vi.waitFor(() => expect(tickers.map(ticker => ticker.price)).toEqual([100]), WAIT);
+    expect(server.getConnectionCount(venue)).toBe(1);
+  });
+
+  it('resyncs the book after an update it cannot apply', async () => {
+    const gaps: FeedGap[] = [];
+    service.subscribeToFeedGaps(gap => gaps.push(gap));
+    service.subscribeToDepth(venue, [SYMBOL]);
+    await service.connect(venue);
+
+    await server.run(sequenceGap(venue, SYMBOL));
+
+    await vi.waitFor(() => expect(service.getOrderBook(venue, SYMBOL, 2)).toMatchObject({
+      bids: [{ price: 99, size: 3 }, { price: 98, size: 5 }],
+      asks: [{ price: 101, size: 4 }, { price: 102, size: 1 }]
+    }), WAIT);
+    expect(gaps).toEqual([expect.objectContaining({ exchange: venue, symbol: SYMBOL })]);
+  });
+});
@@ -0,0 +1,125 @@
+// src/services/mockExchange/scenarios.ts
+import type { StreamChannel } from '../decoders/types';
+import type { MockVenueName } from './venues';
+
+type Level = [number, number]; // [price, size]; size 0 removes the level
+
+/*
+ * Steps address venues and canonical symbols; the server encodes each one in
+ * the venue's own protocol and sends it to every client subscribed to the
+ * symbol on that channel.
+ */
+type ScenarioStep =
+  | { type: 'ticker'; venue: MockVenueName; symbol: string; price: number; volume?: number; change?: number }
+  | { type: 'trade'; venue: MockVenueName; symbol: string; price: number; size: number; side: 'buy' | 'sell' }
+  | { type: 'book'; venue: MockVenueName; symbol: string; bids: Level[]; asks: Level[] } // Replaces the venue's book; Binance subscribers get the difference as an update
+  | { type: 'book_update'; venue: MockVenueName; symbol: string; bids?: Level[]; asks?: Level[]; corrupt?: boolean } // Corrupt updates look like a missed message to the client
+  | { type: 'raw'; venue: MockVenueName; frame: string } // Sent as is, e.g. malformed frames
+  | { type: 'flood'; venue: MockVenueName; symbol: string; count: number; price: number } // Tickers back to back with no pause
+  | { type: 'disconnect'; venue: MockVenueName; refuseMs?: number } // Drop every connection, optionally refusing new ones for a while
+  | { type: 'stall'; venue: MockVenueName; ms: number } // Send nothing, not even pongs or heartbeats
+  | { type: 'await_subscription'; venue: MockVenueName; channel: StreamChannel; symbol: string; timeoutMs?: number }
+  | { type: 'wait'; ms: number };
+
+interface Scenario {
+  name: string;
+  steps: ScenarioStep[];
+}
+
+const sampleBook = (mid: number): { bids: Level[]; asks: Level[] } => ({
+  bids: [1, 2, 3, 4, 5].map(offset => [mid - offset, offset * 0.5] as Level),
+  asks: [1, 2, 3, 4, 5].map(offset => [mid + offset, offset * 0.5] as Level)
+});
+
+/**
+ * Tickers, a book with a few updates and trades, once the client has subscribed
+ */
+function steadyFeed(venue: MockVenueName, symbol: string, price: number = 100): Scenario {
+  return {
+    name: 'steady feed',
+    steps: [
+      { type: 'await_subscription', venue, channel: 'ticker', symbol },
+      { type: 'book', venue, symbol, ...sampleBook(price) },
+      { type: 'ticker', venue, symbol, price, volume: 1000, change: 1.5 },
+      { type: 'book_update', venue, symbol, bids: [[price - 1, 2]] },
+      { type: 'trade', venue, symbol, price, size: 0.25, side: 'buy' },
+      { type: 'book_update', venue, symbol, asks: [[price + 1, 0]] },
+      { type: 'trade', venue, symbol, price: price + 2, size: 0.1, side: 'sell' },
+      { type: 'ticker', venue, symbol, price: price + 2, volume: 1000.35, change: 3.5 }
+    ]
+  };
+}
+
+/**
+ * The venue drops the connection and refuses to take it back for a while;
+ * the client should retry, reconnect and resubscribe before the last ticker
+ */
+function disconnectAndRecover(venue: MockVenueName, symbol: string, refuseMs: number = 1000): Scenario {
+  return {
+    name: 'disconnect and recover',
+    steps: [
+      { type: 'await_subscription', venue, channel: 'ticker', symbol },
+      { type: 'ticker', venue, symbol, price: 100 },
+      { type: 'disconnect', venue, refuseMs },
+      { type: 'await_subscription', venue, channel: 'ticker', symbol, timeoutMs: refuseMs + 30000 },
+      { type: 'ticker', venue, symbol, price: 101 }
+    ]
+  };
+}
+
+/**
+ * Garbage between good frames; the client should drop it and keep going
+ */
+function malformedFrames(venue: MockVenueName, symbol: string): Scenario {
+  return {
+    name: 'malformed frames',
+    steps: [
+      { type: 'await_subscription', venue, channel: 'ticker', symbol },
+      { type: 'raw', venue, frame: '{"truncated": ' },
+      { type: 'raw', venue, frame: 'not json at all' },
+      { type: 'raw', venue, frame: '[]' },
+      { type: 'raw', venue, frame: '{"e":"24hrTicker","s":42}' },
+      { type: 'ticker', venue, symbol, price: 100 }
+    ]
+  };
+}
+
+/**
+ * A book update the client cannot apply cleanly: a skipped sequence on
+ * Binance, a bad checksum on Kraken, a crossing level on Coinbase. The
+ * client should resync and end up with the venue's book.
+ */
+function sequenceGap(venue: MockVenueName, symbol: string, price: number = 100): Scenario {
+  return {
+    name: 'sequence gap',
+    steps: [
+      { type: 'book', venue, symbol, ...sampleBook(price) },
+      { type: 'await_subscription', venue, channel: 'depth', symbol },
+      { type: 'wait', ms: 200 },
+      { type: 'book_update', venue, symbol, bids: [[price - 1, 3]] },
+      { type: 'book_update', venue, symbol, asks: [[price + 1, 4]], corrupt: true },
+      { type: 'wait', ms: 200 },
+      { type: 'book_update', venue, symbol, bids: [[price - 2, 5]] }
+    ]
+  };
+}
+
+/**
+ * A burst far faster than a browser tab renders. With the server's
+ * maxBufferedBytes set, a client that cannot keep up is cut off the way
+ * venues cut off slow consumers. Over loopback the burst has to outgrow the
+ * kernel's socket buffers first, hence the default size.
+ */
+function slowConsumer(venue: MockVenueName, symbol: string, count: number = 50000): Scenario {
+  return {
+    name: 'slow consumer',
+    steps: [
+      { type: 'await_subscription', venue, channel: 'ticker', symbol },
+      { type: 'flood', venue, symbol, count, price: 100 },
+      { type: 'ticker', venue, symbol, price: 200 }
+    ]
+  };
+}
+
+export { steadyFeed, disconnectAndRecover, malformedFrames, sequenceGap, slowConsumer };
+export type { Scenario, ScenarioStep, Level };
@@ -0,0 +1,404 @@
+// src/services/mockExchange/server.ts
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { symbolRegistry } from '../symbolRegistry';
+import { LocalOrderBook } from '../orderBook';
+import type { RawLevel } from '../orderBook';
+import type { StreamChannel, VenueDecoder } from '../decoders/types';
+import { createBinanceDecoder } from '../decoders/binance';
+import { krakenDecoder } from '../decoders/kraken';
+import { coinbaseDecoder } from '../decoders/coinbase';
+import { MOCK_VENUES } from './venues';
+import type { MockVenueName } from './venues';
+import type { Level, Scenario, ScenarioStep } from './scenarios';
+
+interface MockExchangeOptions {
+  port?: number; // 0 picks a free port
+  heartbeatIntervalMs?: number; // For venues that send heartbeats rather than answer pings
+  maxBufferedBytes?: number; // Unsent bytes after which a client is cut off as a slow consumer
+}
+
+interface MockClient {
+  venue: MockVenueName;
+  ws: WebSocket;
+  subscriptions: Map<StreamChannel, Set<string>>; // Native symbols
+  heartbeats: Set<string>;
+}
+
+interface MockBook {
+  book: LocalOrderBook;
+  sequence: number;
+}
+
+interface VenueState {
+  refuseUntil: number;
+  stallUntil: number;
+  connections: number; // Accepted since start
+  received: string[]; // Every client frame, in order
+  books: Map<string, MockBook>; // By native symbol
+}
+
+const DEFAULT_OPTIONS: Required<MockExchangeOptions> = {
+  port: 0,
+  heartbeatIntervalMs: 1000,
+  maxBufferedBytes: 0
+};
+
+const SLOW_CONSUMER_CODE = 1008;
+const SUBSCRIPTION_POLL_MS = 10;
+const DEFAULT_SUBSCRIPTION_TIMEOUT_MS = 5000;
+
+const toLevels = (levels: Level[] = []): RawLevel[] => levels.map(([price, size]) => [String(price), String(size)]);
+
+/**
+ * Stand-in for the Binance, Kraken and Coinbase public streams, served from
+ * one local port at ws://host:port/<venue>, plus Binance's REST depth
+ * snapshot. Runs under Node, for integration tests and for pointing the app
+ * at a scripted market. Scenarios drive what is sent; the server answers
+ * subscriptions and pings itself and records everything clients send.
+ */
+class MockExchangeServer {
+  private http: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private clients: Set<MockClient> = new Set();
+  private venues: Map<MockVenueName, VenueState> = new Map();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private nextTradeId = 1;
+  private options: Required<MockExchangeOptions>;
+
+  constructor(options: MockExchangeOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    (Object.keys(MOCK_VENUES) as MockVenueName[]).forEach(venue => {
+      this.venues.set(venue, { refuseUntil: 0, stallUntil: 0, connections: 0, received: [], books: new Map() });
+    });
+  }
+
+  /**
+   * Listen on 127.0.0.1. Resolves with the port.
+   */
+  async start(): Promise<number> {
+    if (this.http) {
+      throw new Error('Mock exchange already started');
+    }
+
+    const http = createServer((request, response) => this.handleRest(request, response));
+    const wss = new WebSocketServer({ noServer: true });
+    http.on('upgrade', (request, socket, head) => {
+      const venue = this.venueFromPath(request.url);
+      if (!venue || Date.now() < this.venues.get(venue)!.refuseUntil) {
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(request, socket, head, ws => this.handleConnection(venue, ws));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject);
+      http.listen(this.options.port, '127.0.0.1', () => resolve());
+    });
+    this.http = http;
+    this.wss = wss;
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), this.options.heartbeatIntervalMs);
+    return (http.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clients.forEach(client => client.ws.terminate());
+    this.clients.clear();
+    this.wss?.close();
+    this.wss = null;
+
+    const http = this.http;
+    this.http = null;
+    if (http) {
+      await new Promise<void>(resolve => http.close(() => resolve()));
+    }
+  }
+
+  url(venue: MockVenueName): string {
+    return `ws://127.0.0.1:${this.port()}/${venue}`;
+  }
+
+  /**
+   * The venue's decoder with its endpoints pointed here, for websocketService.registerVenue()
+   */
+  decoderFor(venue: MockVenueName): VenueDecoder {
+    switch (venue) {
+      case 'binance':
+        return createBinanceDecoder(this.url(venue), `http://127.0.0.1:${this.port()}/binance`);
+      case 'kraken':
+        return { ...krakenDecoder, url: this.url(venue) };
+      case 'coinbase':
+        return { ...coinbaseDecoder, url: this.url(venue) };
+    }
+  }
+
+  /**
+   * Run a scenario's steps in order. Rejects if a step cannot complete, e.g. a subscription never arrives.
+   */
+  async run(scenario: Scenario): Promise<void> {
+    for (const step of scenario.steps) {
+      try {
+        await this.runStep(step);
+      } catch (error) {
+        throw new Error(`Scenario "${scenario.name}" failed at ${step.type}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  /**
+   * Run a single step, outside any scenario
+   */
+  async runStep(step: ScenarioStep): Promise<void> {
+    switch (step.type) {
+      case 'ticker':
+        this.broadcast(step.venue, 'ticker', step.symbol, native => MOCK_VENUES[step.venue].ticker(native, {
+          price: step.price,
+          volume: step.volume ?? 0,
+          change: step.change ?? 0,
+          timestamp: Date.now()
+        }));
+        break;
+
+      case 'trade': {
+        const trade = { tradeId: this.nextTradeId++, price: step.price, size: step.size, side: step.side, timestamp: Date.now() };
+        this.broadcast(step.venue, 'trades', step.symbol, native => MOCK_VENUES[step.venue].trade(native, trade));
+        break;
+      }
+
+      case 'book':
+        this.replaceBook(step.venue, step.symbol, toLevels(step.bids), toLevels(step.asks));
+        break;
+
+      case 'book_update':
+        this.sendBookUpdate(step.venue, step.symbol, toLevels(step.bids), toLevels(step.asks), step.corrupt ?? false);
+        break;
+
+      case 'raw':
+        this.clientsOf(step.venue).forEach(client => this.send(client, step.frame));
+        break;
+
+      case 'flood':
+        for (let i = 0; i < step.count; i++) {
+          await this.runStep({ type: 'ticker', venue: step.venue, symbol: step.symbol, price: step.price + i * 0.01 });
+        }
+        break;
+
+      case 'disconnect':
+        this.venues.get(step.venue)!.refuseUntil = Date.now() + (step.refuseMs ?? 0);
+        this.clientsOf(step.venue).forEach(client => {
+          // Forgotten now rather than on close, so later steps only see new connections
+          this.clients.delete(client);
+          client.ws.terminate();
+        });
+        break;
+
+      case 'stall':
+        this.venues.get(step.venue)!.stallUntil = Date.now() + step.ms;
+        break;
+
+      case 'await_subscription':
+        await this.awaitSubscription(step.venue, step.channel, step.symbol, step.timeoutMs ?? DEFAULT_SUBSCRIPTION_TIMEOUT_MS);
+        break;
+
+      case 'wait':
+        await new Promise(resolve => setTimeout(resolve, step.ms));
+        break;
+    }
+  }
+
+  /**
+   * Whether any client is subscribed to symbol on the venue's channel
+   */
+  isSubscribed(venue: MockVenueName, channel: StreamChannel, symbol: string): boolean {
+    const native = symbolRegistry.toNative(venue, symbol);
+    return this.clientsOf(venue).some(client => client.subscriptions.get(channel)?.has(native));
+  }
+
+  /**
+   * Connections accepted for the venue since start
+   */
+  getConnectionCount(venue: MockVenueName): number {
+    return this.venues.get(venue)!.connections;
+  }
+
+  /**
+   * Every frame clients have sent to the venue, in order
+   */
+  getReceived(venue: MockVenueName): string[] {
+    return [...this.venues.get(venue)!.received];
+  }
+
+  private port(): number {
+    if (!this.http) {
+      throw new Error('Mock exchange not started');
+    }
+    return (this.http.address() as AddressInfo).port;
+  }
+
+  private venueFromPath(path: string | undefined): MockVenueName | null {
+    const name = (path || '').split(/[/?]/)[1];
+    return Object.keys(MOCK_VENUES).includes(name) ? name as MockVenueName : null;
+  }
+
+  private handleConnection(venue: MockVenueName, ws: WebSocket) {
+    const client: MockClient = { venue, ws, subscriptions: new Map(), heartbeats: new Set() };
+    this.clients.add(client);
+    this.venues.get(venue)!.connections++;
+
+    ws.on('message', data => this.handleClientFrame(client, String(data)));
+    ws.on('close', () => this.clients.delete(client));
+    ws.on('error', error => console.error(`Mock ${venue} client error:`, error));
+  }
+
+  private handleClientFrame(client: MockClient, frame: string) {
+    const state = this.venues.get(client.venue)!;
+    state.received.push(frame);
+
+    const protocol = MOCK_VENUES[client.venue];
+    const request = protocol.parseRequest(frame);
+
+    if (request.heartbeat) {
+      (request.natives || []).forEach(native => client.heartbeats.add(native));
+    }
+    if (request.channel && request.natives) {
+      const subscribed = client.subscriptions.get(request.channel) || new Set<string>();
+      request.natives.forEach(native => request.subscribe ? subscribed.add(native) : subscribed.delete(native));
+      client.subscriptions.set(request.channel, subscribed);
+    }
+
+    request.replies.forEach(reply => this.send(client, reply));
+
+    // Book subscriptions start with a snapshot where the venue streams one
+    if (request.channel === 'depth' && request.subscribe) {
+      (request.natives || []).forEach(native => {
+        const mock = state.books.get(native);
+        const snapshot = mock && protocol.bookSnapshot(native, mock.book);
+        if (snapshot) {
+          this.send(client, snapshot);
+        }
+      });
+    }
+  }
+
+  /**
+   * Binance's depth snapshot endpoint, /binance/api/v3/depth?symbol=
+   */
+  private handleRest(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+    const native = url.searchParams.get('symbol');
+
+    if (url.pathname !== '/binance/api/v3/depth' || !native) {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ code: -1121, msg: 'Invalid symbol.' }));
+      return;
+    }
+
+    // Every symbol has a book, empty until a scenario fills it
+    const mock = this.getBook('binance', native);
+    const side = (name: 'bid' | 'ask') => mock.book.entries(name).map(entry => [entry.priceText, entry.sizeText]);
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ lastUpdateId: mock.sequence, bids: side('bid'), asks: side('ask') }));
+  }
+
+  private getBook(venue: MockVenueName, native: string): MockBook {
+    const books = this.venues.get(venue)!.books;
+    let mock = books.get(native);
+    if (!mock) {
+      mock = { book: new LocalOrderBook(venue, native), sequence: 1 };
+      mock.book.reset([], [], Date.now(), mock.sequence);
+      books.set(native, mock);
+    }
+    return mock;
+  }
+
+  /**
+   * Subscribers get a snapshot, or an update with the difference where the venue only streams diffs
+   */
+  private replaceBook(venue: MockVenueName, symbol: string, bids: RawLevel[], asks: RawLevel[]) {
+    const mock = this.getBook(venue, symbolRegistry.toNative(venue, symbol));
+    const removed = (side: 'bid' | 'ask', levels: RawLevel[]): RawLevel[] => mock.book.entries(side)
+      .filter(entry => !levels.some(([price]) => parseFloat(String(price)) === entry.price))
+      .map(entry => [entry.priceText, '0']);
+    const update = {
+      bids: [...removed('bid', bids), ...bids],
+      asks: [...removed('ask', asks), ...asks],
+      timestamp: Date.now(),
+      firstSequence: mock.sequence + 1,
+      sequence: mock.sequence + 1
+    };
+
+    mock.sequence = update.sequence;
+    mock.book.reset(bids, asks, update.timestamp, mock.sequence);
+    const protocol = MOCK_VENUES[venue];
+    this.broadcast(venue, 'depth', symbol, native => protocol.bookSnapshot(native, mock.book) ?? protocol.bookUpdate(native, update, mock.book, false));
+  }
+
+  private sendBookUpdate(venue: MockVenueName, symbol: string, bids: RawLevel[], asks: RawLevel[], corrupt: boolean) {
+    const mock = this.getBook(venue, symbolRegistry.toNative(venue, symbol));
+    // A corrupt Binance update skips a sequence number the client never sees
+    const firstSequence = mock.sequence + (corrupt ? 2 : 1);
+    mock.sequence = firstSequence;
+
+    bids.forEach(([price, size]) => mock.book.update('bid', String(price), String(size)));
+    asks.forEach(([price, size]) => mock.book.update('ask', String(price), String(size)));
+    mock.book.sequence = mock.sequence;
+    mock.book.timestamp = Date.now();
+
+    const update = { bids, asks, timestamp: mock.book.timestamp, firstSequence, sequence: mock.sequence };
+    this.broadcast(venue, 'depth', symbol, native => MOCK_VENUES[venue].bookUpdate(native, update, mock.book, corrupt));
+  }
+
+  private broadcast(venue: MockVenueName, channel: StreamChannel, symbol: string, encode: (native: string) => string | null) {
+    const native = symbolRegistry.toNative(venue, symbol);
+    const subscribers = this.clientsOf(venue).filter(client => client.subscriptions.get(channel)?.has(native));
+    if (subscribers.length === 0) return;
+
+    const frame = encode(native);
+    if (frame === null) return;
+    subscribers.forEach(client => this.send(client, frame));
+  }
+
+  private send(client: MockClient, frame: string) {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    if (Date.now() < this.venues.get(client.venue)!.stallUntil) return;
+
+    client.ws.send(frame);
+    const { maxBufferedBytes } = this.options;
+    if (maxBufferedBytes > 0 && client.ws.bufferedAmount > maxBufferedBytes) {
+      client.ws.close(SLOW_CONSUMER_CODE, 'Slow consumer');
+    }
+  }
+
+  private sendHeartbeats() {
+    this.clients.forEach(client => {
+      const heartbeat = MOCK_VENUES[client.venue].heartbeat;
+      if (heartbeat) {
+        client.heartbeats.forEach(native => this.send(client, heartbeat(native)));
+      }
+    });
+  }
+
+  private clientsOf(venue: MockVenueName): MockClient[] {
+    return Array.from(this.clients).filter(client => client.venue === venue);
+  }
+
+  private async awaitSubscription(venue: MockVenueName, channel: StreamChannel, symbol: string, timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.isSubscribed(venue, channel, symbol)) {
+      if (Date.now() > deadline) {
+        throw new Error(`No ${channel} subscription for ${symbol} on ${venue} within ${timeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, SUBSCRIPTION_POLL_MS));
+    }
+  }
+}
+
+export { MockExchangeServer };
+export type { MockExchangeOptions };
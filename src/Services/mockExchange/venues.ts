@@ -0,0 +1,278 @@
+// src/services/mockExchange/venues.ts
+import { krakenChecksum } from '../orderBook';
+import type { LocalOrderBook, RawLevel } from '../orderBook';
+import type { StreamChannel } from '../decoders/types';
+
+/*
+ * The server side of each venue's public stream protocol, as far as the
+ * decoders in ../decoders read it: subscription requests and their
+ * acknowledgements, pings, and ticker, book and trade frames. Everything is
+ * in native symbols; the server translates from canonical ones.
+ */
+
+type MockVenueName = 'binance' | 'kraken' | 'coinbase';
+
+interface MockTicker {
+  price: number;
+  volume: number;
+  change: number; // Percent over 24h
+  timestamp: number;
+}
+
+interface MockTrade {
+  tradeId: number;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell'; // Taker side
+  timestamp: number;
+}
+
+interface MockBookUpdate {
+  bids: RawLevel[];
+  asks: RawLevel[];
+  timestamp: number;
+  firstSequence: number;
+  sequence: number;
+}
+
+/**
+ * What a client frame asked for. Subscription changes are left out of
+ * unrecognised frames, which get no reply.
+ */
+interface ClientRequest {
+  replies: string[];
+  channel?: StreamChannel;
+  natives?: string[];
+  subscribe?: boolean;
+  heartbeat?: boolean; // Asked for heartbeat frames
+}
+
+interface MockVenueProtocol {
+  parseRequest(frame: string): ClientRequest;
+  ticker(native: string, ticker: MockTicker): string;
+  trade(native: string, trade: MockTrade): string;
+  bookSnapshot(native: string, book: LocalOrderBook): string | null; // Null where snapshots come over REST
+  bookUpdate(native: string, update: MockBookUpdate, book: LocalOrderBook, corrupt: boolean): string;
+  heartbeat?(native: string): string; // Sent every heartbeat interval to clients that asked for it
+}
+
+const levels = (book: LocalOrderBook, side: 'bid' | 'ask', depth?: number): RawLevel[] =>
+  book.entries(side, depth).map(entry => [entry.priceText, entry.sizeText]);
+
+const openFromChange = (price: number, change: number) => price / (1 + change / 100);
+
+const parseJson = (frame: string): Record<string, unknown> | null => {
+  try {
+    const data = JSON.parse(frame);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+const BINANCE_SUFFIXES: [string, StreamChannel][] = [['@ticker', 'ticker'], ['@depth@100ms', 'depth'], ['@trade', 'trades']];
+
+const binance: MockVenueProtocol = {
+  parseRequest(frame) {
+    const request = parseJson(frame) as { method?: string; params?: string[]; id?: number } | null;
+    if (!request?.method) return { replies: [] };
+
+    if (request.method === 'LIST_SUBSCRIPTIONS') {
+      return { replies: [JSON.stringify({ result: [], id: request.id })] };
+    }
+
+    const params = request.params || [];
+    const match = BINANCE_SUFFIXES.find(([suffix]) => params.length > 0 && params.every(param => param.endsWith(suffix)));
+    return {
+      replies: [JSON.stringify({ result: null, id: request.id })],
+      channel: match?.[1],
+      natives: match ? params.map(param => param.slice(0, -match[0].length).toUpperCase()) : undefined,
+      subscribe: request.method === 'SUBSCRIBE'
+    };
+  },
+
+  ticker(native, ticker) {
+    return JSON.stringify({
+      e: '24hrTicker',
+      E: ticker.timestamp,
+      s: native,
+      P: ticker.change.toFixed(3),
+      c: String(ticker.price),
+      v: String(ticker.volume)
+    });
+  },
+
+  trade(native, trade) {
+    return JSON.stringify({
+      e: 'trade',
+      E: trade.timestamp,
+      s: native,
+      t: trade.tradeId,
+      p: String(trade.price),
+      q: String(trade.size),
+      T: trade.timestamp,
+      m: trade.side === 'sell'
+    });
+  },
+
+  bookSnapshot() {
+    return null;
+  },
+
+  bookUpdate(native, update) {
+    // Corrupt updates arrive with firstSequence past a skipped range, set by the server
+    return JSON.stringify({
+      e: 'depthUpdate',
+      E: update.timestamp,
+      s: native,
+      U: update.firstSequence,
+      u: update.sequence,
+      b: update.bids,
+      a: update.asks
+    });
+  }
+};
+
+const KRAKEN_CHANNEL_IDS: Record<StreamChannel, number> = { ticker: 340, depth: 336, trades: 337 };
+const KRAKEN_BOOK_DEPTH = 25;
+
+const krakenTime = (timestamp: number) => (timestamp / 1000).toFixed(6);
+
+const kraken: MockVenueProtocol = {
+  parseRequest(frame) {
+    const request = parseJson(frame) as { event?: string; pair?: string[]; subscription?: { name?: string } } | null;
+    if (!request?.event) return { replies: [] };
+
+    if (request.event === 'ping') {
+      return { replies: [JSON.stringify({ event: 'pong' })] };
+    }
+    if (request.event !== 'subscribe' && request.event !== 'unsubscribe') return { replies: [] };
+
+    const name = request.subscription?.name;
+    const channel: StreamChannel | undefined = name === 'ticker' ? 'ticker' : name === 'book' ? 'depth' : name === 'trade' ? 'trades' : undefined;
+    const pairs = request.pair || [];
+    return {
+      replies: pairs.map(pair => JSON.stringify({
+        event: 'subscriptionStatus',
+        pair,
+        status: request.event === 'subscribe' ? 'subscribed' : 'unsubscribed',
+        subscription: request.subscription
+      })),
+      channel,
+      natives: pairs,
+      subscribe: request.event === 'subscribe'
+    };
+  },
+
+  ticker(native, ticker) {
+    const open = String(openFromChange(ticker.price, ticker.change));
+    return JSON.stringify([
+      KRAKEN_CHANNEL_IDS.ticker,
+      { c: [String(ticker.price), '1'], v: [String(ticker.volume), String(ticker.volume)], o: [open, open] },
+      'ticker',
+      native
+    ]);
+  },
+
+  trade(native, trade) {
+    return JSON.stringify([
+      KRAKEN_CHANNEL_IDS.trades,
+      [[String(trade.price), String(trade.size), krakenTime(trade.timestamp), trade.side === 'sell' ? 's' : 'b', 'l', '']],
+      'trade',
+      native
+    ]);
+  },
+
+  bookSnapshot(native, book) {
+    const time = krakenTime(book.timestamp);
+    return JSON.stringify([
+      KRAKEN_CHANNEL_IDS.depth,
+      {
+        as: levels(book, 'ask', KRAKEN_BOOK_DEPTH).map(([price, size]) => [price, size, time]),
+        bs: levels(book, 'bid', KRAKEN_BOOK_DEPTH).map(([price, size]) => [price, size, time])
+      },
+      `book-${KRAKEN_BOOK_DEPTH}`,
+      native
+    ]);
+  },
+
+  bookUpdate(native, update, book, corrupt) {
+    const time = krakenTime(update.timestamp);
+    const checksum = krakenChecksum(book) + (corrupt ? 1 : 0);
+    const payload: Record<string, unknown> = { c: String(checksum >>> 0) };
+    if (update.asks.length > 0) payload.a = update.asks.map(([price, size]) => [price, size, time]);
+    if (update.bids.length > 0) payload.b = update.bids.map(([price, size]) => [price, size, time]);
+    return JSON.stringify([KRAKEN_CHANNEL_IDS.depth, payload, `book-${KRAKEN_BOOK_DEPTH}`, native]);
+  }
+};
+
+const COINBASE_CHANNELS: Record<string, StreamChannel> = { ticker: 'ticker', level2_batch: 'depth', matches: 'trades' };
+
+const coinbaseTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+const coinbase: MockVenueProtocol = {
+  parseRequest(frame) {
+    const request = parseJson(frame) as { type?: string; channels?: string[]; product_ids?: string[] } | null;
+    if (request?.type !== 'subscribe' && request?.type !== 'unsubscribe') return { replies: [] };
+
+    const channels = request.channels || [];
+    const products = request.product_ids || [];
+    return {
+      replies: [JSON.stringify({ type: 'subscriptions', channels: channels.map(name => ({ name, product_ids: products })) })],
+      channel: COINBASE_CHANNELS[channels[0]],
+      natives: products,
+      subscribe: request.type === 'subscribe',
+      heartbeat: channels.includes('heartbeat') && request.type === 'subscribe'
+    };
+  },
+
+  ticker(native, ticker) {
+    return JSON.stringify({
+      type: 'ticker',
+      product_id: native,
+      price: String(ticker.price),
+      open_24h: String(openFromChange(ticker.price, ticker.change)),
+      volume_24h: String(ticker.volume),
+      time: coinbaseTime(ticker.timestamp)
+    });
+  },
+
+  trade(native, trade) {
+    return JSON.stringify({
+      type: 'match',
+      trade_id: trade.tradeId,
+      product_id: native,
+      // Coinbase reports the maker's side
+      side: trade.side === 'buy' ? 'sell' : 'buy',
+      size: String(trade.size),
+      price: String(trade.price),
+      time: coinbaseTime(trade.timestamp)
+    });
+  },
+
+  bookSnapshot(native, book) {
+    return JSON.stringify({ type: 'snapshot', product_id: native, bids: levels(book, 'bid'), asks: levels(book, 'ask') });
+  },
+
+  bookUpdate(native, update, book, corrupt) {
+    const changes = [
+      ...update.bids.map(([price, size]) => ['buy', price, size]),
+      ...update.asks.map(([price, size]) => ['sell', price, size])
+    ];
+    // No sequence or checksum to break, so a corrupt update carries a bid at the best ask
+    const bestAsk = book.entries('ask', 1)[0];
+    if (corrupt && bestAsk) {
+      changes.push(['buy', bestAsk.priceText, '1']);
+    }
+    return JSON.stringify({ type: 'l2update', product_id: native, changes, time: coinbaseTime(update.timestamp) });
+  },
+
+  heartbeat(native) {
+    return JSON.stringify({ type: 'heartbeat', product_id: native, sequence: 0, time: coinbaseTime(Date.now()) });
+  }
+};
+
+const MOCK_VENUES: Record<MockVenueName, MockVenueProtocol> = { binance, kraken, coinbase };
+
+export { MOCK_VENUES };
+export type { MockVenueName, MockVenueProtocol, MockTicker, MockTrade, MockBookUpdate, ClientRequest };
@@ -0,0 +1,205 @@
+// src/services/mockExchangeAdapter.ts
+
+import type { ExchangeAdapter, ExchangeCapabilities, OrderParams, RawBalance } from './exchangeAdapter';
+import type {
+  ExchangeCredentials,
+  Market,
+  Order,
+  Ticker,
+  OHLCV,
+  ExchangeTrade
+} from './exchangeService';
+import { addTimeframes, ceilToTimeframe, floorToTimeframe } from '../utils/timeframes';
+
+/**
+ * Offline adapter returning canned balances and randomised market data.
+ * Used for development and for tests that must not touch a real venue.
+ */
+class MockExchangeAdapter implements ExchangeAdapter {
+  readonly capabilities: ExchangeCapabilities = {
+    fetchOHLCV: true,
+    fetchOrders: true,
+    fetchOpenOrders: true,
+    fetchMyTrades: true,
+    cancelOrder: true,
+    orderTypes: ['market', 'limit', 'stop', 'stop_limit'],
+    timeInForce: ['GTC', 'IOC', 'FOK', 'DAY'],
+    postOnly: true,
+    reduceOnly: true,
+    clientOrderId: true,
+    sandbox: true
+  };
+
+  readonly maxOHLCVLimit = 1000;
+
+  constructor(readonly id: string, private credentials: ExchangeCredentials) {}
+
+  async fetchMarkets(): Promise<Market[]> {
+    return [
+      {
+        symbol: 'BTC/USD',
+        base: 'BTC',
+        quote: 'USD',
+        active: true,
+        tickSize: 0.01,
+        lotSize: 0.00001,
+        minAmount: 0.0001,
+        minNotional: 10,
+        pricePrecision: 2,
+        amountPrecision: 5
+      },
+      {
+        symbol: 'ETH/USD',
+        base: 'ETH',
+        quote: 'USD',
+        active: true,
+        tickSize: 0.01,
+        lotSize: 0.0001,
+        minAmount: 0.001,
+        minNotional: 10,
+        pricePrecision: 2,
+        amountPrecision: 4
+      }
+    ];
+  }
+
+  async fetchBalance(): Promise<RawBalance> {
+    return {
+      free: { BTC: 0.5, ETH: 2.3, USD: 1000 },
+      used: { BTC: 0.1, ETH: 0.2, USD: 200 },
+      total: { BTC: 0.6, ETH: 2.5, USD: 1200 }
+    };
+  }
+
+  async fetchTicker(symbol: string): Promise<Ticker> {
+    const basePrice = symbol === 'BTC/USD' ? 45000 : symbol === 'ETH/USD' ? 3000 : 1;
+    const change = (Math.random() - 0.5) * 0.1;
+
+    return {
+      symbol,
+      bid: basePrice * (1 + change - 0.001),
+      ask: basePrice * (1 + change + 0.001),
+      last: basePrice * (1 + change),
+      volume: Math.random() * 10000,
+      high: basePrice * (1 + Math.abs(change) + 0.02),
+      low: basePrice * (1 + change - 0.02),
+      change: change * basePrice,
+      percentage: change * 100,
+      timestamp: Date.now()
+    };
+  }
+
+  async fetchOHLCV(symbol: string, timeframe: string, limit: number, since?: number): Promise<OHLCV[]> {
+    const data: OHLCV[] = [];
+    const lastBucket = floorToTimeframe(Date.now(), timeframe);
+    const firstBucket = since !== undefined ? ceilToTimeframe(since, timeframe) : addTimeframes(lastBucket, timeframe, -(limit - 1));
+    const basePrice = symbol === 'BTC/USD' ? 45000 : symbol === 'ETH/USD' ? 3000 : 1;
+
+    for (let timestamp = firstBucket; timestamp <= lastBucket && data.length < limit; timestamp = addTimeframes(timestamp, timeframe, 1)) {
+      const open = basePrice * (1 + (Math.random() - 0.5) * 0.05);
+      const close = open * (1 + (Math.random() - 0.5) * 0.03);
+      const high = Math.max(open, close) * (1 + Math.random() * 0.02);
+      const low = Math.min(open, close) * (1 - Math.random() * 0.02);
+      const volume = Math.random() * 1000;
+
+      data.push({ timestamp, open, high, low, close, volume });
+    }
+
+    return data;
+  }
+
+  async createOrder(symbol: string, type: string, side: string, amount: number, price?: number, params: OrderParams = {}): Promise<Order> {
+    const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    return {
+      id: orderId,
+      clientOrderId: params.clientOrderId,
+      symbol,
+      type,
+      side,
+      amount,
+      price: price || 0,
+      stopPrice: params.stopPrice,
+      timeInForce: params.timeInForce || 'GTC',
+      postOnly: params.postOnly,
+      reduceOnly: params.reduceOnly,
+      status: 'open',
+      filled: 0,
+      remaining: amount,
+      timestamp: Date.now()
+    };
+  }
+
+  async fetchOrder(id: string): Promise<Order> {
+    return {
+      id,
+      symbol: 'BTC/USD',
+      type: 'limit',
+      side: 'buy',
+      amount: 0.1,
+      price: 45000,
+      status: 'open',
+      filled: 0,
+      remaining: 0.1,
+      timestamp: Date.now()
+    };
+  }
+
+  async fetchOrders(symbol?: string): Promise<Order[]> {
+    return [
+      {
+        id: 'order_1',
+        symbol: 'BTC/USD',
+        type: 'limit',
+        side: 'buy',
+        amount: 0.1,
+        price: 45000,
+        status: 'closed',
+        filled: 0.1,
+        remaining: 0,
+        timestamp: Date.now() - 3600000
+      }
+    ];
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<Order[]> {
+    return [
+      {
+        id: 'order_2',
+        symbol: 'ETH/USD',
+        type: 'limit',
+        side: 'sell',
+        amount: 1,
+        price: 3100,
+        status: 'open',
+        filled: 0,
+        remaining: 1,
+        timestamp: Date.now() - 1800000
+      }
+    ];
+  }
+
+  async cancelOrder(id: string): Promise<{ id: string; status: Order['status'] }> {
+    return { id, status: 'canceled' };
+  }
+
+  async fetchMyTrades(symbol?: string, since?: number): Promise<ExchangeTrade[]> {
+    const trades: ExchangeTrade[] = [
+      {
+        id: 'trade_1',
+        orderId: 'order_1',
+        symbol: 'BTC/USD',
+        side: 'buy',
+        amount: 0.1,
+        price: 45000,
+        cost: 4500,
+        fee: { currency: 'USD', cost: 4.5 },
+        timestamp: Date.now() - 3600000
+      }
+    ];
+
+    return trades.filter(trade => (!symbol || trade.symbol === symbol) && (!since || trade.timestamp >= since));
+  }
+}
+
+export { MockExchangeAdapter };
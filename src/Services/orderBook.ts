@@ -0,0 +1,142 @@
+// src/services/orderBook.ts
+
+interface BookLevel {
+  price: number;
+  size: number;
+}
+
+interface OrderBookSnapshot {
+  exchange: string;
+  symbol: string;
+  bids: BookLevel[]; // Best (highest) first
+  asks: BookLevel[]; // Best (lowest) first
+  timestamp: number;
+  sequence?: number;
+}
+
+// Level as the venue sent it; checksums are computed over the original text
+interface BookEntry {
+  price: number;
+  size: number;
+  priceText: string;
+  sizeText: string;
+}
+
+type BookSide = 'bid' | 'ask';
+
+// Venue level tuples start [price, size, ...] as strings
+type RawLevel = [string, string, ...unknown[]];
+
+/**
+ * Local L2 book for one symbol on one venue: aggregated size per price, built
+ * from a snapshot and kept current by applying diffs. A size of zero removes
+ * the level. Sync state is tracked by the feed that owns the book.
+ */
+class LocalOrderBook {
+  private bids: Map<number, BookEntry> = new Map();
+  private asks: Map<number, BookEntry> = new Map();
+  synced: boolean = false;
+  sequence?: number;
+  timestamp: number = 0;
+
+  constructor(readonly exchange: string, readonly symbol: string) {}
+
+  /**
+   * Replace the whole book with a snapshot
+   */
+  reset(bids: RawLevel[], asks: RawLevel[], timestamp: number, sequence?: number) {
+    this.bids.clear();
+    this.asks.clear();
+    bids.forEach(([price, size]) => this.update('bid', price, size));
+    asks.forEach(([price, size]) => this.update('ask', price, size));
+    this.timestamp = timestamp;
+    this.sequence = sequence;
+    this.synced = true;
+  }
+
+  update(side: BookSide, priceText: string, sizeText: string) {
+    const levels = side === 'bid' ? this.bids : this.asks;
+    const price = parseFloat(priceText);
+    const size = parseFloat(sizeText);
+
+    if (size === 0) {
+      levels.delete(price);
+    } else {
+      levels.set(price, { price, size, priceText, sizeText });
+    }
+  }
+
+  /**
+   * Drop levels beyond depth, for venues that only maintain the top of the book
+   */
+  truncate(depth: number) {
+    (['bid', 'ask'] as BookSide[]).forEach(side => {
+      const levels = side === 'bid' ? this.bids : this.asks;
+      this.entries(side).slice(depth).forEach(entry => levels.delete(entry.price));
+    });
+  }
+
+  /**
+   * Levels best first, as the venue sent them
+   */
+  entries(side: BookSide, depth?: number): BookEntry[] {
+    const levels = Array.from((side === 'bid' ? this.bids : this.asks).values());
+    levels.sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+    return depth === undefined ? levels : levels.slice(0, depth);
+  }
+
+  /**
+   * A crossed book means a missed update; feeds treat it like a sequence gap
+   */
+  isCrossed(): boolean {
+    const [bestBid] = this.entries('bid', 1);
+    const [bestAsk] = this.entries('ask', 1);
+    return !!bestBid && !!bestAsk && bestBid.price >= bestAsk.price;
+  }
+
+  snapshot(depth: number = 10): OrderBookSnapshot {
+    const toLevel = ({ price, size }: BookEntry): BookLevel => ({ price, size });
+    return {
+      exchange: this.exchange,
+      symbol: this.symbol,
+      bids: this.entries('bid', depth).map(toLevel),
+      asks: this.entries('ask', depth).map(toLevel),
+      timestamp: this.timestamp,
+      sequence: this.sequence
+    };
+  }
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 (IEEE) of an ASCII string, unsigned
+ */
+function crc32(text: string): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) {
+    crc = CRC32_TABLE[(crc ^ text.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Kraken book checksum: CRC-32 over the top ten asks then the top ten bids,
+ * each price and volume with the decimal point and leading zeros removed
+ */
+function krakenChecksum(book: LocalOrderBook): number {
+  const digits = (text: string) => text.replace('.', '').replace(/^0+/, '');
+  const text = [...book.entries('ask', 10), ...book.entries('bid', 10)]
+    .map(entry => digits(entry.priceText) + digits(entry.sizeText))
+    .join('');
+  return crc32(text);
+}
+
+export { LocalOrderBook, crc32, krakenChecksum };
+export type { BookLevel, BookEntry, BookSide, RawLevel, OrderBookSnapshot };
@@ -0,0 +1,257 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const portfolio = vi.hoisted(() => ({
+  id: 'portfolio-1',
+  cashBalance: 100000,
+  totalValue: 100000,
+  totalEquity: 100000,
+  marginUsed: 0,
+  freeMargin: 100000,
+  positions: [] as Array<{ symbol: string; quantity: number }>
+}));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({ upsert: async () => ({ error: null }) })
+  }
+}));
+
+vi.mock('./portfolioService', () => ({
+  portfolioService: {
+    getPortfolio: async () => portfolio,
+    updatePositions: vi.fn(async () => undefined)
+  }
+}));
+
+import { exchangeService } from './exchangeService';
+import type { ExchangeCredentials, Order as ExchangeOrder } from './exchangeService';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+import { orderService } from './orderService';
+import { portfolioService } from './portfolioService';
+import { feedHealthMonitor } from './feedHealth';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+let adapter: SimulatedExchangeAdapter;
+
+describe('orderService.executeOrder against the simulated exchange', () => {
+  beforeAll(async () => {
+    // Flat 1% spread around 100: bid 99.5, ask 100.5
+    exchangeService.registerAdapter('simulated-test', account => {
+      adapter = new SimulatedExchangeAdapter(account.id, account.credentials, {
+        basePrices: { 'BTC/USD': 100 },
+        volatility: 0,
+        spread: 0.01,
+        feeRate: 0.001
+      });
+      return adapter;
+    });
+    await exchangeService.addAccount({ id: 'sim', exchange: 'sim', credentials, sandbox: true, adapter: 'simulated-test' });
+  });
+
+  beforeEach(() => {
+    vi.mocked(portfolioService.updatePositions).mockClear();
+  });
+
+  it('records a market order at the price the exchange filled it', async () => {
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'market',
+      quantity: 1
+    });
+
+    expect(report.status).toBe('success');
+    expect(report.executedQuantity).toBe(1);
+    expect(report.avgPrice).toBeCloseTo(100.5);
+    expect(report.commission).toBeCloseTo(0.1005);
+    expect(portfolioService.updatePositions).toHaveBeenCalledOnce();
+  });
+
+  it('records a marketable limit at the ask it crossed', async () => {
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'limit',
+      price: 105,
+      quantity: 0.5
+    });
+
+    expect(report.status).toBe('success');
+    expect(report.avgPrice).toBeCloseTo(100.5);
+  });
+
+  it('leaves a resting limit working and reconciles a cancel made on the exchange', async () => {
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'limit',
+      price: 99,
+      quantity: 0.5
+    });
+
+    expect(report.status).toBe('partial');
+    expect(report.executedQuantity).toBe(0);
+    expect((await orderService.getOrder(report.orderId))?.status).toBe('submitted');
+
+    const [resting] = await adapter.fetchOpenOrders('BTC/USD');
+    await adapter.cancelOrder(resting.id);
+
+    const reconciliation = await orderService.reconcileOrders();
+    expect(reconciliation.updates).toContainEqual(expect.objectContaining({ orderId: report.orderId, status: 'canceled' }));
+    expect(reconciliation.discrepancies).toEqual([]);
+  });
+
+  it('leaves a fill reported without a price unbooked until the exchange prices it', async () => {
+    // As on venues that answer a market order without an average
+    const unpriced = async (order: Promise<ExchangeOrder>) => ({ ...(await order), price: undefined, average: undefined });
+    const createOrder = adapter.createOrder.bind(adapter);
+    const fetchOrder = adapter.fetchOrder.bind(adapter);
+    vi.spyOn(adapter, 'createOrder').mockImplementationOnce((...args) => unpriced(createOrder(...args)));
+    vi.spyOn(adapter, 'fetchOrder').mockImplementationOnce((...args) => unpriced(fetchOrder(...args)));
+
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'market',
+      quantity: 0.2
+    });
+    expect(report.executedQuantity).toBe(0);
+    expect(portfolioService.updatePositions).not.toHaveBeenCalled();
+
+    const first = await orderService.reconcileOrders();
+    expect(first.discrepancies).toContainEqual(expect.objectContaining({ orderId: report.orderId, type: 'fill_mismatch' }));
+    expect((await orderService.getOrder(report.orderId))?.filledQuantity).toBe(0);
+
+    await orderService.reconcileOrders();
+    const order = await orderService.getOrder(report.orderId);
+    expect(order?.status).toBe('filled');
+    expect(order?.avgFillPrice).toBeCloseTo(100.5);
+  });
+
+  it('matches stream fills for a modified order by its replacement client ID', async () => {
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'limit',
+      price: 99,
+      quantity: 0.5
+    });
+    expect(await orderService.modifyOrder(report.orderId, { price: 98 })).toBe(true);
+
+    const [replacement] = await adapter.fetchOpenOrders('BTC/USD');
+    expect(replacement.clientOrderId).not.toBe(report.orderId);
+
+    // As if the fill arrived before the resubmission's response linked the new exchange ID
+    await orderService.applyStreamFill('sim', {
+      tradeId: 'trade-1',
+      exchangeOrderId: 'not-yet-linked',
+      clientOrderId: replacement.clientOrderId,
+      symbol: 'BTC/USD',
+      side: 'buy',
+      amount: 0.5,
+      price: 98,
+      timestamp: Date.now()
+    });
+
+    const order = await orderService.getOrder(report.orderId);
+    expect(order?.status).toBe('filled');
+    expect(order?.avgFillPrice).toBe(98);
+  });
+
+  it('does not book the stream copy of a fill the placement response already reported', async () => {
+    const createOrder = adapter.createOrder.bind(adapter);
+    vi.spyOn(adapter, 'createOrder').mockImplementationOnce(async (...args) => ({
+      ...(await createOrder(...args)),
+      filled: 0.3,
+      remaining: 0.7,
+      average: 99
+    }));
+
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'limit',
+      price: 99,
+      quantity: 1
+    });
+    expect(report.executedQuantity).toBe(0.3);
+
+    const order = (await orderService.getOrder(report.orderId))!;
+    const fill = { exchangeOrderId: order.exchangeOrderId!, symbol: 'BTC/USD', side: 'buy' as const, price: 99, timestamp: Date.now() };
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'partial-1', amount: 0.3 });
+    expect(order.filledQuantity).toBe(0.3);
+
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'partial-2', amount: 0.7 });
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'partial-1', amount: 0.3 });
+    expect(order.filledQuantity).toBeCloseTo(1);
+    expect(order.status).toBe('filled');
+    expect(order.fills.map(booked => booked.quantity)).toEqual([0.3, 0.7]);
+  });
+
+  it('fills an order whose stream fills sum to its quantity only up to float noise', async () => {
+    const report = await orderService.executeOrder({
+      portfolioId: portfolio.id,
+      exchange: 'sim',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      type: 'limit',
+      price: 99,
+      quantity: 1
+    });
+    const order = (await orderService.getOrder(report.orderId))!;
+    const fill = { exchangeOrderId: order.exchangeOrderId!, symbol: 'BTC/USD', side: 'buy' as const, price: 99, timestamp: Date.now() };
+
+    // 0.7 + 0.2 + 0.1 is 0.9999999999999999
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'noise-1', amount: 0.7 });
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'noise-2', amount: 0.2 });
+    await orderService.applyStreamFill('sim', { ...fill, tradeId: 'noise-3', amount: 0.1 });
+
+    expect(order.status).toBe('filled');
+    expect(order.remainingQuantity).toBe(0);
+    expect(portfolioService.updatePositions).toHaveBeenCalledOnce();
+    expect(orderService.getPendingOrders().map(pending => pending.id)).not.toContain(order.id);
+  });
+
+  it('refuses limit orders on a feed marked unhealthy unless set to warn', async () => {
+    // Three book resyncs in the gap window mark the feed unhealthy
+    [1, 2, 3].forEach(() => feedHealthMonitor.recordGap({ exchange: 'sim', symbol: 'ETH/USD', reason: 'sequence', timestamp: Date.now() }));
+    const request = { portfolioId: portfolio.id, exchange: 'sim', symbol: 'ETH/USD', side: 'buy' as const, type: 'limit' as const, price: 99, quantity: 0.5 };
+
+    const refused = await orderService.validateOrder(request);
+    expect(refused.valid).toBe(false);
+    expect(refused.errors).toContainEqual(expect.stringContaining('Market data for ETH/USD on sim is unhealthy: 3 book gaps'));
+
+    orderService.setRefuseOnUnhealthyFeed(false);
+    try {
+      const warned = await orderService.validateOrder(request);
+      expect(warned.errors).toEqual([]);
+      expect(warned.warnings).toContainEqual(expect.stringContaining('is unhealthy'));
+
+      const market = await orderService.validateOrder({ ...request, type: 'market', price: undefined });
+      expect(market.errors).toContainEqual(expect.stringContaining('is unhealthy'));
+    } finally {
+      orderService.setRefuseOnUnhealthyFeed(true);
+    }
+  });
+});
@@ -2,8 +2,13 @@
 
 import { supabase } from '../lib/supabase';
 import { exchangeService } from './exchangeService';
+import type { Order as ExchangeOrder } from './exchangeService';
 import { riskService } from './riskService';
 import { portfolioService } from './portfolioService';
+import type { StreamFill, StreamOrderUpdate } from './userDataStream';
+import { websocketService } from './websocketService';
+import { feedHealthMonitor } from './feedHealth';
+import type { OrderBookSnapshot } from './orderBook';
 
 export interface OrderRequest {
   portfolioId: string;
@@ -14,7 +19,10 @@ export interface OrderRequest {
   price?: number;
   stopPrice?: number;
   timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'DAY';
+  postOnly?: boolean;
+  reduceOnly?: boolean;
   exchange: string;
+  accountId?: string; // Exchange account to route through, defaults to the account named after the exchange
   stopLoss?: number;
   takeProfit?: number;
   notes?: string;
@@ -36,6 +44,7 @@ export interface Order {
   totalFillValue: number;
   commission: number;
   exchange: string;
+  accountId?: string;
   exchangeOrderId?: string;
   timeInForce: 'GTC' | 'IOC' | 'FOK' | 'DAY';
   stopLoss?: number;
@@ -86,11 +95,44 @@ export interface ExecutionReport {
   fills: Fill[];
 }
 
+export interface OrderDiscrepancy {
+  type: 'unknown_order' | 'missing_on_exchange' | 'fill_mismatch' | 'quantity_mismatch' | 'status_mismatch' | 'account_error';
+  accountId: string;
+  orderId?: string; // Local order, absent for orders only the exchange knows about
+  exchangeOrderId?: string;
+  symbol?: string;
+  details: string;
+}
+
+export interface ReconciledOrderUpdate {
+  orderId: string;
+  previousStatus: Order['status'];
+  status: Order['status'];
+  filledQuantity: number; // Newly detected fill quantity
+}
+
+export interface ReconciliationReport {
+  startedAt: number;
+  completedAt: number;
+  ordersChecked: number;
+  updates: ReconciledOrderUpdate[];
+  discrepancies: OrderDiscrepancy[];
+}
+
+// Quantities closer than this are treated as equal to absorb float noise from exchanges
+const QUANTITY_EPSILON = 1e-9;
+
 class OrderService {
   private orders: Map<string, Order> = new Map();
   private pendingOrders: Map<string, Order> = new Map();
+  private replacementClientIds: Map<string, string> = new Map(); // Client order ID of a modify's resubmission -> order ID
+  private coveredStreamTrades: Map<string, { tradeIds: Set<string>; quantity: number }> = new Map(); // Order ID -> stream trades already booked from cumulative figures
   private subscribers: Set<(order: Order) => void> = new Set();
   private executionSubscribers: Set<(report: ExecutionReport) => void> = new Set();
+  private reconciliationTimer: ReturnType<typeof setInterval> | null = null;
+  private reconciling: Promise<ReconciliationReport> | null = null;
+  private lastReconciliation: ReconciliationReport | null = null;
+  private refuseOnUnhealthyFeed = true;
 
   /**
    * Validate an order before execution
@@ -113,6 +155,30 @@ class OrderService {
       errors.push('Stop price is required for stop orders');
     }
 
+    // Check size and price against the exchange's market rules
+    if (errors.length === 0 && exchangeService.isExchangeConnected(this.getAccountId(orderRequest))) {
+      try {
+        const normalization = await exchangeService.normalizeOrder(this.getAccountId(orderRequest), {
+          symbol: orderRequest.symbol,
+          type: orderRequest.type,
+          side: orderRequest.side,
+          amount: orderRequest.quantity,
+          price: orderRequest.price,
+          stopPrice: orderRequest.stopPrice
+        });
+
+        errors.push(...normalization.errors);
+        if (normalization.adjusted) {
+          const { amount, price, stopPrice } = normalization.order;
+          warnings.push(`Order will be rounded to ${normalization.market.symbol} increments: quantity ${amount}` +
+            (price !== undefined ? `, price ${price}` : '') +
+            (stopPrice !== undefined ? `, stop price ${stopPrice}` : ''));
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unable to load market rules');
+      }
+    }
+
     // Get portfolio and account info
     const portfolio = await portfolioService.getPortfolio(orderRequest.portfolioId);
     if (!portfolio) {
@@ -133,7 +199,7 @@ class OrderService {
     }
 
     // Calculate estimated costs
-    const estimatedPrice = orderRequest.price || await this.getEstimatedPrice(orderRequest.symbol, orderRequest.side);
+    const estimatedPrice = orderRequest.price || await this.getEstimatedPrice(orderRequest.symbol, orderRequest.side, this.getAccountId(orderRequest));
     const estimatedCost = orderRequest.quantity * estimatedPrice;
     const estimatedCommission = this.calculateCommission(orderRequest.exchange, estimatedCost);
 
@@ -192,6 +258,17 @@ class OrderService {
       if (riskLevel === 'low') riskLevel = 'medium';
     }
 
+    // Prices from an unhealthy feed cannot be trusted to fill a market order or estimate a cost
+    const feedHealth = feedHealthMonitor.getHealth(orderRequest.exchange, orderRequest.symbol);
+    if (feedHealth && !feedHealth.healthy) {
+      const message = `Market data for ${orderRequest.symbol} on ${orderRequest.exchange} is unhealthy: ${feedHealth.issues.join(', ')}`;
+      if (this.refuseOnUnhealthyFeed || orderRequest.type === 'market' || !orderRequest.price) {
+        errors.push(message);
+      } else {
+        warnings.push(message);
+      }
+    }
+
     // Market hours warning
     if (!this.isMarketOpen(orderRequest.symbol)) {
       warnings.push('Market is currently closed');
@@ -239,22 +316,40 @@ class OrderService {
 
     try {
       // Submit to exchange
-      const exchangeOrder = await exchangeService.placeOrder(orderRequest.exchange, {
+      const exchangeOrder = await exchangeService.placeOrder(this.getAccountId(orderRequest), {
         symbol: orderRequest.symbol,
         type: orderRequest.type,
         side: orderRequest.side,
         amount: orderRequest.quantity,
-        price: orderRequest.price
+        price: orderRequest.price,
+        stopPrice: orderRequest.stopPrice,
+        timeInForce: order.timeInForce,
+        postOnly: orderRequest.postOnly,
+        reduceOnly: orderRequest.reduceOnly,
+        clientOrderId: order.id
       });
 
       if (exchangeOrder) {
         order.exchangeOrderId = exchangeOrder.id;
-        order.status = 'submitted';
+        if (order.status === 'pending') {
+          order.status = 'submitted';
+        }
         order.updatedAt = Date.now();
 
-        // Simulate immediate execution for market orders
-        if (orderRequest.type === 'market') {
-          await this.processExecution(order, orderRequest.quantity, validation.estimatedCost / orderRequest.quantity);
+        // A private stream may have delivered some fills before this response
+        const unrecorded = exchangeOrder.filled - order.filledQuantity;
+        const reportedPrice = exchangeOrder.average || exchangeOrder.price;
+        if (unrecorded > QUANTITY_EPSILON && reportedPrice) {
+          // Record whatever the exchange reports as already executed
+          const commission = exchangeOrder.fee ? Math.max(0, exchangeOrder.fee.cost - order.commission) : undefined;
+          await this.processExecution(order, unrecorded, reportedPrice, commission);
+        }
+        // Fills reported without a price (market orders on some venues) are left to the private stream or reconciliation
+
+        // IOC/FOK remainders are expired by the exchange rather than left working
+        if (exchangeOrder.status === 'expired' && order.remainingQuantity > 0) {
+          order.status = 'expired';
+          this.pendingOrders.delete(order.id);
         }
 
         await this.saveOrder(order);
@@ -305,7 +400,7 @@ class OrderService {
 
   private async createOrder(orderRequest: OrderRequest, validation: OrderValidation): Promise<Order> {
     const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const estimatedPrice = orderRequest.price || await this.getEstimatedPrice(orderRequest.symbol, orderRequest.side);
+    const estimatedPrice = orderRequest.price || await this.getEstimatedPrice(orderRequest.symbol, orderRequest.side, this.getAccountId(orderRequest));
 
     const order: Order = {
       id: orderId,
@@ -323,6 +418,7 @@ class OrderService {
       totalFillValue: 0,
       commission: 0,
       exchange: orderRequest.exchange,
+      accountId: orderRequest.accountId,
       timeInForce: orderRequest.timeInForce || 'GTC',
       stopLoss: orderRequest.stopLoss,
       takeProfit: orderRequest.takeProfit,
@@ -338,19 +434,22 @@ class OrderService {
     return order;
   }
 
-  private async processExecution(order: Order, quantity: number, price: number): Promise<void> {
+  private async processExecution(order: Order, quantity: number, price: number, commission?: number, tradeId?: string): Promise<void> {
     const fill: Fill = {
       id: `fill_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       orderId: order.id,
       quantity,
       price,
-      commission: this.calculateCommission(order.exchange, quantity * price),
-      timestamp: Date.now()
+      commission: commission ?? this.calculateCommission(order.exchange, quantity * price),
+      timestamp: Date.now(),
+      tradeId
     };
 
     order.fills.push(fill);
     order.filledQuantity += quantity;
-    order.remainingQuantity = Math.max(0, order.quantity - order.filledQuantity);
+    const remaining = order.quantity - order.filledQuantity;
+    // Many small fills leave float noise, e.g. 0.7 + 0.2 + 0.1 falls just short of 1
+    order.remainingQuantity = remaining > QUANTITY_EPSILON ? remaining : 0;
     order.commission += fill.commission;
     order.totalFillValue += quantity * price;
     order.avgFillPrice = order.totalFillValue / order.filledQuantity;
@@ -401,6 +500,7 @@ class OrderService {
       quantity: parentOrder.filledQuantity,
       stopPrice: parentOrder.stopLoss,
       exchange: parentOrder.exchange,
+      accountId: parentOrder.accountId,
       timeInForce: 'GTC',
       notes: `Stop loss for order ${parentOrder.id}`
     };
@@ -422,6 +522,7 @@ class OrderService {
       quantity: parentOrder.filledQuantity,
       price: parentOrder.takeProfit,
       exchange: parentOrder.exchange,
+      accountId: parentOrder.accountId,
       timeInForce: 'GTC',
       notes: `Take profit for order ${parentOrder.id}`
     };
@@ -448,7 +549,7 @@ class OrderService {
     try {
       // Cancel on exchange if submitted
       if (order.exchangeOrderId && order.status === 'submitted') {
-        await exchangeService.cancelOrder(order.exchange, order.exchangeOrderId);
+        await exchangeService.cancelOrder(this.getAccountId(order), order.exchangeOrderId);
       }
 
       order.status = 'canceled';
@@ -536,6 +637,322 @@ class OrderService {
     return Array.from(this.pendingOrders.values());
   }
 
+  /**
+   * Poll the exchange for working orders on an interval and apply what it reports
+   */
+  startReconciliation(intervalMs: number = 15000): void {
+    this.stopReconciliation();
+    this.reconciliationTimer = setInterval(() => {
+      this.reconcileOrders().catch(error => console.error('Order reconciliation failed:', error));
+    }, intervalMs);
+  }
+
+  stopReconciliation(): void {
+    if (this.reconciliationTimer) {
+      clearInterval(this.reconciliationTimer);
+      this.reconciliationTimer = null;
+    }
+  }
+
+  getLastReconciliationReport(): ReconciliationReport | null {
+    return this.lastReconciliation;
+  }
+
+  /**
+   * Whether orders on a feed marked unhealthy are refused, the default, or
+   * only warned about. Orders priced from the feed are refused either way.
+   */
+  setRefuseOnUnhealthyFeed(refuse: boolean): void {
+    this.refuseOnUnhealthyFeed = refuse;
+  }
+
+  /**
+   * Compare working orders with the exchange: record fills that happened after
+   * submission, pick up cancels and expiries made outside the app, and report
+   * anything that cannot be matched. Concurrent calls share one run.
+   */
+  async reconcileOrders(): Promise<ReconciliationReport> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconciliation().finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  private async runReconciliation(): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      startedAt: Date.now(),
+      completedAt: 0,
+      ordersChecked: 0,
+      updates: [],
+      discrepancies: []
+    };
+
+    const workingByAccount = new Map<string, Order[]>();
+    this.pendingOrders.forEach(order => {
+      if (!order.exchangeOrderId) return;
+      const accountId = this.getAccountId(order);
+      if (!workingByAccount.has(accountId)) workingByAccount.set(accountId, []);
+      workingByAccount.get(accountId)!.push(order);
+    });
+
+    const accountIds = new Set([
+      ...workingByAccount.keys(),
+      ...Array.from(this.orders.values()).map(order => this.getAccountId(order))
+    ]);
+
+    for (const accountId of accountIds) {
+      if (!exchangeService.isExchangeConnected(accountId)) continue;
+      await this.reconcileAccount(accountId, workingByAccount.get(accountId) || [], report);
+    }
+
+    report.completedAt = Date.now();
+    this.lastReconciliation = report;
+
+    if (report.discrepancies.length > 0) {
+      console.warn(`Order reconciliation found ${report.discrepancies.length} discrepancies`, report.discrepancies);
+    }
+    return report;
+  }
+
+  private async reconcileAccount(accountId: string, working: Order[], report: ReconciliationReport): Promise<void> {
+    let openOrders: ExchangeOrder[];
+    try {
+      openOrders = await exchangeService.getOpenOrders(accountId);
+    } catch (error) {
+      report.discrepancies.push({
+        type: 'account_error',
+        accountId,
+        details: `Could not fetch open orders: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return;
+    }
+
+    const openById = new Map(openOrders.map(order => [order.id, order]));
+
+    for (const order of working) {
+      report.ordersChecked++;
+      let remote = openById.get(order.exchangeOrderId!);
+
+      // No longer open on the exchange, so it has finished one way or another
+      if (!remote) {
+        try {
+          remote = await exchangeService.getOrder(accountId, order.exchangeOrderId!, order.symbol);
+        } catch (error) {
+          report.discrepancies.push({
+            type: 'missing_on_exchange',
+            accountId,
+            orderId: order.id,
+            exchangeOrderId: order.exchangeOrderId,
+            symbol: order.symbol,
+            details: `Order not found on exchange: ${error instanceof Error ? error.message : String(error)}`
+          });
+          continue;
+        }
+      }
+
+      await this.applyExchangeState(order, remote, accountId, report);
+    }
+
+    // Working orders on the exchange that this app did not place, or believes are finished
+    const localByExchangeId = new Map<string, Order>();
+    this.orders.forEach(order => {
+      if (order.exchangeOrderId) localByExchangeId.set(order.exchangeOrderId, order);
+    });
+
+    openOrders.forEach(remote => {
+      const local = localByExchangeId.get(remote.id) || (remote.clientOrderId ? this.getOrderByClientId(remote.clientOrderId) : undefined);
+
+      if (!local) {
+        report.discrepancies.push({
+          type: 'unknown_order',
+          accountId,
+          exchangeOrderId: remote.id,
+          symbol: remote.symbol,
+          details: `Open ${remote.side} ${remote.amount} ${remote.symbol} @ ${remote.price} not placed by this app`
+        });
+      } else if (!this.pendingOrders.has(local.id)) {
+        report.discrepancies.push({
+          type: 'status_mismatch',
+          accountId,
+          orderId: local.id,
+          exchangeOrderId: remote.id,
+          symbol: remote.symbol,
+          details: `Order is ${local.status} locally but still open on the exchange`
+        });
+      }
+    });
+  }
+
+  private async applyExchangeState(order: Order, remote: ExchangeOrder, accountId: string, report: ReconciliationReport): Promise<void> {
+    const previousStatus = order.status;
+    const previousFilled = order.filledQuantity;
+
+    if (Math.abs(remote.amount - order.quantity) > QUANTITY_EPSILON) {
+      report.discrepancies.push({
+        type: 'quantity_mismatch',
+        accountId,
+        orderId: order.id,
+        exchangeOrderId: remote.id,
+        symbol: order.symbol,
+        details: `Local quantity ${order.quantity}, exchange amount ${remote.amount}`
+      });
+    }
+
+    const newlyFilled = remote.filled - order.filledQuantity;
+    const reportedPrice = remote.average || remote.price;
+    if (newlyFilled > QUANTITY_EPSILON && !reportedPrice) {
+      // A market order without an average has nothing to price the fill with; book it once a later check has one
+      report.discrepancies.push({
+        type: 'fill_mismatch',
+        accountId,
+        orderId: order.id,
+        exchangeOrderId: remote.id,
+        symbol: order.symbol,
+        details: `Exchange reports ${remote.filled} filled without a fill price`
+      });
+      return;
+    }
+
+    if (newlyFilled > QUANTITY_EPSILON) {
+      // The exchange reports cumulative figures; the increment prices the new fill
+      const cumulativeValue = remote.filled * reportedPrice;
+      const fillPrice = (cumulativeValue - order.totalFillValue) / newlyFilled;
+      const commission = remote.fee ? Math.max(0, remote.fee.cost - order.commission) : undefined;
+      await this.processExecution(order, newlyFilled, fillPrice, commission);
+    } else if (newlyFilled < -QUANTITY_EPSILON) {
+      report.discrepancies.push({
+        type: 'fill_mismatch',
+        accountId,
+        orderId: order.id,
+        exchangeOrderId: remote.id,
+        symbol: order.symbol,
+        details: `Local filled ${order.filledQuantity} exceeds exchange filled ${remote.filled}`
+      });
+    }
+
+    if (order.remainingQuantity > 0) {
+      const terminalStatus: Partial<Record<ExchangeOrder['status'], Order['status']>> = {
+        canceled: 'canceled',
+        expired: 'expired'
+      };
+      const status = terminalStatus[remote.status];
+
+      if (status) {
+        order.status = status;
+        order.updatedAt = Date.now();
+        this.pendingOrders.delete(order.id);
+      } else if (remote.status === 'closed') {
+        report.discrepancies.push({
+          type: 'fill_mismatch',
+          accountId,
+          orderId: order.id,
+          exchangeOrderId: remote.id,
+          symbol: order.symbol,
+          details: `Exchange reports the order closed with ${remote.filled} of ${order.quantity} filled`
+        });
+      }
+    }
+
+    if (order.status !== previousStatus || order.filledQuantity !== previousFilled) {
+      report.updates.push({
+        orderId: order.id,
+        previousStatus,
+        status: order.status,
+        filledQuantity: order.filledQuantity - previousFilled
+      });
+
+      await this.saveOrder(order);
+      this.notifySubscribers(order);
+    }
+  }
+
+  /**
+   * Apply a status change pushed by an account's private stream. Quantities
+   * only move through applyStreamFill so a fill is never counted twice.
+   */
+  async applyStreamOrderUpdate(accountId: string, update: StreamOrderUpdate): Promise<void> {
+    const order = this.findStreamOrder(accountId, update.exchangeOrderId, update.clientOrderId);
+    if (!order) return;
+
+    const previousStatus = order.status;
+    // The stream can beat the placement response, so link the exchange id here too
+    order.exchangeOrderId = order.exchangeOrderId || update.exchangeOrderId;
+
+    if (update.status === 'open' && order.status === 'pending') {
+      order.status = 'submitted';
+    } else if ((update.status === 'canceled' || update.status === 'expired') && order.remainingQuantity > 0) {
+      order.status = update.status;
+      this.pendingOrders.delete(order.id);
+    }
+
+    if (order.status !== previousStatus) {
+      order.updatedAt = Date.now();
+      await this.saveOrder(order);
+      this.notifySubscribers(order);
+    }
+  }
+
+  /**
+   * Apply a fill pushed by an account's private stream, once per exchange trade id.
+   * The placement response and reconciliation book the exchange's cumulative
+   * filled quantity without trade ids; the stream's copies of those trades use
+   * up that quantity instead of being booked again.
+   */
+  async applyStreamFill(accountId: string, fill: StreamFill): Promise<void> {
+    const order = this.findStreamOrder(accountId, fill.exchangeOrderId, fill.clientOrderId);
+    if (!order) return;
+
+    const covered = this.coveredStreamTrades.get(order.id) || { tradeIds: new Set<string>(), quantity: 0 };
+    if (order.fills.some(existing => existing.tradeId === fill.tradeId) || covered.tradeIds.has(fill.tradeId)) return;
+
+    order.exchangeOrderId = order.exchangeOrderId || fill.exchangeOrderId;
+
+    const untraded = order.fills.reduce((sum, existing) => sum + (existing.tradeId ? 0 : existing.quantity), 0) - covered.quantity;
+    const alreadyBooked = Math.min(Math.max(0, untraded), fill.amount);
+    if (alreadyBooked > QUANTITY_EPSILON) {
+      covered.tradeIds.add(fill.tradeId);
+      covered.quantity += alreadyBooked;
+      this.coveredStreamTrades.set(order.id, covered);
+    }
+
+    const amount = fill.amount - alreadyBooked;
+    if (amount <= QUANTITY_EPSILON) return;
+    if (order.filledQuantity + amount > order.quantity + QUANTITY_EPSILON) {
+      console.warn(`Stream fill ${fill.tradeId} would overfill order ${order.id}, leaving it to reconciliation`);
+      return;
+    }
+
+    // Commission is kept in the quote currency; fees in other assets fall back to the estimate
+    const [base, quote] = order.symbol.split('/');
+    const fee = !fill.fee ? undefined
+      : fill.fee.currency === quote ? fill.fee.cost
+      : fill.fee.currency === base ? fill.fee.cost * fill.price
+      : undefined;
+    // Only the part of the trade not already booked is charged here
+    const commission = fee === undefined ? undefined : fee * amount / fill.amount;
+
+    await this.processExecution(order, amount, fill.price, commission, fill.tradeId);
+    await this.saveOrder(order);
+    this.notifySubscribers(order);
+  }
+
+  private findStreamOrder(accountId: string, exchangeOrderId: string, clientOrderId?: string): Order | undefined {
+    const matches = (order: Order) => this.getAccountId(order) === accountId;
+    const byClientId = clientOrderId ? this.getOrderByClientId(clientOrderId) : undefined;
+    if (byClientId && matches(byClientId)) return byClientId;
+
+    return Array.from(this.orders.values()).find(order => order.exchangeOrderId === exchangeOrderId && matches(order));
+  }
+
+  /**
+   * Orders are submitted with their own ID as client order ID, and resubmitted under a new one when modified
+   */
+  private getOrderByClientId(clientOrderId: string): Order | undefined {
+    return this.orders.get(clientOrderId) || this.orders.get(this.replacementClientIds.get(clientOrderId) || '');
+  }
+
   /**
    * Get order history with filters
    */
@@ -604,7 +1021,7 @@ class OrderService {
     try {
       // Cancel existing order on exchange
       if (order.exchangeOrderId) {
-        await exchangeService.cancelOrder(order.exchange, order.exchangeOrderId);
+        await exchangeService.cancelOrder(this.getAccountId(order), order.exchangeOrderId);
       }
 
       // Update order details
@@ -619,13 +1036,18 @@ class OrderService {
         order.stopPrice = modifications.stopPrice;
       }
 
-      // Resubmit modified order
-      const newExchangeOrder = await exchangeService.placeOrder(order.exchange, {
+      // Resubmit modified order, registering its client ID first since the stream can beat the response
+      const clientOrderId = `${order.id}_${Date.now()}`;
+      this.replacementClientIds.set(clientOrderId, order.id);
+      const newExchangeOrder = await exchangeService.placeOrder(this.getAccountId(order), {
         symbol: order.symbol,
         type: order.type,
         side: order.side,
         amount: order.remainingQuantity,
-        price: order.price
+        price: order.price,
+        stopPrice: order.stopPrice,
+        timeInForce: order.timeInForce,
+        clientOrderId
       });
 
       if (newExchangeOrder) {
@@ -687,10 +1109,18 @@ class OrderService {
     };
   }
 
-  private async getEstimatedPrice(symbol: string, side: 'buy' | 'sell'): Promise<number> {
+  private getAccountId(order: { exchange: string; accountId?: string }): string {
+    return order.accountId || order.exchange;
+  }
+
+  private async getEstimatedPrice(symbol: string, side: 'buy' | 'sell', accountId?: string): Promise<number> {
     try {
-      // Try to get current market price
-      // In a real implementation, this would fetch from the exchange
+      // Use the exchange's touch price when the account is connected
+      if (accountId && exchangeService.isExchangeConnected(accountId)) {
+        const ticker = await exchangeService.getTicker(accountId, symbol);
+        return side === 'buy' ? ticker.ask : ticker.bid;
+      }
+
       const mockPrices: Record<string, number> = {
         'BTC/USD': 45000,
         'ETH/USD': 3000,
@@ -776,6 +1206,7 @@ class OrderService {
       totalFillValue: data.total_fill_value || 0,
       commission: data.commission || 0,
       exchange: data.exchange,
+      accountId: data.account_id || undefined,
       exchangeOrderId: data.exchange_order_id,
       timeInForce: data.time_in_force || 'GTC',
       stopLoss: data.stop_loss,
@@ -809,6 +1240,7 @@ class OrderService {
           total_fill_value: order.totalFillValue,
           commission: order.commission,
           exchange: order.exchange,
+          account_id: order.accountId,
           exchange_order_id: order.exchangeOrderId,
           time_in_force: order.timeInForce,
           stop_loss: order.stopLoss,
@@ -890,34 +1322,18 @@ class OrderService {
   }
 
   /**
-   * Get order book for symbol (mock implementation)
+   * Get the live order book for symbol from the venue's depth stream. Without an
+   * exchange, the first venue whose book is in sync is used.
    */
-  async getOrderBook(symbol: string, depth: number = 10): Promise<{
-    bids: Array<{ price: number; size: number }>;
-    asks: Array<{ price: number; size: number }>;
-    timestamp: number;
-  }> {
-    // Mock order book data
-    const basePrice = await this.getEstimatedPrice(symbol, 'buy');
-    const bids = [];
-    const asks = [];
-
-    for (let i = 0; i < depth; i++) {
-      bids.push({
-        price: basePrice * (1 - (i + 1) * 0.001),
-        size: Math.random() * 10 + 1
-      });
-      asks.push({
-        price: basePrice * (1 + (i + 1) * 0.001),
-        size: Math.random() * 10 + 1
-      });
+  async getOrderBook(symbol: string, depth: number = 10, exchange?: string): Promise<OrderBookSnapshot> {
+    const venues = exchange ? [exchange] : websocketService.getOrderBookVenues(symbol);
+
+    for (const venue of venues) {
+      const book = websocketService.getOrderBook(venue, symbol, depth);
+      if (book) return book;
     }
 
-    return {
-      bids: bids.sort((a, b) => b.price - a.price),
-      asks: asks.sort((a, b) => a.price - b.price),
-      timestamp: Date.now()
-    };
+    throw new Error(`No live order book for ${symbol}${exchange ? ` on ${exchange}` : ''}; subscribe to its depth stream first`);
   }
 }
 
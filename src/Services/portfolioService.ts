@@ -13,6 +13,7 @@ export interface Trade {
   commission: number;
   exchange: string;
   orderId?: string;
+  exchangeTradeId?: string; // Set on trades imported from exchange history
 }
 
 export interface Position {
@@ -47,6 +48,7 @@ export interface Portfolio {
   dayChange: number;
   dayChangePercent: number;
   positions: Position[];
+  exchangeBalances?: Record<string, Record<string, number>>; // accountId -> currency -> total, kept current by private streams
   createdAt: number;
   updatedAt: number;
 }
@@ -254,6 +256,32 @@ class PortfolioService {
     return true;
   }
 
+  /**
+   * Track an exchange account's balance from a private stream update, either
+   * an absolute total or a delta from a deposit, withdrawal or transfer
+   */
+  async applyBalanceUpdate(
+    portfolioId: string,
+    accountId: string,
+    update: { currency: string; delta?: number; total?: number }
+  ): Promise<boolean> {
+    const portfolio = await this.getPortfolio(portfolioId);
+    if (!portfolio) {
+      return false;
+    }
+
+    const balances = portfolio.exchangeBalances || {};
+    const account = balances[accountId] || {};
+    account[update.currency] = update.total ?? (account[update.currency] || 0) + (update.delta || 0);
+    balances[accountId] = account;
+    portfolio.exchangeBalances = balances;
+
+    portfolio.updatedAt = Date.now();
+    this.notifySubscribers(portfolio);
+
+    return true;
+  }
+
   private async processTrade(portfolio: Portfolio, trade: Trade): Promise<void> {
     const existingPosition = portfolio.positions.find(p => p.symbol === trade.symbol);
 
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+import { FakeClock } from '../test/fakeClock';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RateLimiter', () => {
+  it('dispatches immediately while the bucket has tokens', async () => {
+    const limiter = new RateLimiter({ capacity: 5, refillPerSecond: 1 }, new FakeClock());
+    const order: number[] = [];
+
+    await Promise.all([1, 2, 3].map(n => limiter.schedule(async () => order.push(n))));
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(limiter.getStatus().tokens).toBe(2);
+  });
+
+  it('waits for the bucket to refill before dispatching', async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter({ capacity: 2, refillPerSecond: 1 }, clock);
+    let done = false;
+
+    await limiter.schedule(async () => undefined, 2);
+    const pending = limiter.schedule(async () => { done = true; }, 2);
+
+    clock.advance(1999);
+    await flush();
+    expect(done).toBe(false);
+
+    clock.advance(1);
+    await pending;
+    expect(done).toBe(true);
+    expect(limiter.getStatus().maxWaitMs).toBe(2000);
+  });
+
+  it('runs high priority requests ahead of queued lower priority ones', async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter({ capacity: 1, refillPerSecond: 1 }, clock);
+    const order: string[] = [];
+
+    await limiter.schedule(async () => undefined);
+    const requests = [
+      limiter.schedule(async () => order.push('low'), 1, 'low'),
+      limiter.schedule(async () => order.push('normal'), 1, 'normal'),
+      limiter.schedule(async () => order.push('high'), 1, 'high')
+    ];
+
+    clock.advance(3000);
+    await Promise.all(requests);
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('does not hold a cheap cancel behind the timer armed for a heavier request', async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter({ capacity: 10, refillPerSecond: 1 }, clock);
+    let cancelled = false;
+    let polled = false;
+
+    await limiter.schedule(async () => undefined, 10);
+    limiter.schedule(async () => { polled = true; }, 10, 'low');
+
+    // One token is back long before the ten the poll needs
+    clock.advance(1000);
+    await limiter.schedule(async () => { cancelled = true; }, 1, 'high');
+
+    expect(cancelled).toBe(true);
+    expect(polled).toBe(false);
+    expect(clock.pendingTimers()).toBe(1);
+  });
+
+  it('rejects queued requests when cleared', async () => {
+    const limiter = new RateLimiter({ capacity: 1, refillPerSecond: 1 }, new FakeClock());
+
+    await limiter.schedule(async () => undefined);
+    const pending = limiter.schedule(async () => undefined);
+    limiter.clear('removed');
+
+    await expect(pending).rejects.toThrow('removed');
+  });
+});
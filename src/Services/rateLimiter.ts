@@ -0,0 +1,152 @@
+// src/services/rateLimiter.ts
+
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+type RequestPriority = 'high' | 'normal' | 'low';
+
+interface RateLimitConfig {
+  capacity: number; // Burst size in request weight units
+  refillPerSecond: number;
+}
+
+interface RateLimitStatus {
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+  queued: Record<RequestPriority, number>;
+  totalScheduled: number;
+  totalDispatched: number;
+  totalDelayed: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedRequest {
+  cost: number;
+  enqueuedAt: number;
+  run: () => void;
+  reject: (error: Error) => void;
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Token bucket with one FIFO queue per priority. Higher priority queues are
+ * always drained first, so cancels are never stuck behind market data polls.
+ */
+class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { high: [], normal: [], low: [] };
+  private timer: TimerHandle | null = null;
+  private totalScheduled = 0;
+  private totalDispatched = 0;
+  private totalDelayed = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(private config: RateLimitConfig, private clock: Clock = systemClock) {
+    this.tokens = config.capacity;
+    this.lastRefill = clock.now();
+  }
+
+  schedule<T>(task: () => Promise<T>, cost: number = 1, priority: RequestPriority = 'normal'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        // A request heavier than the whole bucket would never run, so cap it
+        cost: Math.min(cost, this.config.capacity),
+        enqueuedAt: this.clock.now(),
+        run: () => {
+          task().then(resolve, reject);
+        },
+        reject
+      });
+      this.totalScheduled++;
+      this.drain();
+    });
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+
+    return {
+      tokens: this.tokens,
+      capacity: this.config.capacity,
+      refillPerSecond: this.config.refillPerSecond,
+      queued: {
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length
+      },
+      totalScheduled: this.totalScheduled,
+      totalDispatched: this.totalDispatched,
+      totalDelayed: this.totalDelayed,
+      averageWaitMs: this.totalDispatched > 0 ? this.totalWaitMs / this.totalDispatched : 0,
+      maxWaitMs: this.maxWaitMs
+    };
+  }
+
+  /**
+   * Reject everything still queued, e.g. when the exchange is removed
+   */
+  clear(reason: string = 'Rate limiter cleared') {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    PRIORITIES.forEach(priority => {
+      const pending = this.queues[priority];
+      this.queues[priority] = [];
+      pending.forEach(request => request.reject(new Error(reason)));
+    });
+  }
+
+  private refill() {
+    const now = this.clock.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.config.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Dispatch what the bucket allows, then wait for the head of the highest
+   * priority queue. Every call re-evaluates, so a cheap high priority request
+   * never waits on a timer armed for a heavier one behind it.
+   */
+  private drain() {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
+
+    for (;;) {
+      const priority = PRIORITIES.find(p => this.queues[p].length > 0);
+      if (!priority) return;
+
+      const next = this.queues[priority][0];
+      if (this.tokens < next.cost) {
+        const waitMs = Math.ceil(((next.cost - this.tokens) / this.config.refillPerSecond) * 1000);
+        this.timer = this.clock.setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, waitMs);
+        return;
+      }
+
+      this.queues[priority].shift();
+      this.tokens -= next.cost;
+
+      const waited = this.clock.now() - next.enqueuedAt;
+      this.totalDispatched++;
+      if (waited > 0) this.totalDelayed++;
+      this.totalWaitMs += waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+
+      next.run();
+    }
+  }
+}
+
+export { RateLimiter };
+export type { RequestPriority, RateLimitConfig, RateLimitStatus };
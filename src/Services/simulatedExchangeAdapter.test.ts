@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+import { ExchangeService } from './exchangeService';
+import type { ExchangeCredentials } from './exchangeService';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+// A flat market with a 1% spread: bid 99.5, ask 100.5
+const createAdapter = () => new SimulatedExchangeAdapter('sim', credentials, {
+  basePrices: { 'BTC/USD': 100 },
+  volatility: 0,
+  spread: 0.01,
+  feeRate: 0
+});
+
+describe('SimulatedExchangeAdapter', () => {
+  it('fills a marketable buy limit at the ask, not its limit', async () => {
+    const adapter = createAdapter();
+    const order = await adapter.createOrder('BTC/USD', 'limit', 'buy', 1, 110);
+
+    expect(order.status).toBe('closed');
+    expect(order.average).toBeCloseTo(100.5);
+    const [trade] = await adapter.fetchMyTrades('BTC/USD');
+    expect(trade.price).toBeCloseTo(100.5);
+  });
+
+  it('fills a marketable IOC sell limit at the bid', async () => {
+    const adapter = createAdapter();
+    const order = await adapter.createOrder('BTC/USD', 'limit', 'sell', 0.5, 90, { timeInForce: 'IOC' });
+
+    expect(order.status).toBe('closed');
+    expect(order.average).toBeCloseTo(99.5);
+  });
+
+  it('refunds the reservation a better fill price leaves unspent', async () => {
+    const adapter = createAdapter();
+    await adapter.createOrder('BTC/USD', 'limit', 'buy', 1, 110);
+
+    const balance = await adapter.fetchBalance();
+    expect(balance.free.USD).toBeCloseTo(100000 - 100.5);
+    expect(balance.used.USD).toBeCloseTo(0);
+  });
+
+  it('leaves a passive limit resting until the market reaches it', async () => {
+    const adapter = createAdapter();
+    const order = await adapter.createOrder('BTC/USD', 'limit', 'buy', 1, 99);
+
+    expect(order.status).toBe('open');
+    expect(await adapter.fetchOpenOrders('BTC/USD')).toHaveLength(1);
+  });
+
+  it('produces the same prices for the same seed', async () => {
+    const run = async (seed: number) => {
+      const adapter = new SimulatedExchangeAdapter('sim', credentials, { seed });
+      await adapter.fetchTicker('BTC/USD');
+      adapter.step(50);
+      return (await adapter.fetchTicker('BTC/USD')).last;
+    };
+
+    expect(await run(7)).toBe(await run(7));
+    expect(await run(7)).not.toBe(await run(8));
+  });
+
+  it('takes its options from the account when connected through ExchangeService', async () => {
+    const service = new ExchangeService();
+    await service.addAccount({
+      id: 'sim',
+      exchange: 'sim',
+      credentials,
+      sandbox: true,
+      adapter: 'simulated',
+      adapterOptions: { seed: 7, basePrices: { 'BTC/USD': 20000 } }
+    });
+
+    expect((await service.getTicker('sim', 'BTC/USD')).last).toBe(20000);
+  });
+});
@@ -0,0 +1,624 @@
+// src/services/simulatedExchangeAdapter.ts
+
+import type { ExchangeAdapter, ExchangeCapabilities, OrderParams, RawBalance } from './exchangeAdapter';
+import type {
+  ExchangeCredentials,
+  Market,
+  Order,
+  OrderType,
+  Ticker,
+  OHLCV,
+  ExchangeTrade
+} from './exchangeService';
+import { InsufficientFunds, InvalidOrder } from './exchangeErrors';
+import { addTimeframes, ceilToTimeframe, floorToTimeframe, getTimeframeMs } from '../utils/timeframes';
+import { decimalsOf } from '../utils/precision';
+
+interface SimulatedExchangeOptions {
+  seed?: number;
+  startTime?: number;
+  stepMs?: number;
+  volatility?: number; // Standard deviation of the log return per step
+  spread?: number; // Full bid/ask spread as a fraction of the mid price
+  feeRate?: number;
+  liquidityPerStep?: number; // Max base quantity a resting order can fill per step
+  basePrices?: Record<string, number>; // Also the list of listed markets
+  balances?: Record<string, number>;
+  markets?: Record<string, Partial<Market>>; // Per-symbol overrides of the default market rules
+}
+
+interface SimulatedOrder extends Order {
+  reservedPrice: number;
+  expiresAt?: number;
+  cost: number;
+  sequence: number;
+}
+
+interface PricePoint {
+  timestamp: number;
+  price: number;
+  volume: number;
+}
+
+interface MarketState {
+  symbol: string;
+  base: string;
+  quote: string;
+  price: number;
+  openPrice: number;
+  random: () => number;
+  history: PricePoint[];
+  bids: SimulatedOrder[];
+  asks: SimulatedOrder[];
+  stops: SimulatedOrder[];
+}
+
+const DEFAULT_OPTIONS: Required<SimulatedExchangeOptions> = {
+  seed: 42,
+  startTime: Date.UTC(2024, 0, 1),
+  stepMs: 60 * 1000,
+  volatility: 0.002,
+  spread: 0.001,
+  feeRate: 0.001,
+  liquidityPerStep: Infinity,
+  basePrices: { 'BTC/USD': 45000, 'ETH/USD': 3000 },
+  balances: { USD: 100000, BTC: 1, ETH: 10 },
+  markets: {}
+};
+
+const EPSILON = 1e-12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small seedable PRNG so price paths are identical across runs
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashSeed(seed: number, key: string): number {
+  let hash = (0x811C9DC5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function gaussian(random: () => number): number {
+  const u1 = random() || EPSILON;
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Stateful paper-trading venue. Prices follow a seeded random walk that only
+ * advances when step() is called, so a given sequence of calls always produces
+ * the same fills. Each symbol keeps a price-time ordered book of resting limit
+ * orders plus a list of untriggered stops, matched after every price move.
+ */
+class SimulatedExchangeAdapter implements ExchangeAdapter {
+  readonly capabilities: ExchangeCapabilities = {
+    fetchOHLCV: true,
+    fetchOrders: true,
+    fetchOpenOrders: true,
+    fetchMyTrades: true,
+    cancelOrder: true,
+    orderTypes: ['market', 'limit', 'stop', 'stop_limit'],
+    timeInForce: ['GTC', 'IOC', 'FOK', 'DAY'],
+    postOnly: true,
+    reduceOnly: false, // Spot only, there are no positions to reduce
+    clientOrderId: true,
+    sandbox: true
+  };
+
+  private options: Required<SimulatedExchangeOptions>;
+  private clock: number;
+  private sequence = 0;
+  private markets: Map<string, MarketState> = new Map();
+  private balances: Map<string, { free: number; used: number }> = new Map();
+  private orders: Map<string, SimulatedOrder> = new Map();
+  private trades: ExchangeTrade[] = [];
+
+  constructor(readonly id: string, private credentials: ExchangeCredentials, options: SimulatedExchangeOptions = {}) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      basePrices: { ...DEFAULT_OPTIONS.basePrices, ...options.basePrices }
+    };
+    this.clock = this.options.startTime;
+
+    Object.entries(this.options.balances).forEach(([currency, amount]) => {
+      this.balances.set(currency, { free: amount, used: 0 });
+    });
+  }
+
+  /**
+   * Advance the simulated clock, moving every known market and matching resting orders
+   */
+  step(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.clock += this.options.stepMs;
+
+      this.markets.forEach(market => {
+        market.price *= Math.exp(this.options.volatility * gaussian(market.random));
+        market.history.push({ timestamp: this.clock, price: market.price, volume: 0 });
+        this.expireDayOrders(market);
+        this.triggerStops(market);
+        this.matchBook(market);
+      });
+    }
+  }
+
+  now(): number {
+    return this.clock;
+  }
+
+  async fetchMarkets(): Promise<Market[]> {
+    return Object.keys(this.options.basePrices).map(symbol => {
+      const [base, quote = 'USD'] = symbol.split('/');
+      const market: Market = {
+        symbol,
+        base,
+        quote,
+        active: true,
+        tickSize: 0.01,
+        lotSize: 0.0001,
+        minAmount: 0.0001,
+        minNotional: 10,
+        pricePrecision: 0,
+        amountPrecision: 0,
+        ...this.options.markets[symbol]
+      };
+
+      market.pricePrecision = decimalsOf(market.tickSize);
+      market.amountPrecision = decimalsOf(market.lotSize);
+      return market;
+    });
+  }
+
+  async fetchBalance(): Promise<RawBalance> {
+    const balance: RawBalance = { free: {}, used: {}, total: {} };
+
+    this.balances.forEach((entry, currency) => {
+      balance.free[currency] = entry.free;
+      balance.used[currency] = entry.used;
+      balance.total[currency] = entry.free + entry.used;
+    });
+
+    return balance;
+  }
+
+  async fetchTicker(symbol: string): Promise<Ticker> {
+    const market = this.getMarket(symbol);
+    const prices = market.history.map(point => point.price);
+    const change = market.price - market.openPrice;
+
+    return {
+      symbol,
+      bid: this.getBid(market),
+      ask: this.getAsk(market),
+      last: market.price,
+      volume: market.history.reduce((sum, point) => sum + point.volume, 0),
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      change,
+      percentage: (change / market.openPrice) * 100,
+      timestamp: this.clock
+    };
+  }
+
+  async fetchOHLCV(symbol: string, timeframe: string, limit: number, since?: number): Promise<OHLCV[]> {
+    const market = this.getMarket(symbol);
+    const currentBucket = floorToTimeframe(this.clock, timeframe);
+    const firstBucket = since !== undefined ? ceilToTimeframe(since, timeframe) : addTimeframes(currentBucket, timeframe, -(limit - 1));
+    const lastBucket = Math.min(currentBucket, addTimeframes(firstBucket, timeframe, limit - 1));
+    const startBucket = floorToTimeframe(this.options.startTime, timeframe);
+    if (lastBucket < firstBucket) return [];
+
+    // Candles before the simulation started are synthesised by walking back from the initial price
+    const candles = this.synthesizeHistory(market, timeframe, firstBucket, startBucket)
+      .filter(candle => candle.timestamp <= lastBucket);
+
+    let previousClose = market.history[0].price;
+    for (
+      let timestamp = candles.length > 0 ? startBucket : firstBucket;
+      timestamp <= lastBucket;
+      timestamp = addTimeframes(timestamp, timeframe, 1)
+    ) {
+      const bucketEnd = addTimeframes(timestamp, timeframe, 1);
+      const points = market.history.filter(point => point.timestamp >= timestamp && point.timestamp < bucketEnd);
+
+      if (points.length === 0) {
+        candles.push({ timestamp, open: previousClose, high: previousClose, low: previousClose, close: previousClose, volume: 0 });
+        continue;
+      }
+
+      const prices = points.map(point => point.price);
+      candles.push({
+        timestamp,
+        open: prices[0],
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close: prices[prices.length - 1],
+        volume: points.reduce((sum, point) => sum + point.volume, 0)
+      });
+      previousClose = prices[prices.length - 1];
+    }
+
+    return candles;
+  }
+
+  async createOrder(symbol: string, type: string, side: string, amount: number, price?: number, params: OrderParams = {}): Promise<Order> {
+    const market = this.getMarket(symbol);
+    const timeInForce = params.timeInForce || 'GTC';
+
+    if (side !== 'buy' && side !== 'sell') {
+      throw new InvalidOrder(`Invalid order side: ${side}`, this.id);
+    }
+    if (!this.capabilities.orderTypes.includes(type as OrderType)) {
+      throw new InvalidOrder(`Unsupported order type: ${type}`, this.id);
+    }
+    if (!amount || amount <= 0) {
+      throw new InvalidOrder('Amount must be greater than 0', this.id);
+    }
+    if ((type === 'limit' || type === 'stop_limit') && (!price || price <= 0)) {
+      throw new InvalidOrder(`Price is required for ${type} orders`, this.id);
+    }
+    if ((type === 'stop' || type === 'stop_limit') && (!params.stopPrice || params.stopPrice <= 0)) {
+      throw new InvalidOrder(`Stop price is required for ${type} orders`, this.id);
+    }
+    if (params.reduceOnly) {
+      throw new InvalidOrder('Reduce-only orders are not supported', this.id);
+    }
+    if (params.clientOrderId && Array.from(this.orders.values()).some(o => o.clientOrderId === params.clientOrderId)) {
+      throw new InvalidOrder(`Duplicate client order ID: ${params.clientOrderId}`, this.id);
+    }
+    if (params.postOnly && type === 'limit' && this.crosses(market, side, price)) {
+      throw new InvalidOrder('Post-only order would take liquidity', this.id);
+    }
+
+    const reservedPrice = type === 'market'
+      ? (side === 'buy' ? this.getAsk(market) : this.getBid(market))
+      : (type === 'stop' ? params.stopPrice : price);
+
+    const order: SimulatedOrder = {
+      id: `${this.id}-${++this.sequence}`,
+      clientOrderId: params.clientOrderId,
+      symbol,
+      type,
+      side,
+      amount,
+      price: type === 'market' || type === 'stop' ? 0 : price,
+      stopPrice: params.stopPrice,
+      timeInForce,
+      postOnly: params.postOnly,
+      status: 'open',
+      filled: 0,
+      remaining: amount,
+      timestamp: this.clock,
+      fee: { currency: market.quote, cost: 0 },
+      average: 0,
+      reservedPrice,
+      expiresAt: timeInForce === 'DAY' ? (Math.floor(this.clock / DAY_MS) + 1) * DAY_MS : undefined,
+      cost: 0,
+      sequence: this.sequence
+    };
+
+    this.reserve(market, order);
+    this.orders.set(order.id, order);
+
+    if (type === 'market') {
+      this.fill(market, order, amount, reservedPrice);
+    } else if (type === 'stop' || type === 'stop_limit') {
+      market.stops.push(order);
+      this.triggerStops(market);
+    } else {
+      this.activateLimit(market, order);
+    }
+
+    return this.toOrder(order);
+  }
+
+  async fetchOrder(id: string): Promise<Order> {
+    const order = this.orders.get(id);
+    if (!order) {
+      throw new InvalidOrder(`Order ${id} not found`, this.id);
+    }
+    return this.toOrder(order);
+  }
+
+  async fetchOrders(symbol?: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => !symbol || order.symbol === symbol)
+      .map(order => this.toOrder(order));
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'open' && (!symbol || order.symbol === symbol))
+      .map(order => this.toOrder(order));
+  }
+
+  async cancelOrder(id: string): Promise<{ id: string; status: Order['status'] }> {
+    const order = this.orders.get(id);
+    if (!order) {
+      throw new InvalidOrder(`Order ${id} not found`, this.id);
+    }
+    if (order.status !== 'open') {
+      throw new InvalidOrder(`Order ${id} is not open`, this.id);
+    }
+
+    const market = this.getMarket(order.symbol);
+    market.bids = market.bids.filter(o => o.id !== id);
+    market.asks = market.asks.filter(o => o.id !== id);
+    market.stops = market.stops.filter(o => o.id !== id);
+
+    this.releaseReservation(market, order, order.remaining);
+    order.status = 'canceled';
+
+    return { id, status: order.status };
+  }
+
+  async fetchMyTrades(symbol?: string, since?: number): Promise<ExchangeTrade[]> {
+    return this.trades
+      .filter(trade => (!symbol || trade.symbol === symbol) && (!since || trade.timestamp >= since))
+      .map(trade => ({ ...trade, fee: trade.fee && { ...trade.fee } }));
+  }
+
+  private getMarket(symbol: string): MarketState {
+    let market = this.markets.get(symbol);
+    if (!market) {
+      const [base, quote = 'USD'] = symbol.split('/');
+      const price = this.options.basePrices[symbol] || 100;
+
+      market = {
+        symbol,
+        base,
+        quote,
+        price,
+        openPrice: price,
+        random: mulberry32(hashSeed(this.options.seed, symbol)),
+        history: [{ timestamp: this.clock, price, volume: 0 }],
+        bids: [],
+        asks: [],
+        stops: []
+      };
+      this.markets.set(symbol, market);
+    }
+    return market;
+  }
+
+  private crosses(market: MarketState, side: string, price: number): boolean {
+    return side === 'buy' ? price >= this.getAsk(market) : price <= this.getBid(market);
+  }
+
+  private getBid(market: MarketState): number {
+    return market.price * (1 - this.options.spread / 2);
+  }
+
+  private getAsk(market: MarketState): number {
+    return market.price * (1 + this.options.spread / 2);
+  }
+
+  private getBalance(currency: string) {
+    let balance = this.balances.get(currency);
+    if (!balance) {
+      balance = { free: 0, used: 0 };
+      this.balances.set(currency, balance);
+    }
+    return balance;
+  }
+
+  private reservationPerUnit(order: SimulatedOrder): number {
+    return order.side === 'buy' ? order.reservedPrice * (1 + this.options.feeRate) : 1;
+  }
+
+  private reserve(market: MarketState, order: SimulatedOrder) {
+    const currency = order.side === 'buy' ? market.quote : market.base;
+    const required = order.amount * this.reservationPerUnit(order);
+    const balance = this.getBalance(currency);
+
+    if (balance.free + EPSILON < required) {
+      throw new InsufficientFunds(`Insufficient funds: ${required} ${currency} required, ${balance.free} available`, this.id);
+    }
+
+    balance.free -= required;
+    balance.used += required;
+  }
+
+  private releaseReservation(market: MarketState, order: SimulatedOrder, quantity: number) {
+    const balance = this.getBalance(order.side === 'buy' ? market.quote : market.base);
+    const amount = Math.min(balance.used, quantity * this.reservationPerUnit(order));
+    balance.used -= amount;
+    balance.free += amount;
+  }
+
+  private fill(market: MarketState, order: SimulatedOrder, quantity: number, price: number) {
+    const cost = quantity * price;
+    const fee = cost * this.options.feeRate;
+    const quote = this.getBalance(market.quote);
+    const base = this.getBalance(market.base);
+
+    this.releaseReservation(market, order, quantity);
+
+    if (order.side === 'buy') {
+      if (quote.free + EPSILON < cost + fee) {
+        // Triggered stops can gap past their reservation; reject rather than go negative
+        this.releaseReservation(market, order, order.remaining - quantity);
+        order.status = 'canceled';
+        this.removeFromBook(market, order);
+        return;
+      }
+      quote.free -= cost + fee;
+      base.free += quantity;
+    } else {
+      base.free -= quantity;
+      quote.free += cost - fee;
+    }
+
+    order.filled += quantity;
+    order.remaining = order.amount - order.filled;
+    if (order.remaining <= EPSILON) {
+      order.remaining = 0;
+      order.status = 'closed';
+      this.removeFromBook(market, order);
+    }
+    order.cost += cost;
+    order.average = order.cost / order.filled;
+    order.fee.cost += fee;
+
+    this.trades.push({
+      id: `${order.id}-${this.trades.length + 1}`,
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side as 'buy' | 'sell',
+      amount: quantity,
+      price,
+      cost,
+      fee: { currency: market.quote, cost: fee },
+      timestamp: this.clock
+    });
+    market.history[market.history.length - 1].volume += quantity;
+  }
+
+  private insertIntoBook(market: MarketState, order: SimulatedOrder) {
+    const side = order.side === 'buy' ? market.bids : market.asks;
+    side.push(order);
+    // Price-time priority: best price first, then earliest sequence
+    side.sort((a, b) => (order.side === 'buy' ? b.price - a.price : a.price - b.price) || a.sequence - b.sequence);
+  }
+
+  private removeFromBook(market: MarketState, order: SimulatedOrder) {
+    market.bids = market.bids.filter(o => o.id !== order.id);
+    market.asks = market.asks.filter(o => o.id !== order.id);
+    market.stops = market.stops.filter(o => o.id !== order.id);
+  }
+
+  /**
+   * Put a limit (or triggered stop-limit) order to work, honouring its time in force
+   */
+  private activateLimit(market: MarketState, order: SimulatedOrder) {
+    if (order.timeInForce !== 'IOC' && order.timeInForce !== 'FOK') {
+      this.insertIntoBook(market, order);
+      this.matchBook(market);
+      return;
+    }
+
+    // Immediate orders never rest: take what is available now and expire the rest
+    const available = this.crosses(market, order.side, order.price) ? Math.min(order.remaining, this.options.liquidityPerStep) : 0;
+    if (order.timeInForce === 'FOK' && available + EPSILON < order.remaining) {
+      this.expire(market, order);
+      return;
+    }
+    if (available > 0) {
+      this.fill(market, order, available, this.limitFillPrice(market, order));
+    }
+    if (order.status === 'open') {
+      this.expire(market, order);
+    }
+  }
+
+  private expire(market: MarketState, order: SimulatedOrder) {
+    this.removeFromBook(market, order);
+    this.releaseReservation(market, order, order.remaining);
+    order.status = 'expired';
+  }
+
+  private expireDayOrders(market: MarketState) {
+    [...market.bids, ...market.asks, ...market.stops]
+      .filter(order => order.expiresAt !== undefined && order.expiresAt <= this.clock)
+      .forEach(order => this.expire(market, order));
+  }
+
+  /**
+   * A crossing limit order trades at the touch it crosses, never worse than its limit
+   */
+  private limitFillPrice(market: MarketState, order: SimulatedOrder): number {
+    return order.side === 'buy' ? Math.min(order.price, this.getAsk(market)) : Math.max(order.price, this.getBid(market));
+  }
+
+  private matchBook(market: MarketState) {
+    let liquidity = this.options.liquidityPerStep;
+    const ask = this.getAsk(market);
+    for (const bid of [...market.bids]) {
+      if (bid.price < ask || liquidity <= EPSILON) break;
+      const quantity = Math.min(bid.remaining, liquidity);
+      this.fill(market, bid, quantity, this.limitFillPrice(market, bid));
+      liquidity -= quantity;
+    }
+
+    liquidity = this.options.liquidityPerStep;
+    const bid = this.getBid(market);
+    for (const offer of [...market.asks]) {
+      if (offer.price > bid || liquidity <= EPSILON) break;
+      const quantity = Math.min(offer.remaining, liquidity);
+      this.fill(market, offer, quantity, this.limitFillPrice(market, offer));
+      liquidity -= quantity;
+    }
+  }
+
+  private triggerStops(market: MarketState) {
+    const triggered = market.stops
+      .filter(order => order.side === 'buy' ? market.price >= order.stopPrice : market.price <= order.stopPrice)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    triggered.forEach(order => {
+      market.stops = market.stops.filter(o => o.id !== order.id);
+      if (order.type === 'stop_limit') {
+        this.activateLimit(market, order);
+      } else {
+        this.fill(market, order, order.remaining, order.side === 'buy' ? this.getAsk(market) : this.getBid(market));
+      }
+    });
+  }
+
+  // The walk always starts at the simulation start, so a candle is the same whichever window requested it
+  private synthesizeHistory(market: MarketState, timeframe: string, firstBucket: number, startBucket: number): OHLCV[] {
+    if (startBucket <= firstBucket) return [];
+
+    const random = mulberry32(hashSeed(this.options.seed, `${market.symbol}:${timeframe}`));
+    const barVolatility = this.options.volatility * Math.sqrt(getTimeframeMs(timeframe) / this.options.stepMs);
+    const candles: OHLCV[] = [];
+    let close = market.history[0].price;
+
+    for (let timestamp = addTimeframes(startBucket, timeframe, -1); timestamp >= firstBucket; timestamp = addTimeframes(timestamp, timeframe, -1)) {
+      const open = close / Math.exp(barVolatility * gaussian(random));
+      const high = Math.max(open, close) * (1 + random() * barVolatility);
+      const low = Math.min(open, close) * (1 - random() * barVolatility);
+      candles.unshift({ timestamp, open, high, low, close, volume: random() * 1000 });
+      close = open;
+    }
+
+    return candles;
+  }
+
+  private toOrder(order: SimulatedOrder): Order {
+    return {
+      id: order.id,
+      clientOrderId: order.clientOrderId,
+      symbol: order.symbol,
+      type: order.type,
+      side: order.side,
+      amount: order.amount,
+      price: order.price,
+      stopPrice: order.stopPrice,
+      timeInForce: order.timeInForce,
+      postOnly: order.postOnly,
+      status: order.status,
+      filled: order.filled,
+      remaining: order.remaining,
+      average: order.average,
+      timestamp: order.timestamp,
+      fee: { ...order.fee }
+    };
+  }
+}
+
+export { SimulatedExchangeAdapter };
+export type { SimulatedExchangeOptions };
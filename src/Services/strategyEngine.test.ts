@@ -0,0 +1,98 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { exchangeService } from './exchangeService';
+import type { ExchangeCredentials } from './exchangeService';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+import { StrategyEngine, strategyEngine } from './strategyEngine';
+import type { MarketData, StrategyError, TradingStrategy } from './strategyEngine';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+let adapter: SimulatedExchangeAdapter;
+
+describe('strategyEngine.backtestRange', () => {
+  beforeAll(async () => {
+    exchangeService.registerAdapter('simulated-test', account => {
+      adapter = new SimulatedExchangeAdapter(account.id, account.credentials, { seed: 1, basePrices: { 'BTC/USD': 100 } });
+      return adapter;
+    });
+    await exchangeService.addAccount({ id: 'sim', exchange: 'sim', credentials, sandbox: true, adapter: 'simulated-test' });
+  });
+
+  it('backtests on cached candles at the strategy timeframe', async () => {
+    const fetchOHLCV = vi.spyOn(adapter, 'fetchOHLCV');
+    const to = Date.UTC(2024, 0, 1);
+    const from = to - 200 * 3600000;
+
+    const first = await strategyEngine.backtestRange('Moving Average Crossover', 'sim', 'BTC/USD', from, to);
+    const calls = fetchOHLCV.mock.calls.length;
+    const second = await strategyEngine.backtestRange('Moving Average Crossover', 'sim', 'BTC/USD', from, to);
+
+    expect(first.totalTrades).toBeGreaterThan(0);
+    expect(calls).toBeGreaterThan(0);
+    expect(fetchOHLCV).toHaveBeenCalledTimes(calls);
+    expect(fetchOHLCV.mock.calls.every(([, timeframe]) => timeframe === '1h')).toBe(true);
+    expect(second).toEqual(first);
+  });
+});
+
+// Buys on the last close of whatever candles it is given
+const stubStrategy = (name: string, timeframe: string): TradingStrategy => ({
+  name,
+  description: name,
+  timeframe,
+  config: {
+    name,
+    parameters: {},
+    enabled: true,
+    riskManagement: { maxPositionSize: 1, stopLossPercent: 1, takeProfitPercent: 1, maxDrawdown: 1 }
+  },
+  execute: async candles => [{
+    id: name,
+    symbol: 'BTC/USD',
+    type: 'buy',
+    strength: 50,
+    confidence: 0.5,
+    price: candles[candles.length - 1].close,
+    timestamp: 0,
+    strategy: name,
+    reason: `${candles.length} bars`
+  }],
+  backtest: async () => { throw new Error('not used'); },
+  validate: () => true
+});
+
+describe('strategyEngine.runAllActiveStrategies', () => {
+  it('skips a strategy whose timeframe cannot be built from the feed and reports it', async () => {
+    const engine = new StrategyEngine();
+    engine.registerStrategy(stubStrategy('fifteen', '15m'));
+    engine.registerStrategy(stubStrategy('five', '5m'));
+    engine.enableStrategy('five');
+    engine.enableStrategy('fifteen');
+    const errors: StrategyError[] = [];
+    engine.subscribeToErrors(error => errors.push(error));
+
+    const start = Date.UTC(2024, 0, 1);
+    const candles: MarketData[] = Array.from({ length: 10 }, (_, i) => ({
+      symbol: 'BTC/USD',
+      timestamp: start + i * 180000,
+      open: 100 + i,
+      high: 100 + i,
+      low: 100 + i,
+      close: 100 + i,
+      volume: 1
+    }));
+
+    const signals = await engine.runAllActiveStrategies(candles, '3m');
+
+    expect(signals.map(signal => signal.strategy)).toEqual(['fifteen']);
+    expect(errors).toEqual([expect.objectContaining({ strategy: 'five' })]);
+  });
+});
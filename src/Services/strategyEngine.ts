@@ -1,6 +1,10 @@
 // src/services/strategyEngine.ts
 
 import { TechnicalIndicators } from '../utils/technicalIndicators';
+import { canResample, parseTimeframe } from '../utils/timeframes';
+import { resampleCandles } from '../utils/resample';
+import { feedHealthMonitor } from './feedHealth';
+import { exchangeService } from './exchangeService';
 
 export interface MarketData {
   symbol: string;
@@ -12,6 +16,23 @@ export interface MarketData {
   volume: number;
 }
 
+/**
+ * Live feed the candles came from, checked for health before strategies act on them
+ */
+export interface StrategyFeed {
+  exchange: string;
+  symbol: string;
+}
+
+/**
+ * A strategy that was skipped or failed during a run; the other strategies still ran
+ */
+export interface StrategyError {
+  strategy: string;
+  message: string;
+  timestamp: number;
+}
+
 export interface Signal {
   id: string;
   symbol: string;
@@ -86,6 +107,7 @@ class StrategyEngine {
   private activeStrategies: Set<string> = new Set();
   private signalHistory: Signal[] = [];
   private subscribers: Set<(signal: Signal) => void> = new Set();
+  private errorSubscribers: Set<(error: StrategyError) => void> = new Set();
 
   constructor() {
     this.initializeDefaultStrategies();
@@ -101,6 +123,7 @@ class StrategyEngine {
   }
 
   registerStrategy(strategy: TradingStrategy): void {
+    parseTimeframe(strategy.timeframe); // Reject unknown timeframes up front
     this.strategies.set(strategy.name, strategy);
     console.log(`Strategy registered: ${strategy.name}`);
   }
@@ -125,18 +148,29 @@ class StrategyEngine {
     this.activeStrategies.delete(strategyName);
   }
 
-  async runStrategy(strategyName: string, marketData: MarketData[]): Promise<Signal[]> {
+  /**
+   * Run a strategy on candles of the given timeframe, resampled to the strategy's own timeframe when they differ.
+   * Nothing runs while the live feed behind the candles is unhealthy. A strategy whose timeframe cannot be built
+   * from the candles, or that fails, is reported to error subscribers and yields no signals.
+   */
+  async runStrategy(strategyName: string, marketData: MarketData[], timeframe?: string, feed?: StrategyFeed): Promise<Signal[]> {
     const strategy = this.strategies.get(strategyName);
     if (!strategy) {
       throw new Error(`Strategy not found: ${strategyName}`);
     }
 
-    if (!this.activeStrategies.has(strategyName)) {
+    if (!this.activeStrategies.has(strategyName) || !this.isFeedUsable(feed)) {
       return [];
     }
 
     try {
-      const signals = await strategy.execute(marketData);
+      if (timeframe && !canResample(timeframe, strategy.timeframe)) {
+        this.reportError(strategyName, `Skipped: cannot build ${strategy.timeframe} bars from ${timeframe} candles`);
+        return [];
+      }
+
+      const candles = timeframe ? resampleCandles(marketData, timeframe, strategy.timeframe) : marketData;
+      const signals = await strategy.execute(candles);
       
       // Store signals and notify subscribers
       signals.forEach(signal => {
@@ -146,16 +180,19 @@ class StrategyEngine {
 
       return signals;
     } catch (error) {
-      console.error(`Error executing strategy ${strategyName}:`, error);
+      this.reportError(strategyName, error instanceof Error ? error.message : String(error));
       return [];
     }
   }
 
-  async runAllActiveStrategies(marketData: MarketData[]): Promise<Signal[]> {
+  async runAllActiveStrategies(marketData: MarketData[], timeframe?: string, feed?: StrategyFeed): Promise<Signal[]> {
     const allSignals: Signal[] = [];
+    if (!this.isFeedUsable(feed)) {
+      return allSignals;
+    }
     
     for (const strategyName of this.activeStrategies) {
-      const signals = await this.runStrategy(strategyName, marketData);
+      const signals = await this.runStrategy(strategyName, marketData, timeframe);
       allSignals.push(...signals);
     }
     
@@ -168,7 +205,44 @@ class StrategyEngine {
       throw new Error(`Strategy not found: ${strategyName}`);
     }
 
-    return await strategy.backtest(historicalData, initialBalance);
+    // Backtest on the strategy's timeframe; a trailing partial bar would never have been seen live
+    const data = historicalData.timeframe === strategy.timeframe
+      ? historicalData
+      : {
+          ...historicalData,
+          timeframe: strategy.timeframe,
+          data: resampleCandles(historicalData.data, historicalData.timeframe, strategy.timeframe, { dropIncomplete: true })
+        };
+
+    return await strategy.backtest(data, initialBalance);
+  }
+
+  /**
+   * Backtest over [from, to) on an account's candles at the strategy's own
+   * timeframe. Candles come through the candle store, so spans already
+   * downloaded for earlier runs are not requested again.
+   */
+  async backtestRange(strategyName: string, accountId: string, symbol: string, from: number, to: number, initialBalance: number = 10000): Promise<BacktestResult> {
+    const strategy = this.strategies.get(strategyName);
+    if (!strategy) {
+      throw new Error(`Strategy not found: ${strategyName}`);
+    }
+
+    const candles = await exchangeService.fetchOHLCVRange(accountId, symbol, strategy.timeframe, from, to);
+    const data: MarketData[] = candles.map(candle => ({ symbol, ...candle }));
+
+    return await this.backtestStrategy(strategyName, { symbol, timeframe: strategy.timeframe, data }, initialBalance);
+  }
+
+  private isFeedUsable(feed?: StrategyFeed): boolean {
+    if (!feed) return true;
+
+    const health = feedHealthMonitor.getHealth(feed.exchange, feed.symbol);
+    if (health && !health.healthy) {
+      console.warn(`Not running strategies on ${feed.symbol}: ${feed.exchange} feed is unhealthy (${health.issues.join(', ')})`);
+      return false;
+    }
+    return true;
   }
 
   private consolidateSignals(signals: Signal[]): Signal[] {
@@ -248,6 +322,27 @@ class StrategyEngine {
     };
   }
 
+  subscribeToErrors(callback: (error: StrategyError) => void): () => void {
+    this.errorSubscribers.add(callback);
+
+    return () => {
+      this.errorSubscribers.delete(callback);
+    };
+  }
+
+  private reportError(strategyName: string, message: string): void {
+    console.error(`Error executing strategy ${strategyName}: ${message}`);
+
+    const error: StrategyError = { strategy: strategyName, message, timestamp: Date.now() };
+    this.errorSubscribers.forEach(callback => {
+      try {
+        callback(error);
+      } catch (callbackError) {
+        console.error('Error in strategy error subscriber callback:', callbackError);
+      }
+    });
+  }
+
   private notifySubscribers(signal: Signal): void {
     this.subscribers.forEach(callback => {
       try {
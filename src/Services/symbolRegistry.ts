@@ -0,0 +1,111 @@
+// src/services/symbolRegistry.ts
+
+interface InstrumentDefinition {
+  id: string; // Canonical BASE/QUOTE identifier used throughout the app
+  base: string;
+  quote: string;
+  venues: Record<string, string>; // Venue → native symbol, for pairs that do not follow the venue convention
+}
+
+/**
+ * How a venue spells pairs when no explicit mapping exists. Asset aliases map
+ * canonical asset codes to the venue's codes (Kraken calls BTC "XBT").
+ */
+interface VenueConvention {
+  format: (base: string, quote: string) => string;
+  parse: (native: string) => [string, string] | null;
+  assetAliases?: Record<string, string>;
+}
+
+// Longest first so BTCUSDT resolves to USDT rather than USD
+const KNOWN_QUOTES = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF', 'TRY', 'BTC', 'ETH', 'BNB'];
+
+function splitConcatenated(native: string): [string, string] | null {
+  const upper = native.toUpperCase();
+  const quote = KNOWN_QUOTES.find(q => upper.endsWith(q) && upper.length > q.length);
+  return quote ? [upper.slice(0, -quote.length), quote] : null;
+}
+
+function splitOn(separator: string) {
+  return (native: string): [string, string] | null => {
+    const parts = native.toUpperCase().split(separator);
+    return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+  };
+}
+
+const KRAKEN_ASSET_ALIASES: Record<string, string> = { BTC: 'XBT', DOGE: 'XDG' };
+
+class SymbolRegistry {
+  private instruments: Map<string, InstrumentDefinition> = new Map();
+  private nativeIndex: Map<string, Map<string, string>> = new Map(); // venue → native → canonical
+  private conventions: Map<string, VenueConvention> = new Map();
+
+  constructor() {
+    this.registerVenue('binance', { format: (base, quote) => `${base}${quote}`, parse: splitConcatenated });
+    this.registerVenue('kraken', { format: (base, quote) => `${base}/${quote}`, parse: splitOn('/'), assetAliases: KRAKEN_ASSET_ALIASES });
+    this.registerVenue('kraken_rest', { format: (base, quote) => `${base}${quote}`, parse: splitConcatenated, assetAliases: KRAKEN_ASSET_ALIASES });
+    this.registerVenue('coinbase', { format: (base, quote) => `${base}-${quote}`, parse: splitOn('-') });
+    this.registerVenue('okx', { format: (base, quote) => `${base}-${quote}`, parse: splitOn('-') });
+    this.registerVenue('bybit', { format: (base, quote) => `${base}${quote}`, parse: splitConcatenated });
+
+    // Binance, OKX and Bybit have no USD books for the majors, the USDT pairs are the equivalent instrument
+    this.registerInstrument({ id: 'BTC/USD', base: 'BTC', quote: 'USD', venues: { binance: 'BTCUSDT', okx: 'BTC-USDT', bybit: 'BTCUSDT' } });
+    this.registerInstrument({ id: 'ETH/USD', base: 'ETH', quote: 'USD', venues: { binance: 'ETHUSDT', okx: 'ETH-USDT', bybit: 'ETHUSDT' } });
+    this.registerInstrument({ id: 'SOL/USD', base: 'SOL', quote: 'USD', venues: { binance: 'SOLUSDT', okx: 'SOL-USDT', bybit: 'SOLUSDT' } });
+  }
+
+  registerVenue(venue: string, convention: VenueConvention) {
+    this.conventions.set(venue, convention);
+  }
+
+  registerInstrument(definition: InstrumentDefinition) {
+    this.instruments.set(definition.id, definition);
+
+    Object.entries(definition.venues).forEach(([venue, native]) => {
+      if (!this.nativeIndex.has(venue)) {
+        this.nativeIndex.set(venue, new Map());
+      }
+      this.nativeIndex.get(venue)!.set(native.toUpperCase(), definition.id);
+    });
+  }
+
+  getInstrument(id: string): InstrumentDefinition | undefined {
+    return this.instruments.get(id);
+  }
+
+  /**
+   * Canonical BASE/QUOTE → the venue's native spelling
+   */
+  toNative(venue: string, symbol: string): string {
+    const explicit = this.instruments.get(symbol)?.venues[venue];
+    if (explicit) return explicit;
+
+    const convention = this.conventions.get(venue);
+    const [base, quote] = symbol.split('/');
+    if (!convention || !quote) return symbol;
+
+    const aliases = convention.assetAliases || {};
+    return convention.format(aliases[base] || base, aliases[quote] || quote);
+  }
+
+  /**
+   * Venue native spelling → canonical BASE/QUOTE. Unrecognised symbols are returned unchanged.
+   */
+  toCanonical(venue: string, native: string): string {
+    const explicit = this.nativeIndex.get(venue)?.get(native.toUpperCase());
+    if (explicit) return explicit;
+
+    const convention = this.conventions.get(venue);
+    const parsed = convention?.parse(native);
+    if (!parsed) return native;
+
+    const reverse = Object.fromEntries(Object.entries(convention.assetAliases || {}).map(([asset, alias]) => [alias, asset]));
+    const [base, quote] = parsed;
+    return `${reverse[base] || base}/${reverse[quote] || quote}`;
+  }
+}
+
+// Singleton instance
+export const symbolRegistry = new SymbolRegistry();
+export { SymbolRegistry };
+export type { InstrumentDefinition, VenueConvention };
@@ -0,0 +1,224 @@
+// src/services/tradeFlow.ts
+
+import type { TradePrint } from './websocketService';
+
+interface TradeFlowOptions {
+  windowMs?: number; // Prints older than this, relative to the newest print, are dropped
+  priceStep?: number; // Width of a volume profile level, derived from the first print when omitted
+  valueAreaPercent?: number; // Share of volume the value area covers
+}
+
+interface PriceLevelVolume {
+  price: number; // Lower bound of the level
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  percentage: number; // Relative to the busiest level
+}
+
+interface DeltaBar {
+  timestamp: number; // Bar open time
+  buyVolume: number; // Aggressive buys, lifting the ask
+  sellVolume: number; // Aggressive sells, hitting the bid
+  delta: number;
+  cumDelta: number; // Running delta from the start of the window
+}
+
+interface ValueArea {
+  poc: number; // Point of control, the busiest level
+  high: number;
+  low: number;
+  percent: number; // Share of volume actually covered
+}
+
+interface FlowTotals {
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  trades: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TradeFlowOptions, 'priceStep'>> = {
+  windowMs: 60 * 60 * 1000,
+  valueAreaPercent: 70
+};
+
+/**
+ * Rolling order flow statistics over a window of trade prints: volume per
+ * price level, aggressor delta and VWAP. The window follows print timestamps
+ * rather than the wall clock so recorded prints aggregate the same way.
+ */
+class TradeFlowAggregator {
+  private prints: TradePrint[] = [];
+  private seen: Set<string> = new Set();
+  private priceStep?: number;
+  private windowMs: number;
+  private valueAreaPercent: number;
+
+  constructor(options: TradeFlowOptions = {}) {
+    const { windowMs, valueAreaPercent } = { ...DEFAULT_OPTIONS, ...options };
+    this.windowMs = windowMs;
+    this.valueAreaPercent = valueAreaPercent;
+    this.priceStep = options.priceStep;
+  }
+
+  /**
+   * Add a print; prints already in the window (e.g. replayed after a reconnect) are ignored
+   */
+  add(print: TradePrint) {
+    const key = `${print.exchange}:${print.symbol}:${print.tradeId}`;
+    if (this.seen.has(key)) return;
+
+    if (this.priceStep === undefined) {
+      // Roughly four significant figures per level, e.g. 10 for BTC near 60,000
+      this.priceStep = 10 ** (Math.floor(Math.log10(print.price)) - 3);
+    }
+
+    this.seen.add(key);
+    this.prints.push(print);
+    if (this.prints.length > 1 && print.timestamp < this.prints[this.prints.length - 2].timestamp) {
+      this.prints.sort((a, b) => a.timestamp - b.timestamp);
+    }
+    this.prune();
+  }
+
+  clear() {
+    this.prints = [];
+    this.seen.clear();
+  }
+
+  getTotals(): FlowTotals {
+    const totals: FlowTotals = { buyVolume: 0, sellVolume: 0, delta: 0, trades: this.prints.length };
+    this.prints.forEach(print => {
+      if (print.side === 'buy') {
+        totals.buyVolume += print.size;
+      } else {
+        totals.sellVolume += print.size;
+      }
+    });
+    totals.delta = totals.buyVolume - totals.sellVolume;
+    return totals;
+  }
+
+  /**
+   * Volume-weighted average price over the window, null before the first print
+   */
+  getVWAP(): number | null {
+    let value = 0;
+    let volume = 0;
+    this.prints.forEach(print => {
+      value += print.price * print.size;
+      volume += print.size;
+    });
+    return volume > 0 ? value / volume : null;
+  }
+
+  /**
+   * Traded volume per price level, lowest price first
+   */
+  getVolumeProfile(): PriceLevelVolume[] {
+    const step = this.priceStep;
+    if (step === undefined) return [];
+
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    const levels = new Map<number, PriceLevelVolume>();
+
+    this.prints.forEach(print => {
+      const price = Number((Math.floor(print.price / step) * step).toFixed(decimals));
+      const level = levels.get(price) || { price, volume: 0, buyVolume: 0, sellVolume: 0, percentage: 0 };
+      level.volume += print.size;
+      if (print.side === 'buy') {
+        level.buyVolume += print.size;
+      } else {
+        level.sellVolume += print.size;
+      }
+      levels.set(price, level);
+    });
+
+    const profile = Array.from(levels.values()).sort((a, b) => a.price - b.price);
+    const busiest = Math.max(0, ...profile.map(level => level.volume));
+    profile.forEach(level => {
+      level.percentage = busiest > 0 ? (level.volume / busiest) * 100 : 0;
+    });
+    return profile;
+  }
+
+  /**
+   * Point of control and the range around it holding valueAreaPercent of the
+   * volume, grown one level at a time towards the busier neighbour
+   */
+  getValueArea(): ValueArea | null {
+    const profile = this.getVolumeProfile();
+    if (profile.length === 0) return null;
+
+    const total = profile.reduce((sum, level) => sum + level.volume, 0);
+    const pocIndex = profile.reduce((best, level, index) => level.volume > profile[best].volume ? index : best, 0);
+    const target = total * this.valueAreaPercent / 100;
+
+    let low = pocIndex;
+    let high = pocIndex;
+    let covered = profile[pocIndex].volume;
+
+    while (covered < target && (low > 0 || high < profile.length - 1)) {
+      const below = low > 0 ? profile[low - 1].volume : -1;
+      const above = high < profile.length - 1 ? profile[high + 1].volume : -1;
+      if (above >= below) {
+        high++;
+        covered += above;
+      } else {
+        low--;
+        covered += below;
+      }
+    }
+
+    return {
+      poc: profile[pocIndex].price,
+      high: profile[high].price,
+      low: profile[low].price,
+      percent: total > 0 ? (covered / total) * 100 : 0
+    };
+  }
+
+  /**
+   * Buy and sell volume per interval, oldest first, with delta accumulated across the window
+   */
+  getDeltaBars(intervalMs: number = 60000): DeltaBar[] {
+    const bars = new Map<number, DeltaBar>();
+
+    this.prints.forEach(print => {
+      const timestamp = Math.floor(print.timestamp / intervalMs) * intervalMs;
+      const bar = bars.get(timestamp) || { timestamp, buyVolume: 0, sellVolume: 0, delta: 0, cumDelta: 0 };
+      if (print.side === 'buy') {
+        bar.buyVolume += print.size;
+      } else {
+        bar.sellVolume += print.size;
+      }
+      bars.set(timestamp, bar);
+    });
+
+    let cumDelta = 0;
+    return Array.from(bars.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(bar => {
+        const delta = bar.buyVolume - bar.sellVolume;
+        cumDelta += delta;
+        return { ...bar, delta, cumDelta };
+      });
+  }
+
+  private prune() {
+    const cutoff = this.prints[this.prints.length - 1].timestamp - this.windowMs;
+    let expired = 0;
+    while (expired < this.prints.length && this.prints[expired].timestamp < cutoff) {
+      const print = this.prints[expired];
+      this.seen.delete(`${print.exchange}:${print.symbol}:${print.tradeId}`);
+      expired++;
+    }
+    if (expired > 0) {
+      this.prints = this.prints.slice(expired);
+    }
+  }
+}
+
+export { TradeFlowAggregator };
+export type { TradeFlowOptions, PriceLevelVolume, DeltaBar, ValueArea, FlowTotals };
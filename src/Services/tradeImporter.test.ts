@@ -0,0 +1,80 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const database = vi.hoisted(() => ({
+  result: { data: [] as Array<{ id: string }> | null, error: null as { message: string } | null }
+}));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ in: async () => database.result }) })
+  }
+}));
+
+vi.mock('./portfolioService', () => ({
+  portfolioService: {
+    updatePositions: vi.fn(async () => ({ id: 'portfolio-1' }))
+  }
+}));
+
+import { exchangeService } from './exchangeService';
+import type { ExchangeCredentials } from './exchangeService';
+import { SimulatedExchangeAdapter } from './simulatedExchangeAdapter';
+import { portfolioService } from './portfolioService';
+import { tradeImporter } from './tradeImporter';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+describe('tradeImporter.importTrades', () => {
+  beforeAll(async () => {
+    let adapter: SimulatedExchangeAdapter;
+    exchangeService.registerAdapter('simulated-test', account => {
+      adapter = new SimulatedExchangeAdapter(account.id, account.credentials, { basePrices: { 'BTC/USD': 100 } });
+      return adapter;
+    });
+    await exchangeService.addAccount({ id: 'sim', exchange: 'sim', credentials, sandbox: true, adapter: 'simulated-test' });
+    await adapter!.createOrder('BTC/USD', 'market', 'buy', 1);
+  });
+
+  beforeEach(() => {
+    vi.mocked(portfolioService.updatePositions).mockClear();
+  });
+
+  it('aborts when it cannot check which trades were already imported', async () => {
+    database.result = { data: null, error: { message: 'connection refused' } };
+
+    await expect(tradeImporter.importTrades('portfolio-1', 'sim')).rejects.toThrow('connection refused');
+    expect(portfolioService.updatePositions).not.toHaveBeenCalled();
+  });
+
+  it('skips trades the database already has', async () => {
+    const [trade] = await exchangeService.getMyTrades('sim');
+    database.result = { data: [{ id: `sim:sim:portfolio-1:BTC/USD:${trade.id}` }], error: null };
+
+    const result = await tradeImporter.importTrades('portfolio-1', 'sim');
+    expect(result.skipped).toBe(1);
+    expect(portfolioService.updatePositions).not.toHaveBeenCalled();
+  });
+
+  it('keeps trades on different symbols that share a trade ID apart', async () => {
+    database.result = { data: [], error: null };
+    const trade = { id: '1001', side: 'buy' as const, amount: 1, price: 100, cost: 100, timestamp: 1718000000000 };
+    vi.spyOn(exchangeService, 'getMyTrades').mockResolvedValueOnce([
+      { ...trade, symbol: 'BTC/USDT' },
+      { ...trade, symbol: 'ETH/USDT' }
+    ]);
+
+    const result = await tradeImporter.importTrades('portfolio-2', 'sim');
+
+    expect(result.skipped).toBe(0);
+    expect(result.imported.map(imported => imported.id)).toEqual(['sim:sim:portfolio-2:BTC/USDT:1001', 'sim:sim:portfolio-2:ETH/USDT:1001']);
+    expect(portfolioService.updatePositions).toHaveBeenCalledWith('portfolio-2', result.imported);
+  });
+});
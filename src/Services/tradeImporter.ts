@@ -0,0 +1,102 @@
+// src/services/tradeImporter.ts
+
+import { supabase } from '../lib/supabase';
+import { exchangeService } from './exchangeService';
+import type { ExchangeTrade } from './exchangeService';
+import { portfolioService } from './portfolioService';
+import type { Trade } from './portfolioService';
+
+interface TradeImportResult {
+  accountId: string;
+  fetched: number;
+  imported: Trade[];
+  skipped: number; // Already imported on an earlier run
+}
+
+/**
+ * Imports an account's exchange fill history into a portfolio. Trade IDs are
+ * derived from the account, symbol and exchange trade ID (Binance numbers
+ * trades per symbol), so running an import twice, or over an overlapping
+ * window, adds each fill only once. Intended for rebuilding a
+ * portfolio from exchange history rather than for portfolios that orderService
+ * already updates as its own orders fill.
+ */
+class TradeImporter {
+  private importedIds: Set<string> = new Set();
+
+  async importTrades(portfolioId: string, accountId: string, since?: number): Promise<TradeImportResult> {
+    const account = exchangeService.getAccount(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not initialized`);
+    }
+
+    try {
+      const exchangeTrades = await exchangeService.getMyTrades(accountId, since);
+      const candidates = exchangeTrades.map(trade => this.toPortfolioTrade(portfolioId, accountId, account.exchange, trade));
+      const existing = await this.findImportedIds(candidates.map(trade => trade.id));
+
+      const imported = candidates.filter(trade => !existing.has(trade.id));
+      if (imported.length > 0) {
+        const updated = await portfolioService.updatePositions(portfolioId, imported);
+        if (!updated) {
+          throw new Error(`Portfolio ${portfolioId} not found`);
+        }
+        imported.forEach(trade => this.importedIds.add(trade.id));
+      }
+
+      console.log(`Imported ${imported.length} of ${exchangeTrades.length} trades from ${accountId} into ${portfolioId}`);
+      return {
+        accountId,
+        fetched: exchangeTrades.length,
+        imported,
+        skipped: candidates.length - imported.length
+      };
+    } catch (error) {
+      console.error(`Error importing trades from ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  private toPortfolioTrade(portfolioId: string, accountId: string, exchange: string, trade: ExchangeTrade): Trade {
+    const [base] = trade.symbol.split('/');
+    // Portfolio commission is in the quote currency; fees charged in the base asset are converted at the fill price
+    const commission = !trade.fee ? 0 : trade.fee.currency === base ? trade.fee.cost * trade.price : trade.fee.cost;
+
+    return {
+      id: `${exchange}:${accountId}:${portfolioId}:${trade.symbol}:${trade.id}`,
+      portfolioId,
+      symbol: trade.symbol,
+      side: trade.side,
+      quantity: trade.amount,
+      price: trade.price,
+      timestamp: trade.timestamp,
+      commission,
+      exchange,
+      exchangeTradeId: trade.id
+    };
+  }
+
+  private async findImportedIds(ids: string[]): Promise<Set<string>> {
+    const found = new Set(ids.filter(id => this.importedIds.has(id)));
+    const unknown = ids.filter(id => !found.has(id));
+    if (unknown.length === 0) return found;
+
+    // Without the check every fill would look new, so an unreachable database aborts the import
+    const { data, error } = await supabase
+      .from('trades')
+      .select('id')
+      .in('id', unknown);
+
+    if (error) {
+      throw new Error(`Could not check for already imported trades: ${error.message}`);
+    }
+    data.forEach(row => found.add(row.id));
+
+    found.forEach(id => this.importedIds.add(id));
+    return found;
+  }
+}
+
+// Singleton instance
+export const tradeImporter = new TradeImporter();
+export type { TradeImportResult };
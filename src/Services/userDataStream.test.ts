@@ -0,0 +1,100 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({ upsert: async () => ({ error: null }) })
+  }
+}));
+
+vi.mock('./portfolioService', () => ({
+  portfolioService: {}
+}));
+
+import { exchangeService } from './exchangeService';
+import type { ExchangeCredentials } from './exchangeService';
+import { UserDataStreamService } from './userDataStream';
+import { FakeClock } from '../test/fakeClock';
+import { FakeWebSocket } from '../test/fakeWebSocket';
+
+const credentials: ExchangeCredentials = {
+  signer: {
+    keyId: 'test',
+    apiKey: 'test',
+    permissions: ['read', 'trade'],
+    sign: async () => '',
+    getPassphrase: async () => undefined
+  }
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('UserDataStreamService reconnects', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, _init?: RequestInit) => ({ ok: true, status: 200, json: async () => ({ listenKey: 'listen-key' }) })));
+    await exchangeService.addAccount({ id: 'binance', exchange: 'binance', credentials, sandbox: true });
+  });
+
+  afterEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  it('schedules one reconnect per failure and keeps retrying past five attempts', async () => {
+    const clock = new FakeClock();
+    const stream = new UserDataStreamService(clock);
+
+    const started = stream.start('binance');
+    await flush();
+    FakeWebSocket.instances[0].open();
+    await started;
+
+    for (let attempt = 1; attempt <= 8; attempt++) {
+      const sockets = FakeWebSocket.instances;
+      sockets[sockets.length - 1].fail();
+      await flush();
+      expect(clock.pendingTimers()).toBe(1);
+
+      clock.advance(60000);
+      await flush();
+      expect(FakeWebSocket.instances).toHaveLength(attempt + 1);
+      expect(sockets.slice(0, -1).every(ws => ws.closed)).toBe(true);
+    }
+
+    FakeWebSocket.instances[FakeWebSocket.instances.length - 1].open();
+    expect(stream.isStreaming('binance')).toBe(true);
+
+    stream.stop('binance');
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('keeps the listen key alive on the clock and reconnects when a keep-alive fails', async () => {
+    const clock = new FakeClock();
+    const stream = new UserDataStreamService(clock);
+
+    const started = stream.start('binance');
+    await flush();
+    FakeWebSocket.latest().open();
+    await started;
+    const keepAlives = () => vi.mocked(fetch).mock.calls.filter(([, init]) => init?.method === 'PUT').length;
+
+    clock.advance(30 * 60 * 1000);
+    await flush();
+    expect(keepAlives()).toBe(1);
+    expect(clock.pendingTimers()).toBe(1);
+    expect(stream.isStreaming('binance')).toBe(true);
+
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 400, json: async () => ({}) } as Response);
+    clock.advance(30 * 60 * 1000);
+    await flush();
+    expect(keepAlives()).toBe(2);
+    expect(FakeWebSocket.instances[0].closed).toBe(true);
+    expect(clock.pendingTimers()).toBe(1);
+
+    clock.advance(60000);
+    await flush();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    stream.stop('binance');
+    expect(clock.pendingTimers()).toBe(0);
+  });
+});
@@ -0,0 +1,602 @@
+// src/services/userDataStream.ts
+
+import { exchangeService } from './exchangeService';
+import type { Order as ExchangeOrder } from './exchangeService';
+import type { RequestSigner } from './credentialVault';
+import { orderService } from './orderService';
+import { portfolioService } from './portfolioService';
+import { symbolRegistry } from './symbolRegistry';
+import { KrakenApiClient } from '../lib/krakenApi';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import { backoffDelay } from '../utils/retry';
+
+interface StreamOrderUpdate {
+  exchangeOrderId: string;
+  clientOrderId?: string; // Our order id when the order was placed with one
+  symbol: string;
+  status: ExchangeOrder['status'];
+  timestamp: number;
+}
+
+interface StreamFill {
+  tradeId: string;
+  exchangeOrderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number;
+  fee?: { currency: string; cost: number };
+  timestamp: number;
+}
+
+interface StreamBalanceUpdate {
+  currency: string;
+  delta?: number; // Deposit, withdrawal or transfer
+  total?: number; // Absolute balance after the change
+  timestamp: number;
+}
+
+type UserDataEvent =
+  | ({ type: 'order' } & StreamOrderUpdate)
+  | ({ type: 'fill' } & StreamFill)
+  | ({ type: 'balance' } & StreamBalanceUpdate);
+
+interface UserStreamOptions {
+  portfolioId?: string; // Portfolio whose exchange balances follow the account's balance updates
+  symbols?: string[]; // Canonical symbols, required by venues that subscribe per product
+}
+
+interface PrivateSession {
+  url: string;
+  subscriptions: object[];
+  keepAlive?: { intervalMs: number; run: () => Promise<void> };
+  close?: () => Promise<void>;
+}
+
+interface PrivateStreamHandler {
+  authenticate(signer: RequestSigner, sandbox: boolean, symbols: string[]): Promise<PrivateSession>;
+  decode(message: unknown): UserDataEvent[];
+}
+
+interface StreamSession {
+  accountId: string;
+  exchange: string;
+  options: UserStreamOptions;
+  ws: WebSocket | null;
+  keepAliveTimer: TimerHandle | null;
+  close?: () => Promise<void>;
+  reconnectAttempts: number;
+  reconnectTimer: TimerHandle | null;
+  stopped: boolean;
+}
+
+// Raw private frames, only the fields read here
+interface BinanceExecutionReport {
+  e: 'executionReport';
+  E: number;
+  s: string;
+  c: string;
+  C: string;
+  S: string;
+  x: string;
+  X: string;
+  i: number;
+  l: string;
+  L: string;
+  n: string;
+  N: string | null;
+  t: number;
+  T: number;
+}
+
+interface BinanceAccountPosition {
+  e: 'outboundAccountPosition';
+  E: number;
+  B: { a: string; f: string; l: string }[];
+}
+
+interface BinanceBalanceUpdate {
+  e: 'balanceUpdate';
+  E: number;
+  a: string;
+  d: string;
+}
+
+type BinanceUserEvent = BinanceExecutionReport | BinanceAccountPosition | BinanceBalanceUpdate;
+
+interface KrakenOwnTrade {
+  ordertxid: string;
+  pair: string;
+  time: string;
+  type: string;
+  price: string;
+  vol: string;
+  fee: string;
+}
+
+interface KrakenOpenOrder {
+  status?: ExchangeOrder['status'];
+  lastupdated?: string;
+  descr?: { pair?: string };
+}
+
+interface CoinbaseUserMessage {
+  type: string;
+  product_id?: string;
+  time?: string;
+  order_id: string;
+  client_oid?: string;
+  reason?: string;
+  side: string;
+  size: string;
+  price: string;
+  trade_id: number;
+  maker_order_id: string;
+  taker_order_id: string;
+  user_id?: string;
+  taker_user_id?: string;
+  maker_fee_rate: string;
+  taker_fee_rate: string;
+}
+
+// Private streams retry for as long as they are wanted, backing off up to a minute
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60000;
+
+const binanceStatus: Record<string, ExchangeOrder['status']> = {
+  NEW: 'open',
+  PARTIALLY_FILLED: 'open',
+  FILLED: 'closed',
+  CANCELED: 'canceled',
+  PENDING_CANCEL: 'open',
+  REJECTED: 'canceled',
+  EXPIRED: 'expired',
+  EXPIRED_IN_MATCH: 'expired'
+};
+
+const binance: PrivateStreamHandler = {
+  async authenticate(signer, sandbox) {
+    const api = sandbox ? 'https://testnet.binance.vision/api/v3/userDataStream' : 'https://api.binance.com/api/v3/userDataStream';
+    const headers = { 'X-MBX-APIKEY': signer.apiKey };
+
+    const response = await fetch(api, { method: 'POST', headers });
+    if (!response.ok) {
+      throw new Error(`Binance listenKey request failed: ${response.status}`);
+    }
+    const { listenKey } = await response.json();
+
+    return {
+      url: `${sandbox ? 'wss://testnet.binance.vision/ws/' : 'wss://stream.binance.com:9443/ws/'}${listenKey}`,
+      subscriptions: [],
+      // Listen keys lapse after 60 minutes without a keep-alive
+      keepAlive: {
+        intervalMs: 30 * 60 * 1000,
+        run: async () => {
+          const response = await fetch(`${api}?listenKey=${listenKey}`, { method: 'PUT', headers });
+          if (!response.ok) {
+            throw new Error(`Binance listenKey keep-alive failed: ${response.status}`);
+          }
+        }
+      },
+      close: async () => {
+        await fetch(`${api}?listenKey=${listenKey}`, { method: 'DELETE', headers });
+      }
+    };
+  },
+
+  decode(message) {
+    const data = message as BinanceUserEvent;
+    switch (data.e) {
+      case 'executionReport': {
+        const symbol = symbolRegistry.toCanonical('binance', data.s);
+        // Cancels carry the original client id in C, c is the cancel request's own id
+        const clientOrderId = data.C || data.c || undefined;
+        const events: UserDataEvent[] = [];
+
+        if (data.x === 'TRADE') {
+          events.push({
+            type: 'fill',
+            tradeId: String(data.t),
+            exchangeOrderId: String(data.i),
+            clientOrderId,
+            symbol,
+            side: data.S === 'SELL' ? 'sell' : 'buy',
+            amount: parseFloat(data.l),
+            price: parseFloat(data.L),
+            fee: data.N ? { currency: data.N, cost: parseFloat(data.n) } : undefined,
+            timestamp: data.T
+          });
+        }
+
+        const status = binanceStatus[data.X];
+        if (status) {
+          events.push({ type: 'order', exchangeOrderId: String(data.i), clientOrderId, symbol, status, timestamp: data.E });
+        }
+        return events;
+      }
+
+      case 'outboundAccountPosition':
+        return (data.B || []).map((balance): UserDataEvent => ({
+          type: 'balance',
+          currency: balance.a,
+          total: parseFloat(balance.f) + parseFloat(balance.l),
+          timestamp: data.E
+        }));
+
+      case 'balanceUpdate':
+        return [{ type: 'balance', currency: data.a, delta: parseFloat(data.d), timestamp: data.E }];
+
+      default:
+        return [];
+    }
+  }
+};
+
+const kraken: PrivateStreamHandler = {
+  async authenticate(signer) {
+    const result = await new KrakenApiClient(signer).getWebSocketsToken();
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    return {
+      url: 'wss://ws-auth.kraken.com',
+      // Without snapshot: false, ownTrades replays recent trades on every connect
+      subscriptions: [
+        { event: 'subscribe', subscription: { name: 'ownTrades', token: result.token, snapshot: false } },
+        { event: 'subscribe', subscription: { name: 'openOrders', token: result.token } }
+      ]
+    };
+  },
+
+  // Private frames are [payload, channelName, { sequence }]; Kraken's v1 feed has no balance channel
+  decode(message) {
+    if (!Array.isArray(message)) return [];
+    const [entries, channel] = message as [Record<string, unknown>[], string];
+    const events: UserDataEvent[] = [];
+
+    if (channel === 'ownTrades') {
+      entries.forEach(entry => Object.entries(entry as Record<string, KrakenOwnTrade>).forEach(([tradeId, trade]) => {
+        const symbol = symbolRegistry.toCanonical('kraken', trade.pair);
+        events.push({
+          type: 'fill',
+          tradeId,
+          exchangeOrderId: trade.ordertxid,
+          symbol,
+          side: trade.type === 'sell' ? 'sell' : 'buy',
+          amount: parseFloat(trade.vol),
+          price: parseFloat(trade.price),
+          // Kraken charges spot fees in the quote currency by default
+          fee: { currency: symbol.split('/')[1], cost: parseFloat(trade.fee) },
+          timestamp: Math.round(parseFloat(trade.time) * 1000)
+        });
+      }));
+    }
+
+    if (channel === 'openOrders') {
+      entries.forEach(entry => Object.entries(entry as Record<string, KrakenOpenOrder>).forEach(([orderId, order]) => {
+        // Updates after the snapshot only carry the fields that changed
+        if (!order.status) return;
+        events.push({
+          type: 'order',
+          exchangeOrderId: orderId,
+          symbol: order.descr?.pair ? symbolRegistry.toCanonical('kraken', order.descr.pair) : '',
+          status: order.status,
+          timestamp: order.lastupdated ? Math.round(parseFloat(order.lastupdated) * 1000) : Date.now()
+        });
+      }));
+    }
+
+    return events;
+  }
+};
+
+const coinbase: PrivateStreamHandler = {
+  async authenticate(signer, sandbox, symbols) {
+    if (symbols.length === 0) {
+      throw new Error('Coinbase user channel requires at least one symbol');
+    }
+
+    // Same signature as a REST GET /users/self/verify
+    const timestamp = (Date.now() / 1000).toString();
+    const signature = await signer.sign(`${timestamp}GET/users/self/verify`, { hash: 'SHA-256', encoding: 'base64' });
+
+    return {
+      url: sandbox ? 'wss://ws-feed-public.sandbox.exchange.coinbase.com' : 'wss://ws-feed.exchange.coinbase.com',
+      subscriptions: [{
+        type: 'subscribe',
+        channels: ['user'],
+        product_ids: symbols.map(symbol => symbolRegistry.toNative('coinbase', symbol)),
+        key: signer.apiKey,
+        passphrase: await signer.getPassphrase(),
+        timestamp,
+        signature
+      }]
+    };
+  },
+
+  decode(message) {
+    const data = message as CoinbaseUserMessage;
+    if (!data.product_id) return [];
+    const symbol = symbolRegistry.toCanonical('coinbase', data.product_id);
+    const timestamp = data.time ? Date.parse(data.time) : Date.now();
+
+    switch (data.type) {
+      case 'received':
+        return [{ type: 'order', exchangeOrderId: data.order_id, clientOrderId: data.client_oid || undefined, symbol, status: 'pending', timestamp }];
+
+      case 'open':
+        return [{ type: 'order', exchangeOrderId: data.order_id, symbol, status: 'open', timestamp }];
+
+      case 'done':
+        return [{
+          type: 'order',
+          exchangeOrderId: data.order_id,
+          symbol,
+          status: data.reason === 'filled' ? 'closed' : 'canceled',
+          timestamp
+        }];
+
+      case 'match': {
+        // Matches name the maker's side; our side is the opposite when we took liquidity
+        const taker = data.taker_user_id !== undefined && data.taker_user_id === data.user_id;
+        const makerSide: 'buy' | 'sell' = data.side === 'sell' ? 'sell' : 'buy';
+        const amount = parseFloat(data.size);
+        const price = parseFloat(data.price);
+        const feeRate = parseFloat(taker ? data.taker_fee_rate : data.maker_fee_rate);
+
+        return [{
+          type: 'fill',
+          tradeId: String(data.trade_id),
+          exchangeOrderId: taker ? data.taker_order_id : data.maker_order_id,
+          symbol,
+          side: taker ? (makerSide === 'buy' ? 'sell' : 'buy') : makerSide,
+          amount,
+          price,
+          fee: isNaN(feeRate) ? undefined : { currency: symbol.split('/')[1], cost: amount * price * feeRate },
+          timestamp
+        }];
+      }
+
+      default:
+        return [];
+    }
+  }
+};
+
+/**
+ * Authenticated per-account streams of order, fill and balance updates. Events
+ * are applied to orderService and the portfolio as they arrive so working
+ * orders and holdings move without polling; reconciliation still covers
+ * anything missed while a stream was down.
+ */
+class UserDataStreamService {
+  private handlers: Record<string, PrivateStreamHandler> = { binance, kraken, coinbase };
+  private sessions: Map<string, StreamSession> = new Map();
+  private subscribers: Set<(accountId: string, event: UserDataEvent) => void> = new Set();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Whether the exchange has a private stream handler
+   */
+  supports(exchange: string): boolean {
+    return Boolean(this.handlers[exchange]);
+  }
+
+  /**
+   * Open the account's private stream, replacing any existing one
+   */
+  async start(accountId: string, options: UserStreamOptions = {}): Promise<void> {
+    const account = exchangeService.getAccount(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not initialized`);
+    }
+    if (!this.supports(account.exchange)) {
+      throw new Error(`Private streams not supported for ${account.exchange}`);
+    }
+
+    this.stop(accountId);
+
+    const session: StreamSession = {
+      accountId,
+      exchange: account.exchange,
+      options,
+      ws: null,
+      keepAliveTimer: null,
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+      stopped: false
+    };
+    this.sessions.set(accountId, session);
+
+    try {
+      await this.connect(session);
+    } catch (error) {
+      console.error(`Error starting user stream for ${accountId}:`, error);
+      this.stop(accountId);
+      throw error;
+    }
+  }
+
+  stop(accountId: string): void {
+    const session = this.sessions.get(accountId);
+    if (!session) return;
+
+    session.stopped = true;
+    if (session.reconnectTimer) {
+      this.clock.clearTimeout(session.reconnectTimer);
+      session.reconnectTimer = null;
+    }
+    this.teardown(session);
+    this.sessions.delete(accountId);
+  }
+
+  stopAll(): void {
+    Array.from(this.sessions.keys()).forEach(accountId => this.stop(accountId));
+  }
+
+  isStreaming(accountId: string): boolean {
+    return this.sessions.get(accountId)?.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Receive every decoded event, after it has been applied to orders and portfolios
+   */
+  subscribe(callback: (accountId: string, event: UserDataEvent) => void): () => void {
+    this.subscribers.add(callback);
+    return () => this.subscribers.delete(callback);
+  }
+
+  private async connect(session: StreamSession): Promise<void> {
+    // Never leave an earlier socket or listen key behind the new one
+    this.teardown(session);
+
+    const handler = this.handlers[session.exchange];
+    const account = exchangeService.getAccount(session.accountId)!;
+    // Tokens and listen keys expire, so every connection authenticates afresh
+    const auth = await handler.authenticate(
+      exchangeService.getSigner(session.accountId, 'read'),
+      account.sandbox,
+      session.options.symbols || []
+    );
+    if (session.stopped) {
+      await auth.close?.();
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(auth.url);
+      session.ws = ws;
+      session.close = auth.close;
+
+      ws.onopen = () => {
+        console.log(`User stream connected for ${session.accountId}`);
+        session.reconnectAttempts = 0;
+        auth.subscriptions.forEach(message => ws.send(JSON.stringify(message)));
+
+        if (auth.keepAlive) {
+          this.scheduleKeepAlive(session, ws, auth.keepAlive);
+        }
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        let events: UserDataEvent[];
+        try {
+          events = handler.decode(JSON.parse(event.data));
+        } catch (error) {
+          console.error(`Error parsing user stream message from ${session.exchange}:`, error);
+          return;
+        }
+        events.forEach(decoded => {
+          this.dispatch(session, decoded).catch(error => {
+            console.error(`Error applying user stream event for ${session.accountId}:`, error);
+          });
+        });
+      };
+
+      ws.onclose = () => {
+        console.log(`User stream closed for ${session.accountId}`);
+        this.teardown(session);
+        reject(new Error(`User stream closed for ${session.accountId}`));
+        this.scheduleReconnect(session);
+      };
+
+      // A close always follows, and schedules the reconnect
+      ws.onerror = (error) => {
+        console.error(`User stream error for ${session.accountId}:`, error);
+        reject(error);
+      };
+    });
+  }
+
+  /**
+   * The one place a reconnect is scheduled from, whether the socket closed or
+   * the attempt failed before opening one; at most one is ever pending
+   */
+  private scheduleReconnect(session: StreamSession) {
+    if (session.stopped || session.reconnectTimer) return;
+
+    const delay = backoffDelay(session.reconnectAttempts, RECONNECT_BASE_DELAY, RECONNECT_MAX_DELAY);
+    session.reconnectAttempts++;
+
+    session.reconnectTimer = this.clock.setTimeout(() => {
+      session.reconnectTimer = null;
+      if (session.stopped) return;
+      console.log(`Reconnecting user stream for ${session.accountId} (attempt ${session.reconnectAttempts})`);
+      this.connect(session).catch(error => {
+        console.error(`User stream reconnect failed for ${session.accountId}:`, error);
+        this.scheduleReconnect(session);
+      });
+    }, delay);
+  }
+
+  /**
+   * Run the session's keep-alive every interval while ws is its socket. A
+   * failed keep-alive means the session is dead, so it is torn down and reconnected.
+   */
+  private scheduleKeepAlive(session: StreamSession, ws: WebSocket, keepAlive: NonNullable<PrivateSession['keepAlive']>) {
+    session.keepAliveTimer = this.clock.setTimeout(() => {
+      session.keepAliveTimer = null;
+      keepAlive.run().then(() => {
+        if (session.ws === ws) {
+          this.scheduleKeepAlive(session, ws, keepAlive);
+        }
+      }, error => {
+        if (session.ws !== ws) return;
+        console.error(`User stream keep-alive failed for ${session.accountId}:`, error);
+        this.teardown(session);
+        this.scheduleReconnect(session);
+      });
+    }, keepAlive.intervalMs);
+  }
+
+  private teardown(session: StreamSession) {
+    if (session.keepAliveTimer) {
+      this.clock.clearTimeout(session.keepAliveTimer);
+      session.keepAliveTimer = null;
+    }
+    if (session.ws) {
+      const ws = session.ws;
+      session.ws = null;
+      ws.onclose = null;
+      ws.close();
+    }
+    if (session.close) {
+      const close = session.close;
+      session.close = undefined;
+      close().catch(error => console.error(`Error closing user stream for ${session.accountId}:`, error));
+    }
+  }
+
+  private async dispatch(session: StreamSession, event: UserDataEvent): Promise<void> {
+    switch (event.type) {
+      case 'order':
+        await orderService.applyStreamOrderUpdate(session.accountId, event);
+        break;
+      case 'fill':
+        await orderService.applyStreamFill(session.accountId, event);
+        break;
+      case 'balance':
+        if (session.options.portfolioId) {
+          await portfolioService.applyBalanceUpdate(session.options.portfolioId, session.accountId, event);
+        }
+        break;
+    }
+
+    this.subscribers.forEach(callback => {
+      try {
+        callback(session.accountId, event);
+      } catch (error) {
+        console.error('Error in user stream subscriber callback:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const userDataStream = new UserDataStreamService();
+export { UserDataStreamService };
+export type { StreamOrderUpdate, StreamFill, StreamBalanceUpdate, UserDataEvent, UserStreamOptions, PrivateStreamHandler };
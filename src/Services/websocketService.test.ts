@@ -0,0 +1,53 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocketService } from './websocketService';
+import { FakeWebSocket } from '../test/fakeWebSocket';
+
+describe('WebSocketService', () => {
+  beforeAll(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  it('settles a pending connect when disconnected before the socket opens', async () => {
+    const service = new WebSocketService();
+    const connecting = service.connect('binance', ['BTC/USDT']);
+
+    service.disconnect('binance');
+
+    await expect(connecting).resolves.toBe(false);
+    expect(FakeWebSocket.latest().closed).toBe(true);
+  });
+
+  it('reconnects and resubscribes pinned symbols when a replay stops', async () => {
+    const service = new WebSocketService();
+    const connecting = service.connect('binance', ['BTC/USDT']);
+    FakeWebSocket.latest().open();
+    await connecting;
+
+    service.startReplay(['binance']);
+    expect(FakeWebSocket.latest().closed).toBe(true);
+    expect(service.getTickerSymbols('binance')).toEqual([]);
+
+    service.stopReplay();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    FakeWebSocket.latest().open();
+
+    expect(service.isConnected('binance')).toBe(true);
+    expect(service.getTickerSymbols('binance')).toEqual(['BTC/USDT']);
+    expect(FakeWebSocket.latest().sent.join('\n')).toMatch(/btcusdt@ticker/i);
+    service.disconnect('binance');
+  });
+
+  it('leaves exchanges that were not live closed after a replay', () => {
+    const service = new WebSocketService();
+
+    service.startReplay(['kraken']);
+    service.stopReplay();
+
+    expect(FakeWebSocket.instances).toHaveLength(0);
+    expect(service.getConnectionStates().kraken.state).toBe('closed');
+  });
+});
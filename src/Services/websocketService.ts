@@ -1,186 +1,898 @@
 // src/services/websocketService.ts
-interface MarketData {
+import { symbolRegistry } from './symbolRegistry';
+import { backoffDelay } from '../utils/retry';
+import { LocalOrderBook } from './orderBook';
+import type { OrderBookSnapshot } from './orderBook';
+import { binanceDecoder } from './decoders/binance';
+import { krakenDecoder } from './decoders/kraken';
+import { coinbaseDecoder } from './decoders/coinbase';
+import { okxDecoder } from './decoders/okx';
+import { bybitDecoder } from './decoders/bybit';
+import type { DecodedMessage, DepthUpdate, MarketData, StreamChannel, TradePrint, VenueDecoder } from './decoders/types';
+
+interface WebSocketConfig {
+  baseReconnectDelay: number;
+  maxReconnectDelay: number;
+  heartbeatInterval: number; // How often to ping and check the feed
+  staleAfter: number; // Silence before the feed counts as degraded; twice this and the socket is recycled
+}
+
+/**
+ * connecting: socket opening. open: receiving data. degraded: socket open but
+ * silent past staleAfter. closed: no socket, possibly waiting to retry.
+ */
+type ConnectionState = 'connecting' | 'open' | 'degraded' | 'closed';
+
+interface ConnectionStatus {
+  exchange: string;
+  state: ConnectionState;
+  attempts: number; // Reconnect attempts since the socket was last open
+  lastMessageAt: number | null;
+  nextRetryAt: number | null;
+}
+
+interface ExchangeLink {
+  ws: WebSocket | null;
+  state: ConnectionState;
+  pinnedSymbols: Set<string>; // Ticker symbols passed to connect(), held until disconnect
+  tickerRefs: Map<string, number>; // Ticker symbol → listeners added through addSymbols
+  attempts: number;
+  lastMessageAt: number | null;
+  nextRetryAt: number | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  wanted: boolean; // Cleared by disconnect() so closes are not retried
+  opening: Promise<boolean> | null;
+  resolveOpening: ((connected: boolean) => void) | null; // Settles opening when the socket goes before it opens
+}
+
+/**
+ * A normalized message as dispatched to subscribers, with its arrival time.
+ * This is what gets recorded and replayed.
+ */
+interface MarketEvent {
+  receivedAt: number;
+  exchange: string;
+  message: Exclude<DecodedMessage, { type: 'control' }>;
+}
+
+/**
+ * A book found out of step with the venue and resynced
+ */
+interface FeedGap {
+  exchange: string;
   symbol: string;
-  price: number;
-  volume: number;
-  change: number;
+  reason: 'sequence' | 'checksum' | 'crossed';
   timestamp: number;
 }
 
-interface WebSocketConfig {
-  url: string;
-  reconnectInterval: number;
-  maxReconnectAttempts: number;
+interface Venue {
+  decoder: VenueDecoder;
+  config: WebSocketConfig;
 }
 
+interface DepthState {
+  book: LocalOrderBook;
+  buffer: DepthUpdate[]; // Diffs received while a REST snapshot is loading
+  resyncing: boolean;
+}
+
+const DEFAULT_CONFIG: WebSocketConfig = {
+  baseReconnectDelay: 1000,
+  maxReconnectDelay: 60000,
+  heartbeatInterval: 10000,
+  staleAfter: 30000
+};
+
+const SNAPSHOT_RETRY_MS = 5000;
+
 class WebSocketService {
   private connections: Map<string, WebSocket> = new Map();
-  private subscribers: Map<string, Set<Function>> = new Map();
-  private reconnectAttempts: Map<string, number> = new Map();
-  private config: Record<string, WebSocketConfig> = {
-    binance: {
-      url: 'wss://stream.binance.com:9443/ws/',
-      reconnectInterval: 5000,
-      maxReconnectAttempts: 5
-    },
-    kraken: {
-      url: 'wss://ws.kraken.com/',
-      reconnectInterval: 5000,
-      maxReconnectAttempts: 5
-    },
-    coinbase: {
-      url: 'wss://ws-feed.pro.coinbase.com',
-      reconnectInterval: 5000,
-      maxReconnectAttempts: 5
-    }
-  };
-
-  connect(exchange: string, symbols: string[]): Promise<boolean> {
-    return new Promise((resolve, reject) => {
+  private subscribers: Map<string, Set<(data: MarketData) => void>> = new Map();
+  private links: Map<string, ExchangeLink> = new Map();
+  private stateSubscribers: Set<(status: ConnectionStatus) => void> = new Set();
+  private depthSubscriptions: Map<string, Set<string>> = new Map(); // exchange → canonical symbols
+  private books: Map<string, DepthState> = new Map();
+  private bookSubscribers: Map<string, Set<(book: LocalOrderBook) => void>> = new Map();
+  private tradeSubscriptions: Map<string, Set<string>> = new Map(); // exchange → canonical symbols
+  private tradeSubscribers: Map<string, Set<(trade: TradePrint) => void>> = new Map();
+  private venues: Map<string, Venue> = new Map();
+  private eventSubscribers: Set<(event: MarketEvent) => void> = new Set();
+  private gapSubscribers: Set<(gap: FeedGap) => void> = new Set();
+  private replaying: Set<string> = new Set(); // Exchanges fed by a recording instead of a socket
+  private resumeAfterReplay: Map<string, string[]> = new Map(); // Exchange → pinned symbols, for exchanges live when replay started
+
+  constructor() {
+    this.registerVenue('binance', binanceDecoder);
+    this.registerVenue('kraken', krakenDecoder);
+    this.registerVenue('coinbase', coinbaseDecoder);
+    this.registerVenue('okx', okxDecoder);
+    this.registerVenue('bybit', bybitDecoder);
+  }
+
+  /**
+   * Add or replace a venue's public feed. The name is the exchange id callers
+   * pass to connect() and the subscribe methods.
+   */
+  registerVenue(name: string, decoder: VenueDecoder, config: Partial<WebSocketConfig> = {}) {
+    this.venues.set(name, { decoder, config: { ...DEFAULT_CONFIG, ...config } });
+  }
+
+  getVenues(): string[] {
+    return Array.from(this.venues.keys());
+  }
+
+  /**
+   * Open the exchange's socket, streaming tickers for symbols until disconnect().
+   * Resolves once the socket is open; after that, drops are retried with
+   * backoff for as long as anything is subscribed to the exchange.
+   */
+  connect(exchange: string, symbols: string[] = []): Promise<boolean> {
+    if (!this.venues.has(exchange)) {
+      return Promise.reject(new Error(`Exchange ${exchange} not supported`));
+    }
+
+    const link = this.getLink(exchange);
+    link.wanted = true;
+    this.updateTickerSymbols(exchange, () => symbols.forEach(symbol => link.pinnedSymbols.add(symbol)));
+
+    if (link.state === 'open' || link.state === 'degraded' || this.replaying.has(exchange)) {
+      return Promise.resolve(true);
+    }
+    if (link.opening) {
+      return link.opening;
+    }
+
+    // An explicit connect skips any pending backoff
+    if (link.reconnectTimer) {
+      clearTimeout(link.reconnectTimer);
+      link.reconnectTimer = null;
+    }
+    return this.openSocket(exchange);
+  }
+
+  /**
+   * Current state of every exchange connection
+   */
+  getConnectionStates(): Record<string, ConnectionStatus> {
+    const states: Record<string, ConnectionStatus> = {};
+    this.links.forEach((_, exchange) => {
+      states[exchange] = this.toStatus(exchange);
+    });
+    return states;
+  }
+
+  /**
+   * Called on every connection state change
+   */
+  subscribeToConnectionState(callback: (status: ConnectionStatus) => void): () => void {
+    this.stateSubscribers.add(callback);
+    return () => this.stateSubscribers.delete(callback);
+  }
+
+  private getLink(exchange: string): ExchangeLink {
+    let link = this.links.get(exchange);
+    if (!link) {
+      link = {
+        ws: null,
+        state: 'closed',
+        pinnedSymbols: new Set(),
+        tickerRefs: new Map(),
+        attempts: 0,
+        lastMessageAt: null,
+        nextRetryAt: null,
+        reconnectTimer: null,
+        heartbeatTimer: null,
+        wanted: false,
+        opening: null,
+        resolveOpening: null
+      };
+      this.links.set(exchange, link);
+    }
+    return link;
+  }
+
+  private openSocket(exchange: string): Promise<boolean> {
+    const link = this.getLink(exchange);
+    const { decoder } = this.venues.get(exchange)!;
+
+    link.opening = new Promise<boolean>((resolve, reject) => {
+      let ws: WebSocket;
       try {
-        const config = this.config[exchange];
-        if (!config) {
-          throw new Error(`Exchange ${exchange} not supported`);
+        ws = new WebSocket(decoder.url);
+      } catch (error) {
+        link.opening = null;
+        this.setState(exchange, 'closed');
+        this.scheduleReconnect(exchange);
+        reject(error);
+        return;
+      }
+
+      link.ws = ws;
+      link.resolveOpening = resolve;
+      link.nextRetryAt = null;
+      this.setState(exchange, 'connecting');
+
+      // Handlers of a replaced socket must not touch the current one
+      const isCurrent = () => link.ws === ws;
+
+      ws.onopen = () => {
+        if (!isCurrent()) return;
+        console.log(`Connected to ${exchange}`);
+        this.connections.set(exchange, ws);
+        link.opening = null;
+        link.resolveOpening = null;
+        link.attempts = 0;
+        link.lastMessageAt = Date.now();
+        this.setState(exchange, 'open');
+
+        this.restoreSubscriptions(exchange);
+        this.startHeartbeat(exchange);
+        resolve(true);
+      };
+
+      ws.onmessage = (event) => {
+        if (!isCurrent()) return;
+        link.lastMessageAt = Date.now();
+        if (link.state === 'degraded') {
+          this.setState(exchange, 'open');
         }
 
-        // Close existing connection
-        this.disconnect(exchange);
-
-        const ws = new WebSocket(config.url);
-        
-        ws.onopen = () => {
-          console.log(`Connected to ${exchange}`);
-          this.connections.set(exchange, ws);
-          this.reconnectAttempts.set(exchange, 0);
-          
-          // Subscribe to symbols based on exchange
-          this.subscribeToSymbols(exchange, symbols);
-          resolve(true);
-        };
-
-        ws.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            this.handleMessage(exchange, data);
-          } catch (error) {
-            console.error(`Error parsing message from ${exchange}:`, error);
-          }
-        };
-
-        ws.onclose = () => {
-          console.log(`Connection to ${exchange} closed`);
-          this.connections.delete(exchange);
-          this.handleReconnect(exchange, symbols);
-        };
-
-        ws.onerror = (error) => {
-          console.error(`WebSocket error for ${exchange}:`, error);
+        this.handleFrame(exchange, String(event.data), link.lastMessageAt);
+      };
+
+      ws.onclose = () => {
+        if (!isCurrent()) return;
+        console.log(`Connection to ${exchange} closed`);
+        this.handleSocketClosed(exchange);
+      };
+
+      ws.onerror = (error) => {
+        console.error(`WebSocket error for ${exchange}:`, error);
+        if (isCurrent() && link.opening) {
+          link.opening = null;
+          link.resolveOpening = null;
           reject(error);
-        };
+        }
+      };
+    });
+
+    return link.opening;
+  }
+
+  /**
+   * Everything subscribed before the drop, sent again on the new socket
+   */
+  private restoreSubscriptions(exchange: string) {
+    const { decoder } = this.venues.get(exchange)!;
+    const tickerSymbols = this.getTickerSymbols(exchange);
+    const depthSymbols = Array.from(this.depthSubscriptions.get(exchange) || []);
+    const tradeSymbols = Array.from(this.tradeSubscriptions.get(exchange) || []);
+
+    this.sendSubscriptions(exchange, 'ticker', tickerSymbols, true);
+    // Books missed updates while disconnected, so each starts again from a snapshot
+    depthSymbols.forEach(symbol => this.markUnsynced(exchange, symbol));
+    this.sendSubscriptions(exchange, 'depth', depthSymbols, true);
+    this.sendSubscriptions(exchange, 'trades', tradeSymbols, true);
+
+    if (decoder.keepaliveFrames) {
+      const symbols = Array.from(new Set([...tickerSymbols, ...depthSymbols, ...tradeSymbols]));
+      this.sendFrames(exchange, decoder.keepaliveFrames(symbols.map(symbol => symbolRegistry.toNative(exchange, symbol))));
+    }
+  }
+
+  private handleSocketClosed(exchange: string) {
+    const link = this.getLink(exchange);
+    this.stopHeartbeat(link);
+    link.ws = null;
+    link.opening = null;
+    this.connections.delete(exchange);
+    // A connect() still waiting on this socket learns it will not open
+    const resolveOpening = link.resolveOpening;
+    link.resolveOpening = null;
+    resolveOpening?.(false);
+    (this.depthSubscriptions.get(exchange) || new Set<string>()).forEach(symbol => this.markUnsynced(exchange, symbol));
+
+    this.setState(exchange, 'closed');
+    this.scheduleReconnect(exchange);
+  }
 
+  /**
+   * Ping where the venue supports it and watch for silence. A silent feed is
+   * marked degraded, and recycled if it stays silent.
+   */
+  private startHeartbeat(exchange: string) {
+    const link = this.getLink(exchange);
+    const { decoder, config } = this.venues.get(exchange)!;
+    this.stopHeartbeat(link);
+
+    link.heartbeatTimer = setInterval(() => {
+      const ws = this.connections.get(exchange);
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+      const silence = Date.now() - (link.lastMessageAt || 0);
+      if (silence > config.staleAfter * 2) {
+        console.warn(`No data from ${exchange} for ${silence}ms, reconnecting`);
+        this.recycle(exchange);
+        return;
+      }
+      if (silence > config.staleAfter && link.state === 'open') {
+        this.setState(exchange, 'degraded');
+      }
+
+      if (decoder.pingFrame) {
+        ws.send(decoder.pingFrame());
+      }
+    }, config.heartbeatInterval);
+  }
+
+  private stopHeartbeat(link: ExchangeLink) {
+    if (link.heartbeatTimer) {
+      clearInterval(link.heartbeatTimer);
+      link.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Drop the current socket and reconnect right away
+   */
+  private recycle(exchange: string) {
+    const link = this.getLink(exchange);
+    const ws = link.ws;
+    if (ws) {
+      ws.onclose = null;
+      ws.close();
+    }
+    this.handleSocketClosed(exchange);
+  }
+
+  private scheduleReconnect(exchange: string) {
+    const link = this.getLink(exchange);
+    if (!link.wanted) return;
+    if (!this.hasSubscribers(exchange)) {
+      console.log(`Not reconnecting to ${exchange}: nothing is subscribed`);
+      return;
+    }
+    if (link.reconnectTimer) return;
+
+    const { config } = this.venues.get(exchange)!;
+    const delay = backoffDelay(link.attempts, config.baseReconnectDelay, config.maxReconnectDelay);
+    link.attempts++;
+    link.nextRetryAt = Date.now() + delay;
+    this.notifyStateSubscribers(exchange);
+
+    link.reconnectTimer = setTimeout(() => {
+      link.reconnectTimer = null;
+      if (!link.wanted || link.ws) return;
+      console.log(`Attempting to reconnect to ${exchange} (attempt ${link.attempts})`);
+      this.openSocket(exchange).catch(() => {
+        // The close handler schedules the next attempt
+      });
+    }, delay);
+  }
+
+  private hasSubscribers(exchange: string): boolean {
+    const prefix = `${exchange}-`;
+    const hasKey = (map: Map<string, Set<unknown>>) => Array.from(map.entries()).some(([key, set]) => key.startsWith(prefix) && set.size > 0);
+
+    return hasKey(this.subscribers)
+      || hasKey(this.bookSubscribers)
+      || hasKey(this.tradeSubscribers)
+      || (this.depthSubscriptions.get(exchange)?.size || 0) > 0
+      || (this.tradeSubscriptions.get(exchange)?.size || 0) > 0;
+  }
+
+  private setState(exchange: string, state: ConnectionState) {
+    const link = this.getLink(exchange);
+    if (link.state === state) return;
+    link.state = state;
+    this.notifyStateSubscribers(exchange);
+  }
+
+  private toStatus(exchange: string): ConnectionStatus {
+    const link = this.getLink(exchange);
+    return {
+      exchange,
+      state: link.state,
+      attempts: link.attempts,
+      lastMessageAt: link.lastMessageAt,
+      nextRetryAt: link.nextRetryAt
+    };
+  }
+
+  private notifyStateSubscribers(exchange: string) {
+    const status = this.toStatus(exchange);
+    this.stateSubscribers.forEach(callback => {
+      try {
+        callback(status);
       } catch (error) {
-        reject(error);
+        console.error('Error in connection state subscriber callback:', error);
       }
     });
   }
 
-  private subscribeToSymbols(exchange: string, symbols: string[]) {
+  /**
+   * Stream tickers for symbols on the live socket, and after every reconnect.
+   * Counted per call, so each addSymbols needs a matching removeSymbols.
+   */
+  addSymbols(exchange: string, symbols: string[]) {
+    if (!this.venues.has(exchange)) {
+      throw new Error(`Exchange ${exchange} not supported`);
+    }
+
+    const link = this.getLink(exchange);
+    this.updateTickerSymbols(exchange, () => symbols.forEach(symbol => {
+      link.tickerRefs.set(symbol, (link.tickerRefs.get(symbol) || 0) + 1);
+    }));
+  }
+
+  /**
+   * Release symbols taken with addSymbols; the venue is unsubscribed when nothing holds them
+   */
+  removeSymbols(exchange: string, symbols: string[]) {
+    const link = this.links.get(exchange);
+    if (!link) return;
+
+    this.updateTickerSymbols(exchange, () => symbols.forEach(symbol => {
+      const refs = link.tickerRefs.get(symbol);
+      if (refs === undefined) return;
+      if (refs > 1) {
+        link.tickerRefs.set(symbol, refs - 1);
+      } else {
+        link.tickerRefs.delete(symbol);
+      }
+    }));
+  }
+
+  /**
+   * Ticker symbols currently streamed, or to be streamed once connected
+   */
+  getTickerSymbols(exchange: string): string[] {
+    const link = this.links.get(exchange);
+    if (!link) return [];
+    return Array.from(new Set([...link.pinnedSymbols, ...link.tickerRefs.keys()]));
+  }
+
+  /**
+   * Apply a change to the symbol sets and send the venue the difference
+   */
+  private updateTickerSymbols(exchange: string, change: () => void) {
+    const before = new Set(this.getTickerSymbols(exchange));
+    change();
+    const after = new Set(this.getTickerSymbols(exchange));
+
+    this.sendSubscriptions(exchange, 'ticker', Array.from(after).filter(symbol => !before.has(symbol)), true);
+    this.sendSubscriptions(exchange, 'ticker', Array.from(before).filter(symbol => !after.has(symbol)), false);
+  }
+
+  /**
+   * Subscribe or unsubscribe symbols on the live socket; without one, restoreSubscriptions sends them on open
+   */
+  private sendSubscriptions(exchange: string, channel: StreamChannel, symbols: string[], subscribe: boolean) {
+    if (!this.connections.has(exchange) || symbols.length === 0) return;
+    const { decoder } = this.venues.get(exchange)!;
+
+    // Symbols arrive in canonical BASE/QUOTE form, venues expect their own spelling
+    const nativeSymbols = symbols.map(symbol => symbolRegistry.toNative(exchange, symbol));
+    this.sendFrames(exchange, decoder.subscriptionFrames(channel, nativeSymbols, subscribe));
+
+    // Venues that stream only diffs serve the snapshot over REST once diffs are buffering
+    if (channel === 'depth' && subscribe && decoder.depth.fetchSnapshot) {
+      symbols.forEach(symbol => this.resyncBook(exchange, symbol));
+    }
+  }
+
+  private sendFrames(exchange: string, frames: string[]) {
     const ws = this.connections.get(exchange);
     if (!ws) return;
+    frames.forEach(frame => ws.send(frame));
+  }
 
-    switch (exchange) {
-      case 'binance':
-        const binanceStreams = symbols.map(symbol => `${symbol.toLowerCase()}@ticker`);
-        ws.send(JSON.stringify({
-          method: 'SUBSCRIBE',
-          params: binanceStreams,
-          id: 1
-        }));
-        break;
-        
-      case 'kraken':
-        ws.send(JSON.stringify({
-          event: 'subscribe',
-          pair: symbols,
-          subscription: { name: 'ticker' }
-        }));
-        break;
-        
-      case 'coinbase':
-        ws.send(JSON.stringify({
-          type: 'subscribe',
-          channels: ['ticker'],
-          product_ids: symbols
-        }));
-        break;
+  private handleFrame(exchange: string, frame: string, receivedAt: number) {
+    const { decoder } = this.venues.get(exchange)!;
+    let messages: DecodedMessage[];
+    try {
+      messages = decoder.decode(frame, receivedAt);
+    } catch (error) {
+      console.error(`Error decoding message from ${exchange}:`, error);
+      return;
     }
+
+    messages.forEach(message => {
+      if (message.type !== 'control') {
+        this.dispatch({ receivedAt, exchange, message });
+      }
+    });
   }
 
-  private handleMessage(exchange: string, data: any) {
-    let marketData: MarketData | null = null;
+  private dispatch(event: MarketEvent) {
+    this.eventSubscribers.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in market event subscriber callback:', error);
+      }
+    });
 
-    switch (exchange) {
-      case 'binance':
-        if (data.e === '24hrTicker') {
-          marketData = {
-            symbol: data.s,
-            price: parseFloat(data.c),
-            volume: parseFloat(data.v),
-            change: parseFloat(data.P),
-            timestamp: data.E
-          };
-        }
+    const { exchange, message } = event;
+    switch (message.type) {
+      case 'ticker':
+        this.notifySubscribers(`${exchange}-${message.ticker.symbol}`, message.ticker);
+        this.notifySubscribers(`${exchange}-all`, message.ticker);
         break;
-        
-      case 'kraken':
-        if (data.channelName === 'ticker') {
-          const symbol = Object.keys(data)[1]; // First key after channelName
-          const tickerData = data[symbol];
-          marketData = {
-            symbol: symbol,
-            price: parseFloat(tickerData.c[0]),
-            volume: parseFloat(tickerData.v[0]),
-            change: parseFloat(tickerData.p[0]),
-            timestamp: Date.now()
-          };
-        }
+      case 'depth':
+        this.applyDepthUpdate(exchange, message.update);
         break;
-        
-      case 'coinbase':
-        if (data.type === 'ticker') {
-          marketData = {
-            symbol: data.product_id,
-            price: parseFloat(data.price),
-            volume: parseFloat(data.volume_24h),
-            change: parseFloat(data.price_change_24h),
-            timestamp: Date.now()
-          };
-        }
+      case 'trades':
+        message.prints.forEach(print => this.notifyTradeSubscribers(exchange, print));
         break;
     }
+  }
+
+  /**
+   * Called with every normalized ticker, book and trade message, live or replayed
+   */
+  subscribeToMarketEvents(callback: (event: MarketEvent) => void): () => void {
+    this.eventSubscribers.add(callback);
+    return () => this.eventSubscribers.delete(callback);
+  }
+
+  /**
+   * Feed exchanges from a recording instead of their sockets. Live sockets are
+   * closed and books start empty until the recording supplies snapshots;
+   * stopReplay() reconnects them.
+   */
+  startReplay(exchanges: string[]) {
+    exchanges.forEach(exchange => {
+      if (!this.venues.has(exchange)) {
+        throw new Error(`Exchange ${exchange} not supported`);
+      }
+      const link = this.links.get(exchange);
+      if (link?.wanted && !this.resumeAfterReplay.has(exchange)) {
+        this.resumeAfterReplay.set(exchange, Array.from(link.pinnedSymbols));
+      }
+      this.disconnect(exchange);
+      this.replaying.add(exchange);
+      (this.depthSubscriptions.get(exchange) || new Set<string>()).forEach(symbol => this.markUnsynced(exchange, symbol));
+      this.setState(exchange, 'open');
+    });
+  }
 
-    if (marketData) {
-      this.notifySubscribers(`${exchange}-${marketData.symbol}`, marketData);
-      this.notifySubscribers(`${exchange}-all`, marketData);
+  /**
+   * Dispatch a recorded event as if it had just arrived
+   */
+  replayEvent(event: MarketEvent) {
+    if (!this.replaying.has(event.exchange)) {
+      throw new Error(`Exchange ${event.exchange} is not in replay`);
     }
+    this.getLink(event.exchange).lastMessageAt = event.receivedAt;
+    this.dispatch(event);
   }
 
-  private handleReconnect(exchange: string, symbols: string[]) {
-    const config = this.config[exchange];
-    const attempts = this.reconnectAttempts.get(exchange) || 0;
-    
-    if (attempts < config.maxReconnectAttempts) {
-      setTimeout(() => {
-        console.log(`Attempting to reconnect to ${exchange} (${attempts + 1}/${config.maxReconnectAttempts})`);
-        this.reconnectAttempts.set(exchange, attempts + 1);
-        this.connect(exchange, symbols);
-      }, config.reconnectInterval);
+  /**
+   * Return replayed exchanges to their live feeds. Exchanges that were
+   * connected when the replay started are reconnected with their pinned
+   * symbols; everything else subscribed is restored once the socket opens.
+   */
+  stopReplay() {
+    const exchanges = Array.from(this.replaying);
+    this.replaying.clear();
+
+    exchanges.forEach(exchange => {
+      (this.depthSubscriptions.get(exchange) || new Set<string>()).forEach(symbol => this.markUnsynced(exchange, symbol));
+      this.setState(exchange, 'closed');
+
+      const pinned = this.resumeAfterReplay.get(exchange);
+      if (pinned) {
+        this.connect(exchange, pinned).catch(error => console.error(`Error reconnecting to ${exchange} after replay:`, error));
+      }
+    });
+    this.resumeAfterReplay.clear();
+  }
+
+  isReplaying(exchange: string): boolean {
+    return this.replaying.has(exchange);
+  }
+
+  /**
+   * Maintain local L2 books for symbols on an exchange. Subscriptions are sent
+   * now when connected and again on every reconnect.
+   */
+  subscribeToDepth(exchange: string, symbols: string[]) {
+    if (!this.venues.has(exchange)) {
+      throw new Error(`Exchange ${exchange} not supported`);
+    }
+
+    const subscribed = this.depthSubscriptions.get(exchange) || new Set<string>();
+    const added = symbols.filter(symbol => !subscribed.has(symbol));
+    added.forEach(symbol => {
+      subscribed.add(symbol);
+      this.books.set(`${exchange}-${symbol}`, { book: new LocalOrderBook(exchange, symbol), buffer: [], resyncing: false });
+    });
+    this.depthSubscriptions.set(exchange, subscribed);
+
+    this.sendSubscriptions(exchange, 'depth', added, true);
+  }
+
+  unsubscribeFromDepth(exchange: string, symbols: string[]) {
+    const subscribed = this.depthSubscriptions.get(exchange);
+    if (!subscribed) return;
+
+    const removed = symbols.filter(symbol => subscribed.has(symbol));
+    removed.forEach(symbol => {
+      subscribed.delete(symbol);
+      this.books.delete(`${exchange}-${symbol}`);
+    });
+
+    this.sendSubscriptions(exchange, 'depth', removed, false);
+  }
+
+  /**
+   * Top of the local book, or null while it is not in sync with the venue
+   */
+  getOrderBook(exchange: string, symbol: string, depth: number = 10): OrderBookSnapshot | null {
+    const state = this.books.get(`${exchange}-${symbol}`);
+    return state?.book.synced ? state.book.snapshot(depth) : null;
+  }
+
+  /**
+   * Exchanges with a depth subscription for symbol
+   */
+  getOrderBookVenues(symbol: string): string[] {
+    return Array.from(this.depthSubscriptions.entries())
+      .filter(([, symbols]) => symbols.has(symbol))
+      .map(([exchange]) => exchange);
+  }
+
+  /**
+   * Called with the top of the book after every applied update
+   */
+  subscribeToOrderBook(exchange: string, symbol: string, callback: (book: OrderBookSnapshot) => void, depth: number = 10): () => void {
+    const key = `${exchange}-${symbol}`;
+    const listener = (book: LocalOrderBook) => callback(book.snapshot(depth));
+
+    if (!this.bookSubscribers.has(key)) {
+      this.bookSubscribers.set(key, new Set());
+    }
+    this.bookSubscribers.get(key)!.add(listener);
+
+    return () => {
+      const subscribers = this.bookSubscribers.get(key);
+      subscribers?.delete(listener);
+      if (subscribers?.size === 0) {
+        this.bookSubscribers.delete(key);
+      }
+    };
+  }
+
+  private applyDepthUpdate(exchange: string, update: DepthUpdate) {
+    const state = this.books.get(`${exchange}-${update.symbol}`);
+    if (!state) return;
+
+    const { decoder } = this.venues.get(exchange)!;
+    const { book } = state;
+
+    if (update.kind === 'snapshot') {
+      book.reset(update.bids, update.asks, update.timestamp, update.sequence);
+      // Diffs buffered while a REST snapshot loaded carry on from it
+      const buffered = state.buffer;
+      state.buffer = [];
+      if (!buffered.every(delta => this.applyDepthDelta(book, delta))) {
+        book.synced = false;
+        return;
+      }
+    } else if (!book.synced) {
+      // Diffs before a streamed snapshot are covered by it; a REST snapshot needs them replayed
+      if (decoder.depth.fetchSnapshot) {
+        state.buffer.push(update);
+      }
+      return;
+    } else if (!this.applyDepthDelta(book, update)) {
+      console.warn(`Depth gap on ${exchange} ${book.symbol} after ${book.sequence}, resyncing`);
+      state.buffer = decoder.depth.fetchSnapshot ? [update] : [];
+      this.reportGap(exchange, book.symbol, 'sequence');
+      this.resyncBook(exchange, book.symbol);
+      return;
+    }
+
+    if (!this.verifyBook(exchange, state, update.checksum)) return;
+    this.notifyBookSubscribers(book);
+  }
+
+  /**
+   * Apply one diff. Returns false when sequence numbers show a gap since the last applied diff.
+   */
+  private applyDepthDelta(book: LocalOrderBook, update: DepthUpdate): boolean {
+    const lastApplied = book.sequence;
+
+    if (update.sequence !== undefined && lastApplied !== undefined) {
+      if (update.sequence <= lastApplied) return true; // Already part of the book
+      if (update.firstSequence !== undefined && update.firstSequence > lastApplied + 1) return false;
+    }
+
+    update.bids.forEach(([price, size]) => book.update('bid', price, size));
+    update.asks.forEach(([price, size]) => book.update('ask', price, size));
+    book.sequence = update.sequence ?? lastApplied;
+    book.timestamp = update.timestamp;
+    return true;
+  }
+
+  /**
+   * Check the book against the venue checksum, or for crossing where there is
+   * none. A bad book is resynced and false returned.
+   */
+  private verifyBook(exchange: string, state: DepthState, checksum?: number): boolean {
+    const { decoder } = this.venues.get(exchange)!;
+    const { book } = state;
+
+    // Venues only maintain a fixed depth; levels pushed out must be dropped before checksumming
+    if (decoder.depth.maxLevels !== undefined) {
+      book.truncate(decoder.depth.maxLevels);
+    }
+
+    if (checksum !== undefined && decoder.depth.checksum && checksum !== decoder.depth.checksum(book)) {
+      console.warn(`Checksum mismatch on ${exchange} ${book.symbol}, resyncing`);
+      this.reportGap(exchange, book.symbol, 'checksum');
+      this.resyncBook(exchange, book.symbol);
+      return false;
+    }
+    if (book.isCrossed()) {
+      console.warn(`Crossed book on ${exchange} ${book.symbol}, resyncing`);
+      this.reportGap(exchange, book.symbol, 'crossed');
+      this.resyncBook(exchange, book.symbol);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Called whenever a book is found out of step with its venue
+   */
+  subscribeToFeedGaps(callback: (gap: FeedGap) => void): () => void {
+    this.gapSubscribers.add(callback);
+    return () => this.gapSubscribers.delete(callback);
+  }
+
+  private reportGap(exchange: string, symbol: string, reason: FeedGap['reason']) {
+    const gap: FeedGap = { exchange, symbol, reason, timestamp: Date.now() };
+    this.gapSubscribers.forEach(callback => {
+      try {
+        callback(gap);
+      } catch (error) {
+        console.error('Error in feed gap subscriber callback:', error);
+      }
+    });
+  }
+
+  private resyncBook(exchange: string, symbol: string) {
+    const state = this.books.get(`${exchange}-${symbol}`);
+    if (!state) return;
+    state.book.synced = false;
+
+    if (this.venues.get(exchange)!.decoder.depth.fetchSnapshot) {
+      // A replay supplies recorded snapshots itself
+      if (!this.replaying.has(exchange)) {
+        this.loadDepthSnapshot(exchange, state);
+      }
     } else {
-      console.error(`Max reconnection attempts reached for ${exchange}`);
+      // Resubscribing makes the venue send a fresh snapshot
+      this.sendSubscriptions(exchange, 'depth', [symbol], false);
+      this.sendSubscriptions(exchange, 'depth', [symbol], true);
+    }
+  }
+
+  private async loadDepthSnapshot(exchange: string, state: DepthState) {
+    if (state.resyncing) return;
+    state.resyncing = true;
+
+    const { decoder } = this.venues.get(exchange)!;
+    const { book } = state;
+    let gap = false;
+    try {
+      const snapshot = await decoder.depth.fetchSnapshot!(symbolRegistry.toNative(exchange, book.symbol));
+
+      // Unsubscribed or reconnected while the request was in flight
+      if (this.books.get(`${exchange}-${book.symbol}`) !== state || !this.connections.has(exchange)) return;
+
+      // Dispatched like a streamed snapshot so recordings include it
+      this.dispatch({ receivedAt: Date.now(), exchange, message: { type: 'depth', update: snapshot } });
+      gap = !book.synced;
+    } catch (error) {
+      console.error(`Error loading ${exchange} depth snapshot for ${book.symbol}:`, error);
+      gap = true;
+    } finally {
+      state.resyncing = false;
+    }
+
+    if (gap) {
+      setTimeout(() => this.loadDepthSnapshot(exchange, state), SNAPSHOT_RETRY_MS);
+    }
+  }
+
+  private markUnsynced(exchange: string, symbol: string) {
+    const state = this.books.get(`${exchange}-${symbol}`);
+    if (state) {
+      state.book.synced = false;
+      state.buffer = [];
+    }
+  }
+
+  private notifyBookSubscribers(book: LocalOrderBook) {
+    const subscribers = this.bookSubscribers.get(`${book.exchange}-${book.symbol}`);
+    if (!subscribers || subscribers.size === 0) return;
+
+    subscribers.forEach(callback => {
+      try {
+        callback(book);
+      } catch (error) {
+        console.error('Error in order book subscriber callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Stream public trades for symbols on an exchange, resubscribed on every reconnect
+   */
+  subscribeToTrades(exchange: string, symbols: string[]) {
+    if (!this.venues.has(exchange)) {
+      throw new Error(`Exchange ${exchange} not supported`);
+    }
+
+    const subscribed = this.tradeSubscriptions.get(exchange) || new Set<string>();
+    const added = symbols.filter(symbol => !subscribed.has(symbol));
+    added.forEach(symbol => subscribed.add(symbol));
+    this.tradeSubscriptions.set(exchange, subscribed);
+
+    this.sendSubscriptions(exchange, 'trades', added, true);
+  }
+
+  unsubscribeFromTrades(exchange: string, symbols: string[]) {
+    const subscribed = this.tradeSubscriptions.get(exchange);
+    if (!subscribed) return;
+
+    const removed = symbols.filter(symbol => subscribed.has(symbol));
+    removed.forEach(symbol => subscribed.delete(symbol));
+
+    this.sendSubscriptions(exchange, 'trades', removed, false);
+  }
+
+  /**
+   * Called with every trade print for symbol, or for every symbol with 'all'
+   */
+  subscribeToTradePrints(exchange: string, symbol: string, callback: (trade: TradePrint) => void): () => void {
+    const key = `${exchange}-${symbol}`;
+
+    if (!this.tradeSubscribers.has(key)) {
+      this.tradeSubscribers.set(key, new Set());
     }
+    this.tradeSubscribers.get(key)!.add(callback);
+
+    return () => {
+      const subscribers = this.tradeSubscribers.get(key);
+      subscribers?.delete(callback);
+      if (subscribers?.size === 0) {
+        this.tradeSubscribers.delete(key);
+      }
+    };
   }
 
-  subscribe(exchange: string, symbol: string, callback: (data: MarketData) => void): string {
+  private notifyTradeSubscribers(exchange: string, print: TradePrint) {
+    [`${exchange}-${print.symbol}`, `${exchange}-all`].forEach(key => {
+      this.tradeSubscribers.get(key)?.forEach(callback => {
+        try {
+          callback(print);
+        } catch (error) {
+          console.error('Error in trade subscriber callback:', error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Called with every ticker update for symbol, or for every symbol with 'all'.
+   * A specific symbol is streamed for as long as the subscription lasts.
+   */
+  subscribe(exchange: string, symbol: string, callback: (data: MarketData) => void): () => void {
     const key = symbol === 'all' ? `${exchange}-all` : `${exchange}-${symbol}`;
     
     if (!this.subscribers.has(key)) {
@@ -188,19 +900,26 @@ class WebSocketService {
     }
     
     this.subscribers.get(key)!.add(callback);
-    
-    // Return unsubscribe function
-    return key;
-  }
+    if (symbol !== 'all') {
+      this.addSymbols(exchange, [symbol]);
+    }
 
-  unsubscribe(key: string, callback: Function) {
-    const subscribers = this.subscribers.get(key);
-    if (subscribers) {
-      subscribers.delete(callback);
-      if (subscribers.size === 0) {
-        this.subscribers.delete(key);
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+
+      const subscribers = this.subscribers.get(key);
+      if (subscribers) {
+        subscribers.delete(callback);
+        if (subscribers.size === 0) {
+          this.subscribers.delete(key);
+        }
       }
-    }
+      if (symbol !== 'all') {
+        this.removeSymbols(exchange, [symbol]);
+      }
+    };
   }
 
   private notifySubscribers(key: string, data: MarketData) {
@@ -217,16 +936,30 @@ class WebSocketService {
   }
 
   disconnect(exchange: string) {
-    const ws = this.connections.get(exchange);
+    const link = this.links.get(exchange);
+    if (!link) return;
+
+    link.wanted = false;
+    link.pinnedSymbols.clear();
+    if (link.reconnectTimer) {
+      clearTimeout(link.reconnectTimer);
+      link.reconnectTimer = null;
+    }
+    link.nextRetryAt = null;
+
+    const ws = link.ws;
     if (ws) {
+      // Detached first so the close is not treated as a drop
+      ws.onclose = null;
       ws.close();
-      this.connections.delete(exchange);
+      this.handleSocketClosed(exchange);
     }
   }
 
   disconnectAll() {
-    this.connections.forEach((ws, exchange) => {
+    this.links.forEach((link, exchange) => {
       this.disconnect(exchange);
+      link.tickerRefs.clear();
     });
     this.subscribers.clear();
   }
@@ -247,4 +980,5 @@ class WebSocketService {
 
 // Singleton instance
 export const websocketService = new WebSocketService();
-export type { MarketData };
+export { WebSocketService };
+export type { MarketData, TradePrint, MarketEvent, FeedGap, ConnectionState, ConnectionStatus };
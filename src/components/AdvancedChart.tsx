@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { TrendingUp, TrendingDown, BarChart3, Activity } from 'lucide-react';
+import { parseTimeframe } from '@/utils/timeframes';
 
 interface ChartData {
   time: string;
@@ -16,11 +17,11 @@ interface ChartData {
 
 const AdvancedChart: React.FC = () => {
   const [selectedSymbol, setSelectedSymbol] = useState('EUR/USD');
-  const [selectedTimeframe, setSelectedTimeframe] = useState('1H');
+  const [selectedTimeframe, setSelectedTimeframe] = useState('1h');
   const [chartType, setChartType] = useState('candlestick');
 
   const symbols = ['EUR/USD', 'GBP/USD', 'USD/JPY', 'BTC/USD', 'ETH/USD', 'AUD/USD'];
-  const timeframes = ['1M', '5M', '15M', '1H', '4H', '1D'];
+  const timeframes = ['1m', '5m', '15m', '30m', '1h', '2h', '4h', '1d', '1w', '1M'];
 
   // Mock chart data
   const chartData: ChartData[] = [
@@ -115,7 +116,7 @@ const AdvancedChart: React.FC = () => {
                 <div className="text-center">
                   <BarChart3 className="h-12 w-12 text-gray-500 mx-auto mb-2" />
                   <p className="text-gray-500">Interactive Chart Area</p>
-                  <p className="text-sm text-gray-600">Real-time {selectedSymbol} {selectedTimeframe} chart</p>
+                  <p className="text-sm text-gray-600">Real-time {selectedSymbol} {parseTimeframe(selectedTimeframe).label} chart</p>
                 </div>
               </div>
             </div>
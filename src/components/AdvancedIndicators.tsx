@@ -3,69 +3,77 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-
-interface VolumeProfile {
-  price: number;
-  volume: number;
-  percentage: number;
-}
+import { websocketService } from '@/Services/websocketService';
+import { TradeFlowAggregator } from '@/Services/tradeFlow';
+import type { PriceLevelVolume, ValueArea } from '@/Services/tradeFlow';
 
 interface OrderFlow {
   timestamp: string;
-  bidVolume: number;
-  askVolume: number;
+  buyVolume: number;
+  sellVolume: number;
   delta: number;
   cumDelta: number;
 }
 
-export default function AdvancedIndicators() {
-  const [volumeProfile, setVolumeProfile] = useState<VolumeProfile[]>([]);
+interface AdvancedIndicatorsProps {
+  exchange?: string;
+  symbol?: string;
+}
+
+const REFRESH_INTERVAL = 1000;
+
+const formatPrice = (price: number) => price.toFixed(price >= 100 ? 2 : 4);
+
+export default function AdvancedIndicators({ exchange = 'binance', symbol = 'BTC/USD' }: AdvancedIndicatorsProps) {
+  const [volumeProfile, setVolumeProfile] = useState<PriceLevelVolume[]>([]);
   const [orderFlow, setOrderFlow] = useState<OrderFlow[]>([]);
-  const [marketProfile, setMarketProfile] = useState({
-    poc: 1.2345, // Point of Control
-    vah: 1.2380, // Value Area High
-    val: 1.2310, // Value Area Low
-    valueArea: 68.2
-  });
+  const [marketProfile, setMarketProfile] = useState<ValueArea | null>(null);
+  const [vwap, setVwap] = useState<number | null>(null);
 
   useEffect(() => {
-    // Simulate volume profile data
-    const mockVolumeProfile = Array.from({ length: 20 }, (_, i) => ({
-      price: 1.2300 + (i * 0.001),
-      volume: Math.random() * 10000,
-      percentage: Math.random() * 100
-    })).sort((a, b) => b.volume - a.volume);
-    
-    setVolumeProfile(mockVolumeProfile);
+    const aggregator = new TradeFlowAggregator();
+
+    websocketService.subscribeToTrades(exchange, [symbol]);
+    const unsubscribe = websocketService.subscribeToTradePrints(exchange, symbol, print => aggregator.add(print));
+    if (!websocketService.isConnected(exchange)) {
+      websocketService.connect(exchange).catch(error => console.error(`Error connecting to ${exchange}:`, error));
+    }
+
+    // Prints arrive far faster than is useful to render
+    const refresh = setInterval(() => {
+      setVolumeProfile([...aggregator.getVolumeProfile()].sort((a, b) => b.volume - a.volume));
+      setOrderFlow(aggregator.getDeltaBars(60000).slice(-10).reverse().map(bar => ({
+        timestamp: new Date(bar.timestamp).toLocaleTimeString(),
+        buyVolume: bar.buyVolume,
+        sellVolume: bar.sellVolume,
+        delta: bar.delta,
+        cumDelta: bar.cumDelta
+      })));
+      setMarketProfile(aggregator.getValueArea());
+      setVwap(aggregator.getVWAP());
+    }, REFRESH_INTERVAL);
 
-    // Simulate order flow data
-    const mockOrderFlow = Array.from({ length: 10 }, (_, i) => {
-      const bidVol = Math.random() * 1000;
-      const askVol = Math.random() * 1000;
-      return {
-        timestamp: new Date(Date.now() - i * 60000).toLocaleTimeString(),
-        bidVolume: bidVol,
-        askVolume: askVol,
-        delta: bidVol - askVol,
-        cumDelta: (Math.random() - 0.5) * 5000
-      };
-    });
-    
-    setOrderFlow(mockOrderFlow);
-  }, []);
+    return () => {
+      clearInterval(refresh);
+      unsubscribe();
+      websocketService.unsubscribeFromTrades(exchange, [symbol]);
+    };
+  }, [exchange, symbol]);
 
   const getDeltaColor = (delta: number) => {
-    if (delta > 100) return 'text-green-600';
-    if (delta < -100) return 'text-red-600';
+    if (delta > 0) return 'text-green-600';
+    if (delta < 0) return 'text-red-600';
     return 'text-gray-600';
   };
 
+  const waiting = <p className="text-sm text-muted-foreground">Waiting for {symbol} trades on {exchange}...</p>;
+
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>Advanced Market Analysis</CardTitle>
-          <CardDescription>Volume Profile & Order Flow Analysis</CardDescription>
+          <CardDescription>Volume Profile & Order Flow Analysis · {symbol} on {exchange}</CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="volume-profile">
@@ -78,12 +86,13 @@ export default function AdvancedIndicators() {
             <TabsContent value="volume-profile" className="space-y-4">
               <div className="space-y-2">
                 <h3 className="text-lg font-semibold">Volume by Price</h3>
+                {volumeProfile.length === 0 && waiting}
                 {volumeProfile.slice(0, 10).map((level, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                    <span className="font-mono text-sm">{level.price.toFixed(4)}</span>
+                  <div key={level.price} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                    <span className="font-mono text-sm">{formatPrice(level.price)}</span>
                     <div className="flex items-center space-x-2 flex-1 mx-4">
                       <Progress value={level.percentage} className="flex-1" />
-                      <span className="text-sm">{level.volume.toFixed(0)}</span>
+                      <span className="text-sm">{level.volume.toFixed(4)}</span>
                     </div>
                     {index === 0 && <Badge variant="secondary">POC</Badge>}
                   </div>
@@ -96,57 +105,71 @@ export default function AdvancedIndicators() {
                 <h3 className="text-lg font-semibold">Real-Time Order Flow</h3>
                 <div className="grid grid-cols-5 gap-2 text-sm font-semibold border-b pb-2">
                   <span>Time</span>
-                  <span>Bid Vol</span>
-                  <span>Ask Vol</span>
+                  <span>Buy Vol</span>
+                  <span>Sell Vol</span>
                   <span>Delta</span>
                   <span>Cum Delta</span>
                 </div>
-                {orderFlow.map((flow, index) => (
-                  <div key={index} className="grid grid-cols-5 gap-2 text-sm p-2 hover:bg-gray-50 rounded">
+                {orderFlow.length === 0 && waiting}
+                {orderFlow.map(flow => (
+                  <div key={flow.timestamp} className="grid grid-cols-5 gap-2 text-sm p-2 hover:bg-gray-50 rounded">
                     <span className="font-mono">{flow.timestamp}</span>
-                    <span className="text-green-600">{flow.bidVolume.toFixed(0)}</span>
-                    <span className="text-red-600">{flow.askVolume.toFixed(0)}</span>
-                    <span className={getDeltaColor(flow.delta)}>{flow.delta.toFixed(0)}</span>
-                    <span className={getDeltaColor(flow.cumDelta)}>{flow.cumDelta.toFixed(0)}</span>
+                    <span className="text-green-600">{flow.buyVolume.toFixed(4)}</span>
+                    <span className="text-red-600">{flow.sellVolume.toFixed(4)}</span>
+                    <span className={getDeltaColor(flow.delta)}>{flow.delta.toFixed(4)}</span>
+                    <span className={getDeltaColor(flow.cumDelta)}>{flow.cumDelta.toFixed(4)}</span>
                   </div>
                 ))}
               </div>
             </TabsContent>
             
             <TabsContent value="market-profile" className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Point of Control (POC)</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold">{marketProfile.poc.toFixed(4)}</div>
-                    <p className="text-sm text-muted-foreground">Highest volume price level</p>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Value Area</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-1">
-                      <div className="flex justify-between">
-                        <span className="text-sm">High:</span>
-                        <span className="font-mono">{marketProfile.vah.toFixed(4)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-sm">Low:</span>
-                        <span className="font-mono">{marketProfile.val.toFixed(4)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-sm">Coverage:</span>
-                        <span>{marketProfile.valueArea}%</span>
+              {!marketProfile && waiting}
+              {marketProfile && (
+                <div className="grid grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Point of Control (POC)</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">{formatPrice(marketProfile.poc)}</div>
+                      <p className="text-sm text-muted-foreground">Highest volume price level</p>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Value Area</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-sm">High:</span>
+                          <span className="font-mono">{formatPrice(marketProfile.high)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm">Low:</span>
+                          <span className="font-mono">{formatPrice(marketProfile.low)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm">Coverage:</span>
+                          <span>{marketProfile.percent.toFixed(1)}%</span>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">VWAP</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">{vwap !== null ? formatPrice(vwap) : '-'}</div>
+                      <p className="text-sm text-muted-foreground">Volume-weighted average price, last hour</p>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
             </TabsContent>
           </Tabs>
         </CardContent>
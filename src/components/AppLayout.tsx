@@ -9,6 +9,7 @@ import { MarketAnalysis } from './MarketAnalysis';
 import AdvancedChart from './AdvancedChart';
 import TradingIndicators from './TradingIndicators';
 import RealTimeData from './RealTimeData';
+import MarketReplayPanel from './MarketReplayPanel';
 import AutomatedTrading from './AutomatedTrading';
 import RiskManagement from './RiskManagement';
 import BacktestResults from './BacktestResults';
@@ -61,6 +62,7 @@ const AppLayout = () => {
             <TabsContent value="dashboard" className="space-y-8">
               <LiveDashboard />
               <RealTimeData />
+              <MarketReplayPanel />
             </TabsContent>
 
             <TabsContent value="signals" className="space-y-8">
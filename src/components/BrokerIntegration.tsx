@@ -5,6 +5,10 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { accountConnector } from '@/Services/accountConnector';
+import type { KeyPermission } from '@/Services/credentialVault';
+import VaultUnlock from './VaultUnlock';
 
 interface BrokerStatus {
   name: string;
@@ -23,11 +27,15 @@ export default function BrokerIntegration() {
     { name: 'Interactive Brokers', type: 'forex', connected: false, balance: 0, positions: 0, spread: 0 }
   ]);
 
-  const [credentials, setCredentials] = useState({
+  const emptyCredentials = {
+    broker: 'Kraken',
     apiKey: '',
     apiSecret: '',
-    passphrase: ''
-  });
+    passphrase: '',
+    allowTrading: false
+  };
+  const [credentials, setCredentials] = useState(emptyCredentials);
+  const [saveError, setSaveError] = useState('');
 
   const connectBroker = (brokerName: string) => {
     setBrokers(prev => prev.map(broker => 
@@ -37,6 +45,25 @@ export default function BrokerIntegration() {
     ));
   };
 
+  const addBrokerConnection = async () => {
+    const permissions: KeyPermission[] = credentials.allowTrading ? ['read', 'trade'] : ['read'];
+
+    try {
+      await accountConnector.connect({
+        exchange: credentials.broker.toLowerCase().replace(/\s+/g, '_'),
+        apiKey: credentials.apiKey,
+        apiSecret: credentials.apiSecret,
+        passphrase: credentials.passphrase || undefined,
+        permissions
+      });
+      setCredentials(emptyCredentials);
+      setSaveError('');
+      connectBroker(credentials.broker);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to store credentials');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -81,7 +108,21 @@ export default function BrokerIntegration() {
             </TabsContent>
             
             <TabsContent value="setup" className="space-y-4">
+              <VaultUnlock />
               <div className="space-y-4">
+                <div>
+                  <Label htmlFor="broker">Broker</Label>
+                  <select
+                    id="broker"
+                    className="w-full h-10 px-3 border rounded-md bg-background"
+                    value={credentials.broker}
+                    onChange={(e) => setCredentials(prev => ({ ...prev, broker: e.target.value }))}
+                  >
+                    {brokers.map(broker => (
+                      <option key={broker.name} value={broker.name}>{broker.name}</option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <Label htmlFor="apiKey">API Key</Label>
                   <Input
@@ -112,7 +153,16 @@ export default function BrokerIntegration() {
                     placeholder="Enter passphrase"
                   />
                 </div>
-                <Button className="w-full">Add Broker Connection</Button>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="allowTrading"
+                    checked={credentials.allowTrading}
+                    onCheckedChange={(checked) => setCredentials(prev => ({ ...prev, allowTrading: checked }))}
+                  />
+                  <Label htmlFor="allowTrading">Allow trading (otherwise read-only)</Label>
+                </div>
+                {saveError && <p className="text-sm text-red-500">{saveError}</p>}
+                <Button className="w-full" onClick={addBrokerConnection}>Add Broker Connection</Button>
               </div>
             </TabsContent>
           </Tabs>
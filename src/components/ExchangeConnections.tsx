@@ -6,7 +6,8 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { supabase } from '@/lib/supabase';
+import { accountConnector } from '@/Services/accountConnector';
+import VaultUnlock from './VaultUnlock';
 
 interface ExchangeStatus {
   name: string;
@@ -22,21 +23,32 @@ export default function ExchangeConnections() {
     { name: 'Kraken', connected: false, latency: 0, lastUpdate: '', pairs: 0 },
     { name: 'OANDA', connected: false, latency: 0, lastUpdate: '', pairs: 0 }
   ]);
-  const [apiKeys, setApiKeys] = useState({ binance: '', kraken: '', oanda: '' });
+  const emptyKey = { apiKey: '', apiSecret: '', allowTrading: false };
+  const [apiKeys, setApiKeys] = useState({ binance: emptyKey, kraken: emptyKey, oanda: emptyKey });
 
-  const connectExchange = async (exchange: string) => {
+  const updateKey = (exchange: keyof typeof apiKeys, changes: Partial<typeof emptyKey>) => {
+    setApiKeys(prev => ({ ...prev, [exchange]: { ...prev[exchange], ...changes } }));
+  };
+
+  const connectExchange = async (exchange: keyof typeof apiKeys) => {
     try {
-      const { data, error } = await supabase.functions.invoke('connect-exchange', {
-        body: { exchange, apiKey: apiKeys[exchange.toLowerCase() as keyof typeof apiKeys] }
+      const { apiKey, apiSecret, allowTrading } = apiKeys[exchange];
+
+      // The secret is only stored in the vault once the exchange accepts the key
+      const connection = await accountConnector.connect({
+        exchange,
+        apiKey,
+        apiSecret,
+        secretEncoding: exchange === 'kraken' ? 'base64' : 'utf8',
+        permissions: allowTrading ? ['read', 'trade'] : ['read']
       });
-      
-      if (!error && data.success) {
-        setExchanges(prev => prev.map(ex => 
-          ex.name.toLowerCase() === exchange.toLowerCase() 
-            ? { ...ex, connected: true, latency: data.latency, pairs: data.pairs }
-            : ex
-        ));
-      }
+      updateKey(exchange, emptyKey);
+
+      setExchanges(prev => prev.map(ex => 
+        ex.name.toLowerCase() === exchange.toLowerCase() 
+          ? { ...ex, connected: true, latency: connection.latency, pairs: connection.pairs }
+          : ex
+      ));
     } catch (error) {
       console.error('Connection failed:', error);
     }
@@ -76,19 +88,33 @@ export default function ExchangeConnections() {
             </TabsContent>
             
             <TabsContent value="config" className="space-y-4">
-              {Object.entries(apiKeys).map(([exchange, key]) => (
+              <VaultUnlock />
+              {(Object.keys(apiKeys) as (keyof typeof apiKeys)[]).map((exchange) => (
                 <div key={exchange} className="space-y-2">
                   <Label htmlFor={exchange}>{exchange.toUpperCase()} API Key</Label>
                   <div className="flex space-x-2">
                     <Input
                       id={exchange}
-                      type="password"
-                      value={key}
-                      onChange={(e) => setApiKeys(prev => ({ ...prev, [exchange]: e.target.value }))}
+                      value={apiKeys[exchange].apiKey}
+                      onChange={(e) => updateKey(exchange, { apiKey: e.target.value })}
                       placeholder="Enter API key"
                     />
+                    <Input
+                      type="password"
+                      value={apiKeys[exchange].apiSecret}
+                      onChange={(e) => updateKey(exchange, { apiSecret: e.target.value })}
+                      placeholder="Enter API secret"
+                    />
                     <Button onClick={() => connectExchange(exchange)}>Connect</Button>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`${exchange}-trade`}
+                      checked={apiKeys[exchange].allowTrading}
+                      onCheckedChange={(checked) => updateKey(exchange, { allowTrading: checked })}
+                    />
+                    <Label htmlFor={`${exchange}-trade`}>Allow trading (otherwise read-only)</Label>
+                  </div>
                 </div>
               ))}
             </TabsContent>
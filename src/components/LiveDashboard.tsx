@@ -4,6 +4,8 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Activity, DollarSign, TrendingUp, TrendingDown, Clock, Zap } from 'lucide-react';
+import { balanceAggregator } from '@/Services/balanceAggregator';
+import type { AggregatedBalances } from '@/Services/balanceAggregator';
 
 interface LiveTrade {
   id: string;
@@ -19,7 +21,7 @@ interface LiveTrade {
 
 const LiveDashboard: React.FC = () => {
   const [isLive, setIsLive] = useState(true);
-  const [accountBalance, setAccountBalance] = useState(50000);
+  const [balances, setBalances] = useState<AggregatedBalances | null>(null);
   const [dailyPnL, setDailyPnL] = useState(1250.75);
 
   const [liveTrades, setLiveTrades] = useState<LiveTrade[]>([
@@ -87,6 +89,22 @@ const LiveDashboard: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    const loadBalances = async () => {
+      try {
+        setBalances(await balanceAggregator.getAggregatedBalances({ quote: 'USD' }));
+      } catch (error) {
+        console.error('Failed to load balances:', error);
+      }
+    };
+
+    loadBalances();
+    const interval = setInterval(loadBalances, 30000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const accountBalance = balances?.totalValue ?? 0;
   const totalPnL = liveTrades.reduce((sum, trade) => sum + trade.pnl, 0);
 
   return (
@@ -108,7 +126,11 @@ const LiveDashboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-blue-100">Account Balance</p>
-                <p className="text-2xl font-bold">${accountBalance.toLocaleString()}</p>
+                <p className="text-2xl font-bold">${accountBalance.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                <p className="text-xs text-blue-100">
+                  {balances ? `${balances.venues.length} accounts` : 'Loading balances...'}
+                  {balances && balances.stalePrices.length > 0 && ' • stale prices'}
+                </p>
               </div>
               <DollarSign className="w-8 h-8 text-blue-200" />
             </div>
@@ -160,8 +182,9 @@ const LiveDashboard: React.FC = () => {
       </div>
 
       <Tabs defaultValue="trades" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="trades">Live Trades</TabsTrigger>
+          <TabsTrigger value="balances">Balances</TabsTrigger>
           <TabsTrigger value="system">System Status</TabsTrigger>
           <TabsTrigger value="market">Market Conditions</TabsTrigger>
         </TabsList>
@@ -208,6 +231,48 @@ const LiveDashboard: React.FC = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="balances">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                Balances by Account
+                {balances && balances.stalePrices.length > 0 && (
+                  <Badge variant="outline" className="text-yellow-600">
+                    Stale: {balances.stalePrices.map(price => price.symbol).join(', ')}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {balances && balances.venues.length === 0 && (
+                <p className="text-sm text-gray-600">No exchange accounts connected</p>
+              )}
+              {balances?.venues.map((venue) => (
+                <div key={venue.accountId} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="font-medium">{venue.label || venue.accountId} <span className="text-sm text-gray-600">({venue.exchange})</span></p>
+                    <p className="font-medium">${venue.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                  </div>
+                  {venue.error && <p className="text-sm text-red-600">{venue.error}</p>}
+                  {venue.balances.map((balance) => (
+                    <div key={balance.currency} className="flex items-center justify-between text-sm">
+                      <span>{balance.total} {balance.currency}</span>
+                      <span className={balance.stale ? 'text-yellow-600' : 'text-gray-600'}>
+                        {balance.value !== undefined
+                          ? `$${balance.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}${balance.route && balance.route.length > 1 ? ` via ${balance.route.join(' → ')}` : ''}`
+                          : 'No price'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {balances && balances.unpriced.length > 0 && (
+                <p className="text-sm text-gray-600">Not included in total: {balances.unpriced.join(', ')}</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="system">
           <Card>
             <CardHeader>
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Circle, Square, Play, Pause, StepForward, Upload, Download, AlertCircle } from 'lucide-react';
+import { marketRecorder, MemorySink } from '@/Services/marketRecorder';
+import { MarketReplay } from '@/Services/marketReplay';
+import type { ReplayProgress } from '@/Services/marketReplay';
+
+const SPEEDS = [1, 10, 100];
+
+export default function MarketReplayPanel() {
+  const [recording, setRecording] = useState(marketRecorder.isRecording());
+  const [recorded, setRecorded] = useState<MemorySink | null>(null);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [replay, setReplay] = useState<MarketReplay | null>(null);
+  const [progress, setProgress] = useState<ReplayProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sinkRef = useRef<MemorySink | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Event count while recording
+  useEffect(() => {
+    if (!recording) return;
+    const interval = setInterval(() => setRecordedCount(marketRecorder.getCount()), 1000);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  useEffect(() => {
+    if (!replay) return;
+    setProgress(replay.getProgress());
+    const unsubscribe = replay.subscribe(setProgress);
+    return () => {
+      unsubscribe();
+      replay.stop();
+    };
+  }, [replay]);
+
+  const toggleRecording = async () => {
+    setError(null);
+    if (recording) {
+      setRecordedCount(await marketRecorder.stop());
+      setRecorded(sinkRef.current);
+      setRecording(false);
+      return;
+    }
+
+    try {
+      const sink = new MemorySink();
+      marketRecorder.start(sink);
+      sinkRef.current = sink;
+      setRecordedCount(0);
+      setRecording(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start recording');
+    }
+  };
+
+  const downloadRecording = () => {
+    if (!recorded) return;
+    const url = URL.createObjectURL(recorded.toBlob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `market-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadRecording = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      setReplay(MarketReplay.fromRecording(await file.text()));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  };
+
+  const playing = progress?.state === 'playing';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Record &amp; Replay</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant={recording ? 'destructive' : 'outline'} size="sm" onClick={toggleRecording}>
+              {recording ? <Square className="h-4 w-4 mr-2" /> : <Circle className="h-4 w-4 mr-2" />}
+              {recording ? `Stop (${recordedCount})` : 'Record'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadRecording} disabled={!recorded || recording}>
+              <Download className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load
+            </Button>
+            <input ref={fileInput} type="file" accept=".ndjson,.jsonl,.txt" className="hidden" onChange={loadRecording} />
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {replay && progress ? (
+          <div className="flex flex-wrap items-center gap-2">
+            {SPEEDS.map(speed => (
+              <Button
+                key={speed}
+                size="sm"
+                variant={playing && progress.speed === speed ? 'default' : 'outline'}
+                onClick={() => replay.play(speed)}
+                disabled={progress.state === 'finished'}
+              >
+                <Play className="h-4 w-4 mr-1" />
+                {speed}x
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={() => replay.pause()} disabled={!playing}>
+              <Pause className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => replay.step()} disabled={progress.state === 'finished'}>
+              <StepForward className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setReplay(null)}>
+              <Square className="h-4 w-4 mr-1" />
+              End replay
+            </Button>
+            <Badge variant="secondary">{progress.state}</Badge>
+            <span className="text-sm text-muted-foreground">
+              {progress.position} / {progress.length} events
+              {progress.time !== null && ` · ${new Date(progress.time).toLocaleTimeString()}`}
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Record the live feeds to a file, or load a recording to replay it through every market data view.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,51 +5,61 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Activity, Wifi, WifiOff, TrendingUp, TrendingDown, AlertCircle } from 'lucide-react';
-import { websocketService, MarketData } from '../services/websocketService';
+import type { MarketData, ConnectionState, ConnectionStatus } from '@/Services/websocketService';
+import { marketDataWorker } from '@/Services/marketDataWorker';
 
 interface MarketDataItem extends MarketData {
   changePercent?: number;
   prevPrice?: number;
 }
 
+const STATE_BADGES: Record<ConnectionState, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string }> = {
+  open: { variant: 'default', label: 'live' },
+  connecting: { variant: 'secondary', label: 'connecting' },
+  degraded: { variant: 'destructive', label: 'stale' },
+  closed: { variant: 'outline', label: 'offline' }
+};
+
 const RealTimeData = () => {
   const [isConnected, setIsConnected] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<Record<string, boolean>>({});
+  const [connectionStatus, setConnectionStatus] = useState<Record<string, ConnectionStatus>>(marketDataWorker.getConnectionStates());
   const [lastUpdate, setLastUpdate] = useState(new Date());
   const [error, setError] = useState<string | null>(null);
   const [marketData, setMarketData] = useState<MarketDataItem[]>([
-    { symbol: 'BTCUSD', price: 43250.50, volume: 890000, change: 1250.30, timestamp: Date.now() },
-    { symbol: 'ETHUSD', price: 2650.75, volume: 1200000, change: -45.25, timestamp: Date.now() },
-    { symbol: 'EURUSD', price: 1.0845, volume: 2450000, change: 0.0012, timestamp: Date.now() },
-    { symbol: 'GBPUSD', price: 1.2634, volume: 1890000, change: -0.0023, timestamp: Date.now() },
-    { symbol: 'USDJPY', price: 149.85, volume: 1650000, change: 0.45, timestamp: Date.now() },
-    { symbol: 'XAUUSD', price: 2045.60, volume: 750000, change: 15.40, timestamp: Date.now() }
+    { symbol: 'BTC/USD', price: 43250.50, volume: 890000, change: 1250.30, timestamp: Date.now() },
+    { symbol: 'ETH/USD', price: 2650.75, volume: 1200000, change: -45.25, timestamp: Date.now() },
+    { symbol: 'EUR/USD', price: 1.0845, volume: 2450000, change: 0.0012, timestamp: Date.now() },
+    { symbol: 'GBP/USD', price: 1.2634, volume: 1890000, change: -0.0023, timestamp: Date.now() },
+    { symbol: 'USD/JPY', price: 149.85, volume: 1650000, change: 0.45, timestamp: Date.now() },
+    { symbol: 'XAU/USD', price: 2045.60, volume: 750000, change: 15.40, timestamp: Date.now() }
   ]);
 
   const [selectedExchanges] = useState(['binance', 'coinbase']); // Default exchanges
-  const [symbols] = useState(['BTCUSD', 'ETHUSD', 'EURUSD', 'GBPUSD', 'USDJPY']);
+  const [symbols] = useState(['BTC/USD', 'ETH/USD', 'EUR/USD', 'GBP/USD', 'USD/JPY']);
 
-  // Handle real-time market data updates
-  const handleMarketDataUpdate = useCallback((data: MarketData) => {
+  // Handle a batch of real-time market data updates in one render
+  const handleMarketDataUpdate = useCallback((batch: MarketData[]) => {
     setMarketData(prev => {
-      const existingIndex = prev.findIndex(item => item.symbol === data.symbol);
-      
-      if (existingIndex >= 0) {
-        // Update existing symbol
-        const updated = [...prev];
-        const prevPrice = updated[existingIndex].price;
-        const changePercent = prevPrice > 0 ? ((data.price - prevPrice) / prevPrice) * 100 : 0;
-        
-        updated[existingIndex] = {
-          ...data,
-          prevPrice,
-          changePercent
-        };
-        return updated;
-      } else {
-        // Add new symbol
-        return [...prev, { ...data, changePercent: 0 }];
-      }
+      const updated = [...prev];
+      batch.forEach(data => {
+        const existingIndex = updated.findIndex(item => item.symbol === data.symbol);
+
+        if (existingIndex >= 0) {
+          // Update existing symbol
+          const prevPrice = updated[existingIndex].price;
+          const changePercent = prevPrice > 0 ? ((data.price - prevPrice) / prevPrice) * 100 : 0;
+
+          updated[existingIndex] = {
+            ...data,
+            prevPrice,
+            changePercent
+          };
+        } else {
+          // Add new symbol
+          updated.push({ ...data, changePercent: 0 });
+        }
+      });
+      return updated;
     });
     
     setLastUpdate(new Date());
@@ -62,12 +72,12 @@ const RealTimeData = () => {
       setError(null);
       
       // Subscribe to market data updates
-      const unsubscribe = websocketService.subscribe('binance', 'all', handleMarketDataUpdate);
+      const unsubscribe = marketDataWorker.subscribeToTickers('binance', handleMarketDataUpdate);
       
       // Connect to selected exchanges
       const connectionPromises = selectedExchanges.map(async (exchange) => {
         try {
-          const success = await websocketService.connect(exchange, symbols);
+          const success = await marketDataWorker.connect(exchange, symbols);
           return { exchange, success };
         } catch (error) {
           console.error(`Failed to connect to ${exchange}:`, error);
@@ -77,16 +87,7 @@ const RealTimeData = () => {
 
       const results = await Promise.all(connectionPromises);
       
-      // Update connection status
-      const newStatus: Record<string, boolean> = {};
-      let anyConnected = false;
-      
-      results.forEach(({ exchange, success }) => {
-        newStatus[exchange] = success;
-        if (success) anyConnected = true;
-      });
-      
-      setConnectionStatus(newStatus);
+      const anyConnected = results.some(({ success }) => success);
       setIsConnected(anyConnected);
       
       if (!anyConnected) {
@@ -104,9 +105,8 @@ const RealTimeData = () => {
 
   // Disconnect from WebSocket feeds
   const disconnectFromFeeds = useCallback(() => {
-    websocketService.disconnectAll();
+    marketDataWorker.disconnectAll();
     setIsConnected(false);
-    setConnectionStatus({});
     setError(null);
   }, []);
 
@@ -119,17 +119,13 @@ const RealTimeData = () => {
     }
   }, [isConnected, connectToFeeds, disconnectFromFeeds]);
 
-  // Monitor connection status
+  // Monitor connection state
   useEffect(() => {
-    const interval = setInterval(() => {
-      const status = websocketService.getConnectionStatus();
-      setConnectionStatus(status);
-      
-      const anyConnected = Object.values(status).some(connected => connected);
-      setIsConnected(anyConnected);
-    }, 5000); // Check every 5 seconds
-
-    return () => clearInterval(interval);
+    return marketDataWorker.subscribeToConnectionState(() => {
+      const states = marketDataWorker.getConnectionStates();
+      setConnectionStatus(states);
+      setIsConnected(Object.values(states).some(({ state }) => state === 'open' || state === 'degraded'));
+    });
   }, []);
 
   // Auto-connect on component mount
@@ -215,15 +211,21 @@ const RealTimeData = () => {
           {/* Connection Status */}
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <span>Exchanges:</span>
-            {selectedExchanges.map(exchange => (
-              <Badge 
-                key={exchange} 
-                variant={connectionStatus[exchange] ? "default" : "outline"}
-                className="text-xs"
-              >
-                {exchange}
-              </Badge>
-            ))}
+            {selectedExchanges.map(exchange => {
+              const status = connectionStatus[exchange];
+              const badge = STATE_BADGES[status?.state || 'closed'];
+              return (
+                <Badge 
+                  key={exchange} 
+                  variant={badge.variant}
+                  className="text-xs"
+                  title={status?.nextRetryAt ? `Retrying at ${new Date(status.nextRetryAt).toLocaleTimeString()}` : undefined}
+                >
+                  {exchange}: {badge.label}
+                  {status?.state === 'closed' && status.attempts > 0 && ` (retry ${status.attempts})`}
+                </Badge>
+              );
+            })}
             <span className="ml-4">Last updated: {lastUpdate.toLocaleTimeString()}</span>
           </div>
         </CardHeader>
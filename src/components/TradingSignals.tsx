@@ -18,24 +18,35 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { strategyEngine, Signal, TradingStrategy } from '../services/strategyEngine';
-import { websocketService, MarketData } from '../services/websocketService';
+import { marketDataWorker } from '@/Services/marketDataWorker';
+import type { IndicatorSpec, SeriesView } from '@/Services/marketDataWorker';
+import { TIMEFRAMES, parseTimeframe } from '@/utils/timeframes';
 
 interface ExtendedSignal extends Signal {
   isNew?: boolean;
   age?: number;
 }
 
+const SIGNAL_EXCHANGE = 'binance';
+const SIGNAL_SYMBOLS = ['BTC/USD', 'ETH/USD', 'SOL/USD'];
+const MIN_BARS = 50; // Minimum closed bars for reliable signals
+const LIVE_INDICATORS: IndicatorSpec[] = [
+  { key: 'rsi', kind: 'rsi', period: 14 },
+  { key: 'sma20', kind: 'sma', period: 20 },
+  { key: 'sma50', kind: 'sma', period: 50 }
+];
+
 const TradingSignals = () => {
   const [signals, setSignals] = useState<ExtendedSignal[]>([]);
   const [availableStrategies, setAvailableStrategies] = useState<TradingStrategy[]>([]);
   const [activeStrategies, setActiveStrategies] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(false);
-  const [marketData, setMarketData] = useState<MarketData[]>([]);
   const [selectedTimeframe, setSelectedTimeframe] = useState('1h');
   const [minConfidence, setMinConfidence] = useState(0.6);
   const [autoExecute, setAutoExecute] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [error, setError] = useState<string | null>(null);
+  const [liveIndicators, setLiveIndicators] = useState<Record<string, SeriesView['indicators']>>({});
 
   // Load available strategies on component mount
   useEffect(() => {
@@ -75,69 +86,43 @@ const TradingSignals = () => {
     };
   }, []);
 
-  // Subscribe to market data for strategy execution
+  // Build bars and indicators for the selected timeframe in the market data
+  // worker, and run strategies as each bar closes
   useEffect(() => {
-    const unsubscribeMarketData = websocketService.subscribe('binance', 'all', (data: MarketData) => {
-      setMarketData(prev => {
-        const filtered = prev.filter(d => d.symbol !== data.symbol);
-        const updated = [...filtered, data].slice(-100); // Keep last 100 data points
-        return updated;
-      });
-    });
+    if (!isRunning) return;
 
-    return () => {
-      if (unsubscribeMarketData) {
-        // WebSocket unsubscribe would be implemented here
-      }
-    };
-  }, []);
+    let cancelled = false;
+    const releases: (() => void)[] = [];
 
-  // Run strategies periodically when active
-  useEffect(() => {
-    if (!isRunning || marketData.length === 0) return;
+    const handleSeries = async (series: SeriesView) => {
+      setLiveIndicators(prev => ({ ...prev, [series.symbol]: series.indicators }));
+      if (!series.barClosed || series.closed.length < MIN_BARS) return;
 
-    const interval = setInterval(async () => {
       try {
         setError(null);
-        
-        // Group market data by symbol for strategy execution
-        const symbolData = new Map<string, MarketData[]>();
-        
-        marketData.forEach(data => {
-          if (!symbolData.has(data.symbol)) {
-            symbolData.set(data.symbol, []);
-          }
-          symbolData.get(data.symbol)!.push(data);
-        });
-
-        // Run strategies for each symbol with sufficient data
-        for (const [symbol, data] of symbolData) {
-          if (data.length >= 50) { // Minimum data points for reliable signals
-            const sortedData = data.sort((a, b) => a.timestamp - b.timestamp);
-            
-            // Convert to the format expected by strategy engine
-            const strategyData = sortedData.map(d => ({
-              symbol: d.symbol,
-              timestamp: d.timestamp,
-              open: d.price * 0.999, // Mock OHLC data
-              high: d.price * 1.001,
-              low: d.price * 0.998,
-              close: d.price,
-              volume: d.volume
-            }));
-
-            // Run all active strategies
-            await strategyEngine.runAllActiveStrategies(strategyData);
-          }
-        }
+        await strategyEngine.runAllActiveStrategies(series.closed, selectedTimeframe, { exchange: series.exchange, symbol: series.symbol });
       } catch (error) {
         console.error('Error running strategies:', error);
         setError(error instanceof Error ? error.message : 'Strategy execution failed');
       }
-    }, 30000); // Run every 30 seconds
+    };
 
-    return () => clearInterval(interval);
-  }, [isRunning, marketData]);
+    marketDataWorker.connect(SIGNAL_EXCHANGE).catch(error => {
+      console.error(`Error connecting to ${SIGNAL_EXCHANGE}:`, error);
+    });
+
+    SIGNAL_SYMBOLS.forEach(symbol => {
+      marketDataWorker.trackCandles({ exchange: SIGNAL_EXCHANGE, symbol, timeframe: selectedTimeframe, indicators: LIVE_INDICATORS }, handleSeries)
+        .then(release => cancelled ? release() : releases.push(release))
+        .catch(error => setError(error instanceof Error ? error.message : 'Failed to start candle stream'));
+    });
+
+    return () => {
+      cancelled = true;
+      releases.forEach(release => release());
+      setLiveIndicators({});
+    };
+  }, [isRunning, selectedTimeframe]);
 
   // Age signals over time
   useEffect(() => {
@@ -270,12 +255,9 @@ const TradingSignals = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1m">1 Minute</SelectItem>
-                      <SelectItem value="5m">5 Minutes</SelectItem>
-                      <SelectItem value="15m">15 Minutes</SelectItem>
-                      <SelectItem value="1h">1 Hour</SelectItem>
-                      <SelectItem value="4h">4 Hours</SelectItem>
-                      <SelectItem value="1d">1 Day</SelectItem>
+                      {TIMEFRAMES.map(timeframe => (
+                        <SelectItem key={timeframe} value={timeframe}>{parseTimeframe(timeframe).label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -318,6 +300,23 @@ const TradingSignals = () => {
             </div>
           </div>
 
+          {Object.keys(liveIndicators).length > 0 && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-2">
+              {SIGNAL_SYMBOLS.filter(symbol => liveIndicators[symbol]).map(symbol => {
+                const { rsi, sma20, sma50 } = liveIndicators[symbol];
+                const format = (value: unknown) => typeof value === 'number' ? value.toFixed(2) : '-';
+                return (
+                  <div key={symbol} className="p-2 border rounded-lg text-sm">
+                    <div className="font-medium">{symbol}</div>
+                    <div className="text-xs text-muted-foreground">
+                      RSI {format(rsi)} · SMA20 {format(sma20)} · SMA50 {format(sma50)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {error && (
             <Alert className="mt-4" variant="destructive">
               <AlertTriangle className="h-4 w-4" />
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { credentialVault } from '@/Services/credentialVault';
+
+export default function VaultUnlock() {
+  const [unlocked, setUnlocked] = useState(credentialVault.isUnlocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => credentialVault.onLockChange(setUnlocked), []);
+
+  const unlock = async () => {
+    try {
+      await credentialVault.unlock(passphrase);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock vault');
+    } finally {
+      setPassphrase('');
+    }
+  };
+
+  if (unlocked) {
+    return (
+      <div className="flex items-center justify-between p-4 border rounded-lg">
+        <Badge variant="default">Credential vault unlocked</Badge>
+        <Button size="sm" variant="outline" onClick={() => credentialVault.lock()}>Lock</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-4 border rounded-lg">
+      <Label htmlFor="vault-passphrase">
+        {credentialVault.isInitialized() ? 'Vault passphrase' : 'Choose a vault passphrase'}
+      </Label>
+      <div className="flex space-x-2">
+        <Input
+          id="vault-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="API secrets are encrypted with this passphrase"
+        />
+        <Button onClick={unlock} disabled={!passphrase}>Unlock</Button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { supabase } from '@/lib/supabase';
+import { symbolRegistry } from '@/Services/symbolRegistry';
+import type { RequestSigner } from '@/Services/credentialVault';
 
 export interface KrakenBalance {
   [currency: string]: string;
@@ -21,13 +23,14 @@ export interface KrakenTradeOrder {
   message: string;
 }
 
+const encoder = new TextEncoder();
+
 export class KrakenApiClient {
-  private apiKey: string;
-  private apiSecret: string;
+  // The secret never leaves the credential vault; private calls are signed here and relayed signed
+  constructor(private signer?: RequestSigner) {}
 
-  constructor(apiKey?: string, apiSecret?: string) {
-    this.apiKey = apiKey || '';
-    this.apiSecret = apiSecret || '';
+  setSigner(signer: RequestSigner | undefined) {
+    this.signer = signer;
   }
 
   async getBalance(): Promise<{ balance: KrakenBalance } | { error: string }> {
@@ -35,8 +38,7 @@ export class KrakenApiClient {
       const { data, error } = await supabase.functions.invoke('kraken-api-integration', {
         body: { 
           action: 'getBalance',
-          apiKey: this.apiKey,
-          apiSecret: this.apiSecret
+          ...await this.signRequest('/0/private/Balance', {})
         }
       });
 
@@ -48,19 +50,37 @@ export class KrakenApiClient {
     }
   }
 
+  /**
+   * Short-lived token authorising a ws-auth.kraken.com connection for private channels
+   */
+  async getWebSocketsToken(): Promise<{ token: string; expires: number } | { error: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('kraken-api-integration', {
+        body: {
+          action: 'getWebSocketsToken',
+          ...await this.signRequest('/0/private/GetWebSocketsToken', {})
+        }
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Kraken API Error:', error);
+      return { error: 'Failed to fetch WebSocket token' };
+    }
+  }
+
   async getMarketData(symbol: string): Promise<KrakenMarketData | { error: string }> {
     try {
       const { data, error } = await supabase.functions.invoke('kraken-api-integration', {
         body: { 
           action: 'getMarketData',
-          symbol,
-          apiKey: this.apiKey,
-          apiSecret: this.apiSecret
+          symbol: symbolRegistry.toNative('kraken_rest', symbol)
         }
       });
 
       if (error) throw error;
-      return data;
+      return data?.symbol ? { ...data, symbol } : data;
     } catch (error) {
       console.error('Kraken API Error:', error);
       return { error: 'Failed to fetch market data' };
@@ -69,24 +89,50 @@ export class KrakenApiClient {
 
   async placeTrade(symbol: string, side: 'buy' | 'sell', amount: number): Promise<KrakenTradeOrder | { error: string }> {
     try {
+      const pair = symbolRegistry.toNative('kraken_rest', symbol);
       const { data, error } = await supabase.functions.invoke('kraken-api-integration', {
         body: { 
           action: 'placeTrade',
-          symbol,
+          symbol: pair,
           side,
           amount,
-          apiKey: this.apiKey,
-          apiSecret: this.apiSecret
+          ...await this.signRequest('/0/private/AddOrder', {
+            ordertype: 'market',
+            type: side,
+            volume: amount.toString(),
+            pair
+          })
         }
       });
 
       if (error) throw error;
-      return data;
+      return data?.symbol ? { ...data, symbol } : data;
     } catch (error) {
       console.error('Kraken API Error:', error);
       return { error: 'Failed to place trade' };
     }
   }
+
+  /**
+   * Kraken API-Sign: HMAC-SHA512 of path + SHA256(nonce + postData) under the base64-decoded secret
+   */
+  private async signRequest(path: string, params: Record<string, string>) {
+    if (!this.signer) {
+      throw new Error('Kraken credentials not configured');
+    }
+
+    const nonce = Date.now().toString();
+    const postData = new URLSearchParams({ nonce, ...params }).toString();
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(nonce + postData)));
+    const message = new Uint8Array([...encoder.encode(path), ...digest]);
+
+    return {
+      path,
+      postData,
+      apiKey: this.signer.apiKey,
+      signature: await this.signer.sign(message, { hash: 'SHA-512', encoding: 'base64' })
+    };
+  }
 }
 
 export const krakenApi = new KrakenApiClient();
\ No newline at end of file
@@ -0,0 +1,56 @@
+// src/test/fakeClock.ts
+import type { Clock, TimerHandle } from '../utils/clock';
+
+interface FakeTimer {
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Clock that only moves when advance() is called, running due timers in order
+ */
+class FakeClock implements Clock {
+  private time: number;
+  private timers: Map<number, FakeTimer> = new Map();
+  private nextHandle = 1;
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + Math.max(0, ms), callback });
+    return handle as unknown as TimerHandle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([a, first], [b, second]) => first.at - second.at || a - b)[0];
+      if (!due) break;
+
+      const [handle, timer] = due;
+      this.timers.delete(handle);
+      this.time = timer.at;
+      timer.callback();
+    }
+    this.time = end;
+  }
+}
+
+export { FakeClock };
@@ -0,0 +1,23 @@
+// src/test/frameFixtures.ts
+import { readFileSync } from 'node:fs';
+import type { DecodedMessage, VenueDecoder } from '../Services/decoders/types';
+
+// Recorded frames by case, e.g. ticker, depthDiff, malformed
+type FrameFixtures = Record<string, string[]>;
+
+/**
+ * Frames recorded from a venue's public feed, stored under decoders/__fixtures__
+ */
+function loadFrames(venue: string): FrameFixtures {
+  return JSON.parse(readFileSync(new URL(`../Services/decoders/__fixtures__/${venue}.json`, import.meta.url), 'utf8'));
+}
+
+/**
+ * Every message decoded from the frames, in order
+ */
+function decodeAll(decoder: VenueDecoder, frames: string[], receivedAt: number = 0): DecodedMessage[] {
+  return frames.flatMap(frame => decoder.decode(frame, receivedAt));
+}
+
+export { loadFrames, decodeAll };
+export type { FrameFixtures };
@@ -0,0 +1,18 @@
+// src/utils/clock.ts
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * Time source for anything that schedules work, so tests can substitute a fake clock
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle)
+};
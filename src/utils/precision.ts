@@ -0,0 +1,26 @@
+// src/utils/precision.ts
+
+export type RoundingMode = 'floor' | 'ceil' | 'round';
+
+/**
+ * Number of decimal places implied by an increment such as 0.001 or 5e-8
+ */
+export function decimalsOf(step: number): number {
+  if (!step || step >= 1) return 0;
+
+  const [mantissa, exponent] = step.toExponential().split('e');
+  const mantissaDecimals = (mantissa.split('.')[1] || '').length;
+  return Math.max(0, mantissaDecimals - Number(exponent));
+}
+
+/**
+ * Snap a value onto a multiple of step, trimming floating point noise
+ */
+export function roundToStep(value: number, step: number, mode: RoundingMode = 'round'): number {
+  if (!step) return value;
+
+  // Nudge by a tiny epsilon so values already on the grid are not pushed a full step
+  const ratio = value / step;
+  const steps = mode === 'floor' ? Math.floor(ratio + 1e-9) : mode === 'ceil' ? Math.ceil(ratio - 1e-9) : Math.round(ratio);
+  return Number((steps * step).toFixed(decimalsOf(step)));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { resampleCandles } from './resample';
+import type { Candle } from './resample';
+
+const MINUTE_MS = 60000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+// Candle i opens at i, trades one either side and closes half way up
+const series = (start: number, stepMs: number, count: number): Candle[] => Array.from({ length: count }, (_, i) => ({
+  timestamp: start + i * stepMs,
+  open: i,
+  high: i + 1,
+  low: i - 1,
+  close: i + 0.5,
+  volume: 1
+}));
+
+describe('resampleCandles', () => {
+  const start = utc('2024-01-01T00:00:00');
+
+  it('aggregates 1m candles into 4h OHLCV bars', () => {
+    const bars = resampleCandles(series(start, MINUTE_MS, 510), '1m', '4h');
+
+    expect(bars).toEqual([
+      { timestamp: start, open: 0, high: 240, low: -1, close: 239.5, volume: 240 },
+      { timestamp: start + 4 * 60 * MINUTE_MS, open: 240, high: 480, low: 239, close: 479.5, volume: 240 },
+      { timestamp: start + 8 * 60 * MINUTE_MS, open: 480, high: 510, low: 479, close: 509.5, volume: 30 }
+    ]);
+  });
+
+  it('drops the last bar only when the data ends before it closes', () => {
+    expect(resampleCandles(series(start, MINUTE_MS, 510), '1m', '4h', { dropIncomplete: true })).toHaveLength(2);
+    expect(resampleCandles(series(start, MINUTE_MS, 480), '1m', '4h', { dropIncomplete: true })).toHaveLength(2);
+    expect(resampleCandles(series(start, MINUTE_MS, 479), '1m', '4h', { dropIncomplete: true })).toHaveLength(1);
+  });
+
+  it('carries other fields over from the first candle of each bar', () => {
+    const candles = series(start, MINUTE_MS, 2).map(candle => ({ ...candle, symbol: 'BTC/USD' }));
+    expect(resampleCandles(candles, '1m', '5m')[0].symbol).toBe('BTC/USD');
+  });
+
+  it('splits daily candles into weeks at Monday', () => {
+    // Thursday 4 January to Wednesday 10 January
+    const bars = resampleCandles(series(utc('2024-01-04T00:00:00'), DAY_MS, 7), '1d', '1w');
+
+    expect(bars.map(bar => [bar.timestamp, bar.open, bar.close, bar.volume])).toEqual([
+      [utc('2024-01-01T00:00:00'), 0, 3.5, 4],
+      [utc('2024-01-08T00:00:00'), 4, 6.5, 3]
+    ]);
+    expect(resampleCandles(series(utc('2024-01-04T00:00:00'), DAY_MS, 7), '1d', '1w', { dropIncomplete: true })).toHaveLength(1);
+  });
+
+  it('splits daily candles into months at the 1st, keeping a month that closes with the data', () => {
+    // 30 January to 29 February, the last day of a leap-year February
+    const candles = series(utc('2024-01-30T00:00:00'), DAY_MS, 31);
+    const bars = resampleCandles(candles, '1d', '1M', { dropIncomplete: true });
+
+    expect(bars.map(bar => [bar.timestamp, bar.volume])).toEqual([
+      [utc('2024-01-01T00:00:00'), 2],
+      [utc('2024-02-01T00:00:00'), 29]
+    ]);
+    expect(resampleCandles(candles.slice(0, -1), '1d', '1M', { dropIncomplete: true })).toHaveLength(1);
+  });
+
+  it('refuses targets the source cannot build', () => {
+    expect(() => resampleCandles(series(start, 3 * MINUTE_MS, 5), '3m', '5m')).toThrow('Cannot build 5m bars from 3m bars');
+  });
+});
@@ -0,0 +1,56 @@
+// src/utils/resample.ts
+
+import { addTimeframes, canResample, floorToTimeframe } from './timeframes';
+
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ResampleOptions {
+  dropIncomplete?: boolean; // Drop the last bar when the source data ends before it closes
+}
+
+/**
+ * Aggregate candles into a higher timeframe: first open, highest high, lowest
+ * low, last close and summed volume per bar. Other fields (e.g. symbol) are
+ * carried over from the bar's first candle. Input must be sorted oldest first.
+ */
+export function resampleCandles<T extends Candle>(candles: T[], source: string, target: string, options: ResampleOptions = {}): T[] {
+  if (!canResample(source, target)) {
+    throw new Error(`Cannot build ${target} bars from ${source} bars`);
+  }
+  if (source === target) return [...candles];
+
+  const bars: T[] = [];
+  let current: T | null = null;
+
+  candles.forEach(candle => {
+    const bucket = floorToTimeframe(candle.timestamp, target);
+
+    if (!current || current.timestamp !== bucket) {
+      current = { ...candle, timestamp: bucket };
+      bars.push(current);
+      return;
+    }
+
+    current.high = Math.max(current.high, candle.high);
+    current.low = Math.min(current.low, candle.low);
+    current.close = candle.close;
+    current.volume += candle.volume;
+  });
+
+  if (options.dropIncomplete && bars.length > 0 && candles.length > 0) {
+    const last = bars[bars.length - 1];
+    const dataEnd = addTimeframes(candles[candles.length - 1].timestamp, source, 1);
+    if (dataEnd < addTimeframes(last.timestamp, target, 1)) {
+      bars.pop();
+    }
+  }
+
+  return bars;
+}
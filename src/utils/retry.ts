@@ -0,0 +1,42 @@
+// src/utils/retry.ts
+
+import { Clock, systemClock } from './clock';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown, attempt: number) => boolean;
+  delayFor?: (error: unknown) => number | undefined; // Server-mandated wait, e.g. Retry-After
+  random?: () => number;
+  clock?: Clock;
+}
+
+export function sleep(ms: number, clock: Clock = systemClock): Promise<void> {
+  return new Promise(resolve => clock.setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter: the nth retry waits a random time
+ * between 0 and min(maxDelay, baseDelay * 2^n)
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  return Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+export async function retryWithBackoff<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const clock = options.clock || systemClock;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt + 1 >= options.maxAttempts || !options.shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const delay = options.delayFor?.(error) ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs, options.random);
+      await sleep(delay, clock);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { addTimeframes, canResample, ceilToTimeframe, floorToTimeframe, parseTimeframe } from './timeframes';
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+describe('timeframes', () => {
+  it('parses ids and rejects multi-period calendar timeframes', () => {
+    expect(parseTimeframe('4h')).toMatchObject({ unit: 'h', count: 4, ms: 4 * 3600000, calendar: false, label: '4 Hours' });
+    expect(parseTimeframe('1M')).toMatchObject({ unit: 'M', calendar: true, label: '1 Month' });
+    expect(() => parseTimeframe('2w')).toThrow('calendar timeframes must be 1w or 1M');
+    expect(() => parseTimeframe('0m')).toThrow('Unsupported timeframe: 0m');
+    expect(() => parseTimeframe('1y')).toThrow('Unsupported timeframe: 1y');
+  });
+
+  it('aligns intraday bars to the epoch', () => {
+    expect(floorToTimeframe(utc('2024-01-03T13:59:59.999'), '4h')).toBe(utc('2024-01-03T12:00:00'));
+    expect(ceilToTimeframe(utc('2024-01-03T12:00:00'), '4h')).toBe(utc('2024-01-03T12:00:00'));
+    expect(ceilToTimeframe(utc('2024-01-03T12:00:01'), '4h')).toBe(utc('2024-01-03T16:00:00'));
+  });
+
+  it('opens weekly bars on Monday 00:00 UTC', () => {
+    // 2024-01-01 was a Monday
+    expect(floorToTimeframe(utc('2024-01-03T12:00:00'), '1w')).toBe(utc('2024-01-01T00:00:00'));
+    expect(floorToTimeframe(utc('2024-01-07T23:59:59.999'), '1w')).toBe(utc('2024-01-01T00:00:00'));
+    expect(floorToTimeframe(utc('2024-01-08T00:00:00'), '1w')).toBe(utc('2024-01-08T00:00:00'));
+    // Across a year end: Thursday 1970-01-01 belongs to the week opened Monday 1969-12-29
+    expect(floorToTimeframe(0, '1w')).toBe(utc('1969-12-29T00:00:00'));
+    expect(ceilToTimeframe(utc('2023-12-31T08:00:00'), '1w')).toBe(utc('2024-01-01T00:00:00'));
+  });
+
+  it('opens monthly bars on the 1st, whatever the month length', () => {
+    expect(floorToTimeframe(utc('2024-02-29T10:00:00'), '1M')).toBe(utc('2024-02-01T00:00:00'));
+    expect(floorToTimeframe(utc('2024-03-01T00:00:00'), '1M')).toBe(utc('2024-03-01T00:00:00'));
+    expect(ceilToTimeframe(utc('2024-02-15T00:00:00'), '1M')).toBe(utc('2024-03-01T00:00:00'));
+  });
+
+  it('steps month bars by calendar month, rolling over the year', () => {
+    expect(addTimeframes(utc('2024-01-01T00:00:00'), '1M', 1)).toBe(utc('2024-02-01T00:00:00'));
+    expect(addTimeframes(utc('2024-02-01T00:00:00'), '1M', 1)).toBe(utc('2024-03-01T00:00:00'));
+    expect(addTimeframes(utc('2023-12-01T00:00:00'), '1M', 1)).toBe(utc('2024-01-01T00:00:00'));
+    expect(addTimeframes(utc('2024-01-01T00:00:00'), '1M', -1)).toBe(utc('2023-12-01T00:00:00'));
+    expect(addTimeframes(utc('2023-11-01T00:00:00'), '1M', 14)).toBe(utc('2025-01-01T00:00:00'));
+  });
+
+  it('steps fixed bars by their length', () => {
+    expect(addTimeframes(utc('2024-01-01T00:00:00'), '1w', 1)).toBe(utc('2024-01-08T00:00:00'));
+    expect(addTimeframes(utc('2024-01-01T00:00:00'), '15m', -2)).toBe(utc('2023-12-31T23:30:00'));
+  });
+
+  it('resamples only where every target boundary is a source boundary', () => {
+    expect(canResample('1m', '4h')).toBe(true);
+    expect(canResample('1h', '1d')).toBe(true);
+    expect(canResample('3m', '5m')).toBe(false);
+    expect(canResample('4h', '6h')).toBe(false);
+    expect(canResample('1h', '1h')).toBe(true);
+  });
+
+  it('builds calendar bars from sources dividing a day, and calendar sources only into themselves', () => {
+    expect(canResample('1d', '1w')).toBe(true);
+    expect(canResample('5m', '1M')).toBe(true);
+    expect(canResample('3d', '1w')).toBe(false);
+    expect(canResample('7m', '1w')).toBe(false);
+    expect(canResample('1w', '1M')).toBe(false);
+    expect(canResample('1M', '1M')).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+// src/utils/timeframes.ts
+
+type TimeframeUnit = 'm' | 'h' | 'd' | 'w' | 'M';
+
+export interface Timeframe {
+  id: string; // Canonical ccxt-style id: minutes lower-case m, months upper-case M
+  unit: TimeframeUnit;
+  count: number;
+  ms: number; // Exact length for fixed timeframes, nominal (30 days) for months
+  calendar: boolean; // Weeks and months are aligned to the calendar rather than the epoch
+  label: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+// The epoch fell on a Thursday; weekly bars open on Monday 00:00 UTC as on most venues
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+const UNIT_MS: Record<TimeframeUnit, number> = {
+  m: MINUTE_MS,
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: WEEK_MS,
+  M: 30 * DAY_MS
+};
+
+const UNIT_LABELS: Record<TimeframeUnit, string> = {
+  m: 'Minute',
+  h: 'Hour',
+  d: 'Day',
+  w: 'Week',
+  M: 'Month'
+};
+
+export const TIMEFRAMES = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1d', '3d', '1w', '1M'] as const;
+
+export type TimeframeId = typeof TIMEFRAMES[number];
+
+/**
+ * Parse a timeframe id such as '30m', '2h', '1w' or '1M'. Throws on anything
+ * unrecognised rather than guessing.
+ */
+export function parseTimeframe(timeframe: string): Timeframe {
+  const match = /^(\d+)([mhdwM])$/.exec(timeframe);
+  const count = match ? Number(match[1]) : 0;
+  if (!match || count <= 0) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+
+  const unit = match[2] as TimeframeUnit;
+  if ((unit === 'w' || unit === 'M') && count !== 1) {
+    throw new Error(`Unsupported timeframe: ${timeframe} (calendar timeframes must be 1w or 1M)`);
+  }
+
+  return {
+    id: timeframe,
+    unit,
+    count,
+    ms: count * UNIT_MS[unit],
+    calendar: unit === 'w' || unit === 'M',
+    label: `${count} ${UNIT_LABELS[unit]}${count > 1 ? 's' : ''}`
+  };
+}
+
+export function isValidTimeframe(timeframe: string): boolean {
+  try {
+    parseTimeframe(timeframe);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Length of a timeframe in milliseconds; nominal for months, use the bucket functions for exact boundaries
+ */
+export function getTimeframeMs(timeframe: string): number {
+  return parseTimeframe(timeframe).ms;
+}
+
+/**
+ * Open time of the bar containing timestamp. Intraday and daily bars are aligned
+ * to the epoch, weeks to Monday and months to the 1st, all in UTC.
+ */
+export function floorToTimeframe(timestamp: number, timeframe: string): number {
+  const spec = parseTimeframe(timeframe);
+
+  if (spec.unit === 'M') {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  if (spec.unit === 'w') {
+    return Math.floor((timestamp - WEEK_OFFSET_MS) / WEEK_MS) * WEEK_MS + WEEK_OFFSET_MS;
+  }
+  return Math.floor(timestamp / spec.ms) * spec.ms;
+}
+
+/**
+ * Open time of the first bar starting at or after timestamp
+ */
+export function ceilToTimeframe(timestamp: number, timeframe: string): number {
+  const floor = floorToTimeframe(timestamp, timeframe);
+  return floor === timestamp ? floor : addTimeframes(floor, timeframe, 1);
+}
+
+/**
+ * Move a bar open time by count bars, which may be negative
+ */
+export function addTimeframes(timestamp: number, timeframe: string, count: number): number {
+  const spec = parseTimeframe(timeframe);
+
+  if (spec.unit === 'M') {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes());
+  }
+  return timestamp + count * spec.ms;
+}
+
+/**
+ * Whether bars of the target timeframe can be built exactly from bars of the
+ * source, i.e. every target boundary is also a source boundary
+ */
+export function canResample(source: string, target: string): boolean {
+  const from = parseTimeframe(source);
+  const to = parseTimeframe(target);
+
+  if (from.calendar) return from.id === to.id;
+  // Week and month boundaries fall on UTC midnight, so any source dividing a day lines up
+  if (to.calendar) return DAY_MS % from.ms === 0;
+  return to.ms % from.ms === 0;
+}
@@ -0,0 +1,124 @@
+// supabase/functions/kraken-api-integration/index.ts
+//
+// Relays Kraken REST calls for the browser, which cannot call Kraken directly.
+// Private calls arrive already signed by the client's credential vault as
+// { path, postData, apiKey, signature }; the secret never reaches this function.
+
+const KRAKEN_API = 'https://api.kraken.com';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+// The only private endpoint each action may reach, so a signed body cannot be replayed elsewhere
+const PRIVATE_PATHS: Record<string, string> = {
+  getBalance: '/0/private/Balance',
+  getWebSocketsToken: '/0/private/GetWebSocketsToken',
+  placeTrade: '/0/private/AddOrder'
+};
+
+interface SignedRequest {
+  path: string;
+  postData: string;
+  apiKey: string;
+  signature: string;
+}
+
+interface RelayRequest extends Partial<SignedRequest> {
+  action: string;
+  symbol?: string;
+  side?: string;
+  amount?: number;
+}
+
+interface KrakenResponse<T> {
+  error: string[];
+  result?: T;
+}
+
+const json = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+async function callPrivate<T>(action: string, request: RelayRequest): Promise<T> {
+  const { path, postData, apiKey, signature } = request;
+  if (!path || !postData || !apiKey || !signature) {
+    throw new Error('Signed request requires path, postData, apiKey and signature');
+  }
+  if (path !== PRIVATE_PATHS[action]) {
+    throw new Error(`Path ${path} is not allowed for ${action}`);
+  }
+
+  const response = await fetch(`${KRAKEN_API}${path}`, {
+    method: 'POST',
+    headers: {
+      'API-Key': apiKey,
+      'API-Sign': signature,
+      'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8'
+    },
+    body: postData
+  });
+  const data: KrakenResponse<T> = await response.json();
+  if (data.error?.length) {
+    throw new Error(data.error.join(', '));
+  }
+  return data.result as T;
+}
+
+async function getMarketData(symbol: string) {
+  const response = await fetch(`${KRAKEN_API}/0/public/Ticker?pair=${encodeURIComponent(symbol)}`);
+  const data: KrakenResponse<Record<string, { c: string[]; o: string; v: string[]; h: string[]; l: string[] }>> = await response.json();
+  if (data.error?.length) {
+    throw new Error(data.error.join(', '));
+  }
+
+  const ticker = Object.values(data.result || {})[0];
+  if (!ticker) {
+    throw new Error(`No ticker for ${symbol}`);
+  }
+  const price = parseFloat(ticker.c[0]);
+  const open = parseFloat(ticker.o);
+  return {
+    symbol,
+    price,
+    change: price - open,
+    changePercent: open ? ((price - open) / open) * 100 : 0,
+    volume: parseFloat(ticker.v[1]),
+    high24h: parseFloat(ticker.h[1]),
+    low24h: parseFloat(ticker.l[1])
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request: RelayRequest = await req.json();
+
+    switch (request.action) {
+      case 'getBalance':
+        return json({ balance: await callPrivate<Record<string, string>>('getBalance', request) });
+
+      case 'getWebSocketsToken':
+        return json(await callPrivate<{ token: string; expires: number }>('getWebSocketsToken', request));
+
+      case 'placeTrade': {
+        const result = await callPrivate<{ txid: string[]; descr: { order: string } }>('placeTrade', request);
+        return json({ orderId: result.txid[0], status: 'submitted', symbol: request.symbol, message: result.descr.order });
+      }
+
+      case 'getMarketData':
+        if (!request.symbol) {
+          return json({ error: 'symbol is required' }, 400);
+        }
+        return json(await getMarketData(request.symbol));
+
+      default:
+        return json({ error: `Unknown action: ${request.action}` }, 400);
+    }
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : String(error) }, 400);
+  }
+});